@@ -4,11 +4,19 @@ import { useEffect, useRef, useState } from 'react';
 import Markdown from 'react-markdown';
 import { BehaviorSubject } from 'rxjs';
 import './App.css';
+import { isAbortError } from './snapshot-provider/abort';
+import { CompositeDataProvider } from './snapshot-provider/composite-data-provider';
 import { ApiDataProvider, PdbeApiClient } from './snapshot-provider/data-provider';
+import { ModelDataProvider } from './snapshot-provider/model-data-provider';
 import { MolstarModelProvider } from './snapshot-provider/model-provider';
 import { MVSSnapshotListProvider } from './snapshot-provider/mvs-snapshot-list-provider';
 import { DefaultMVSSnapshotProviderConfig, MVSSnapshotProvider, type MVSSnapshotProviderConfig } from './snapshot-provider/mvs-snapshot-provider';
 import { type SnapshotSpec } from './snapshot-provider/mvs-snapshot-types';
+import { SnapshotSpecError, type SnapshotSpecIssue } from './snapshot-provider/mvs-snapshot-validation';
+import { createPresetTour, TourPresetNames, type TourPresetName, TourPresets } from './snapshot-provider/mvs-tour';
+import { createSnapshotMvsx } from './snapshot-provider/mvsx-export';
+import { IndexedDbResponseCache, MemoryResponseCache, type ResponseCacheStats, TieredResponseCache } from './snapshot-provider/response-cache';
+import { getSnapshotInfo, type SnapshotInfo } from './snapshot-provider/snapshot-info';
 
 
 type Molstar = typeof import('molstar/lib/apps/viewer');
@@ -46,18 +54,26 @@ class AppModel {
     viewer?: Viewer;
     readonly snapshotProvider: MVSSnapshotProvider;
     readonly snapshotListProvider: MVSSnapshotListProvider;
+    readonly pdbeApiClient: PdbeApiClient;
     readonly snapshotSpec = new BehaviorSubject<SnapshotSpec | undefined>(undefined);
     readonly snapshot = new BehaviorSubject<MVSData | undefined>(undefined);
     readonly isBusy = new BehaviorSubject<boolean>(false);
+    /** PDBe API response cache statistics, updated after each loaded snapshot */
+    readonly cacheStats = new BehaviorSubject<ResponseCacheStats | undefined>(undefined);
+    /** Problems with the last requested snapshot spec, to be shown instead of the description */
+    readonly specIssues = new BehaviorSubject<SnapshotSpecIssue[] | undefined>(undefined);
+    /** Allows cancelling the currently loading snapshot when another one is requested */
+    private loadingController?: AbortController;
 
     constructor() {
-        const { snapshotProvider, snapshotListProvider } = getMVSSnapshotProviders({
+        const { snapshotProvider, snapshotListProvider, pdbeApiClient } = getMVSSnapshotProviders({
             PdbApiUrlPrefix: 'http://localhost:5000/',
             // PdbApiUrlPrefix: 'http://localhost:3000/local_data/api',
             // PdbStructureUrlTemplate: 'http://localhost:3000/local_data/structures/{pdb}.bcif',
         });
         this.snapshotProvider = snapshotProvider;
         this.snapshotListProvider = snapshotListProvider;
+        this.pdbeApiClient = pdbeApiClient;
     }
 
     async initViewer(target: HTMLElement) {
@@ -75,10 +91,25 @@ class AppModel {
     }
 
     async loadSnapshot(snapshotSpec: SnapshotSpec) {
+        await this.load(signal => this.snapshotProvider.getSnapshot(snapshotSpec, { signal }), snapshotSpec);
+    }
+
+    /** Load a multistate guided tour through snapshots of the entry */
+    async loadTour(entryId: string, preset: TourPresetName) {
+        await this.load(async signal => {
+            const tour = await createPresetTour(this.snapshotListProvider, entryId, preset, { signal });
+            return await this.snapshotProvider.getTour(tour, { signal });
+        }, undefined);
+    }
+
+    private async load(getMVS: (signal: AbortSignal) => Promise<MVSData>, snapshotSpec: SnapshotSpec | undefined) {
         if (!this.viewer) return;
+        this.loadingController?.abort();
+        const controller = this.loadingController = new AbortController();
         this.isBusy.next(true);
+        this.specIssues.next(undefined);
         try {
-            let snapshot: MVSData = await this.snapshotProvider.getSnapshot(snapshotSpec);
+            let snapshot: MVSData = await getMVS(controller.signal);
             snapshot = Molstar.PluginExtensions.mvs.MVSData.fromMVSJ(Molstar.PluginExtensions.mvs.MVSData.toMVSJ(snapshot)); // TODO remove this once MVS validation in Molstar handles undefineds correctly (PR#1733) - Molstar >=5.5.1
             // const mvsj = Molstar.PluginExtensions.mvs.MVSData.toMVSJ(snapshot, 0)
             // console.log('mvsj', mvsj.length, mvsj)
@@ -89,10 +120,35 @@ class AppModel {
             await Molstar.PluginExtensions.mvs.loadMVS(this.viewer.plugin, snapshot, {});
             console.timeEnd('loadMVS')
             this.snapshotSpec.next(snapshotSpec);
+        } catch (err) {
+            if (isAbortError(err)) return; // superseded by another snapshot
+            if (err instanceof SnapshotSpecError) {
+                this.specIssues.next(err.issues);
+                return;
+            }
+            throw err;
         } finally {
-            this.isBusy.next(false);
+            if (this.loadingController === controller) {
+                this.loadingController = undefined;
+                this.isBusy.next(false);
+            }
+            this.cacheStats.next(this.pdbeApiClient.cacheStats());
         }
     }
+
+    /** Save the current snapshot as a self-contained MVSX archive (including structure and annotation files) */
+    async downloadMvsx() {
+        const snapshot = this.snapshot.value;
+        if (!snapshot) return;
+        const mvsx = await createSnapshotMvsx(snapshot);
+        const fileName = (snapshot.metadata.title ?? 'snapshot').replace(/[^\w.-]+/g, '_') + '.mvsx';
+        const url = URL.createObjectURL(new Blob([mvsx], { type: 'application/zip' }));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = fileName;
+        a.click();
+        URL.revokeObjectURL(url);
+    }
 }
 
 function ViewerWindow({ model }: { model: AppModel }) {
@@ -110,7 +166,11 @@ function ViewerWindow({ model }: { model: AppModel }) {
 function ControlsWindow({ model, entryId }: { model: AppModel, entryId: string }) {
     const [snapshots, setSnapshots] = useState<SnapshotSpec[] | undefined>(undefined);
     useEffect(() => {
-        model.snapshotListProvider.listSnapshots(entryId).then(setSnapshots);
+        const controller = new AbortController();
+        model.snapshotListProvider.listSnapshots(entryId, undefined, { signal: controller.signal }).then(setSnapshots, err => {
+            if (!isAbortError(err)) throw err;
+        });
+        return () => controller.abort();
     }, [model, entryId]);
 
     const kinds = model.snapshotListProvider.listSnapshotKinds();
@@ -135,6 +195,7 @@ function ControlsWindow({ model, entryId }: { model: AppModel, entryId: string }
             </Select>
         </div>
         <ViewButtons model={model} snapshots={snapshots?.filter(s => s.kind === category)} />
+        <TourButtons model={model} entryId={entryId} />
         <hr />
         <Description model={model} />
     </div>;
@@ -172,27 +233,93 @@ function ViewButtons({ model, snapshots }: { model: AppModel, snapshots: Snapsho
     </div>;
 }
 
+function TourButtons({ model, entryId }: { model: AppModel, entryId: string }) {
+    const [busy, setBusy] = useState<boolean>();
+    useEffect(() => {
+        const sub = model.isBusy.subscribe(setBusy);
+        return () => sub.unsubscribe();
+    }, [model]);
+
+    return <div className='ViewButtons'>
+        Guided tours:&emsp;
+        {TourPresetNames.map(preset =>
+            <Button key={preset} variant='outlined' style={{ margin: 2, textTransform: 'none' }} title={TourPresets[preset].description}
+                disabled={busy} onClick={() => model.loadTour(entryId, preset)} >
+                {TourPresets[preset].title}
+            </Button>
+        )}
+    </div>;
+}
+
 function Description({ model }: { model: AppModel }) {
     const [snapshot, setSnapshot] = useState<MVSData>();
+    const [specIssues, setSpecIssues] = useState<SnapshotSpecIssue[]>();
+    const [cacheStats, setCacheStats] = useState<ResponseCacheStats>();
     useEffect(() => {
         const sub = model.snapshot.subscribe(setSnapshot);
         return () => sub.unsubscribe();
     }, [model]);
+    useEffect(() => {
+        const sub = model.cacheStats.subscribe(setCacheStats);
+        return () => sub.unsubscribe();
+    }, [model]);
+    useEffect(() => {
+        const sub = model.specIssues.subscribe(setSpecIssues);
+        return () => sub.unsubscribe();
+    }, [model]);
 
     return <div className='Description'>
-        {snapshot && <Markdown>{snapshot.metadata.description}</Markdown>}
-        {!snapshot && <i style={{ color: 'gray' }}>No view selected.</i>}
+        {specIssues && <div style={{ color: 'darkred' }}>
+            <b>Cannot show this view:</b>
+            <ul>
+                {specIssues.map(issue => <li key={issue.path + issue.message}><code>{issue.path}</code>: {issue.message}</li>)}
+            </ul>
+        </div>}
+        {!specIssues && snapshot && snapshot.kind === 'multiple' && snapshot.snapshots.length === 1 && <SnapshotInfoBox info={getSnapshotInfo(snapshot.snapshots[0])} />}
+        {!specIssues && snapshot && <Markdown>{snapshot.metadata.description}</Markdown>}
+        {!specIssues && snapshot && <Button variant='text' style={{ textTransform: 'none' }} onClick={() => model.downloadMvsx()}>Download as MVSX</Button>}
+        {!specIssues && !snapshot && <i style={{ color: 'gray' }}>No view selected.</i>}
+        <CacheStatsLine stats={cacheStats} />
+    </div>;
+}
+
+/** Hit rate of PDBe API response cache */
+function CacheStatsLine({ stats }: { stats: ResponseCacheStats | undefined }) {
+    if (!stats) return null;
+    const requests = stats.hits + stats.misses;
+    const hitRate = requests > 0 ? ` (${Math.round(100 * stats.hits / requests)}% hit rate)` : '';
+    return <div style={{ color: 'gray', fontSize: 'small', marginTop: 8 }}>
+        API cache: {stats.hits} hits, {stats.misses} misses{hitRate}, {stats.evictions} evictions
+    </div>;
+}
+
+/** Warnings and colour legend of a snapshot */
+function SnapshotInfoBox({ info }: { info: SnapshotInfo | undefined }) {
+    if (!info) return null;
+    const warnings = [...(info.fallback ? [info.fallback.message] : []), ...info.warnings];
+    return <div>
+        {warnings.map(warning => <div key={warning} style={{ color: 'darkorange' }}>{'\u26A0'} {warning}</div>)}
+        {info.legend.length > 0 && <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginTop: 4 }}>
+            {info.legend.map(entry => <span key={entry.label + entry.color} style={{ whiteSpace: 'nowrap' }}>
+                <span style={{ display: 'inline-block', width: 12, height: 12, marginRight: 4, border: '1px solid gray', backgroundColor: entry.color }} />
+                {entry.label}
+            </span>)}
+        </div>}
     </div>;
 }
 
 
-/** Return a new MVSSnapshotProvider and MVSSnapshotListProvider taking data from PDBe API (https://www.ebi.ac.uk/pdbe/api/v2) */
+/** Return a new MVSSnapshotProvider and MVSSnapshotListProvider taking data from PDBe API (https://www.ebi.ac.uk/pdbe/api/v2),
+ * complemented by data derived from the structure itself (e.g. modified residues missing in the API) */
 function getMVSSnapshotProviders(config?: Partial<MVSSnapshotProviderConfig>) {
     const fullConfig: MVSSnapshotProviderConfig = { ...DefaultMVSSnapshotProviderConfig, ...config };
-    const pdbeApiClient = new PdbeApiClient(fullConfig.PdbApiUrlPrefix);
-    const dataProvider = new ApiDataProvider(pdbeApiClient);
-    const modelProvider = new MolstarModelProvider();
+    const cache = IndexedDbResponseCache.isAvailable() ?
+        new TieredResponseCache([new MemoryResponseCache(), new IndexedDbResponseCache(`pdbe-api-cache:${fullConfig.PdbApiUrlPrefix}`)])
+        : new MemoryResponseCache();
+    const pdbeApiClient = new PdbeApiClient(fullConfig.PdbApiUrlPrefix, { cache });
+    const modelProvider = new MolstarModelProvider({ urlTemplate: fullConfig.PdbStructureUrlTemplate, format: fullConfig.PdbStructureFormat });
+    const dataProvider = new CompositeDataProvider([new ApiDataProvider(pdbeApiClient), new ModelDataProvider(modelProvider)]);
     const snapshotProvider = new MVSSnapshotProvider(Molstar.PluginExtensions.mvs.MVSData, dataProvider, modelProvider, fullConfig);
     const snapshotListProvider = new MVSSnapshotListProvider(dataProvider, modelProvider);
-    return { snapshotProvider, snapshotListProvider };
+    return { snapshotProvider, snapshotListProvider, pdbeApiClient };
 }
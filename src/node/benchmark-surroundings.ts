@@ -0,0 +1,135 @@
+/** Benchmark of neighbour search used for chain surroundings (Node.js only).
+ *
+ * Usage: `yarn benchmark-surroundings [--radius R] [--max-chains N] [options] [PDB_ID...]`, where options are the same as for `generate-mvsj`
+ * (default entries are large structures, e.g. 4v6x ribosome and 1aon chaperonin).
+ *
+ * For each chain, computes surroundings by brute force (all target atoms against all atoms in the extended bounding box of the target)
+ * and by spatial grid (`chainSurroundings`), checks that both give the same residues, and prints the times.
+ */
+
+import type { Model } from 'molstar/lib/mol-model/structure';
+import { performance } from 'perf_hooks';
+import { chainSurroundings, getModelAtomGrid, type ResidueId } from '../snapshot-provider/structure-info';
+import { createNodeProviders, DefaultNodeProvidersOptions, type NodeProvidersOptions, NodeProvidersUsage, parseProvidersArg } from './node-providers';
+
+
+const DEFAULT_ENTRIES = ['4v6x', '1aon'];
+
+
+interface CliArgs {
+    entryIds: string[],
+    radius: number,
+    /** Only benchmark the first N chains of each entry (brute force is slow for large entries) */
+    maxChains: number,
+    providers: NodeProvidersOptions,
+}
+
+/** Parse command-line arguments (without the leading 'node script.js'), throw on invalid arguments */
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { entryIds: [], radius: 5, maxChains: 20, providers: { ...DefaultNodeProvidersOptions } };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            args.entryIds.push(arg.toLowerCase());
+            continue;
+        }
+        const value = argv[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        if (parseProvidersArg(args.providers, arg, value)) continue;
+        switch (arg) {
+            case '--radius':
+                args.radius = Number(value);
+                if (!(args.radius >= 0)) throw new Error(`Invalid radius "${value}"`);
+                break;
+            case '--max-chains':
+                args.maxChains = Number(value);
+                if (!Number.isInteger(args.maxChains) || args.maxChains <= 0) throw new Error(`Invalid number of chains "${value}"`);
+                break;
+            default: throw new Error(`Unknown option ${arg}\nUsage: benchmark-surroundings [--radius R] [--max-chains N] ${NodeProvidersUsage} [PDB_ID...]`);
+        }
+    }
+    if (args.entryIds.length === 0) args.entryIds = DEFAULT_ENTRIES;
+    return args;
+}
+
+/** Reference implementation of `chainSurroundings` without spatial index */
+function bruteForceChainSurroundings(model: Model, fromAtom: number, toAtom: number, radius: number): ResidueId[] {
+    const h = model.atomicHierarchy;
+    const { x, y, z } = model.atomicConformation;
+    const min = [Infinity, Infinity, Infinity], max = [-Infinity, -Infinity, -Infinity];
+    for (let i = fromAtom; i < toAtom; i++) {
+        min[0] = Math.min(min[0], x[i]); max[0] = Math.max(max[0], x[i]);
+        min[1] = Math.min(min[1], y[i]); max[1] = Math.max(max[1], y[i]);
+        min[2] = Math.min(min[2], z[i]); max[2] = Math.max(max[2], z[i]);
+    }
+    const sqRadius = radius ** 2;
+    const out: ResidueId[] = [];
+    let lastResidue = -1;
+    for (let iAtom = 0; iAtom < h.atoms._rowCount; iAtom++) {
+        if (iAtom >= fromAtom && iAtom < toAtom) continue;
+        if (x[iAtom] < min[0] - radius || x[iAtom] > max[0] + radius) continue;
+        if (y[iAtom] < min[1] - radius || y[iAtom] > max[1] + radius) continue;
+        if (z[iAtom] < min[2] - radius || z[iAtom] > max[2] + radius) continue;
+        for (let iTgt = fromAtom; iTgt < toAtom; iTgt++) {
+            if ((x[iAtom] - x[iTgt]) ** 2 + (y[iAtom] - y[iTgt]) ** 2 + (z[iAtom] - z[iTgt]) ** 2 > sqRadius) continue;
+            const iRes = h.residueAtomSegments.index[iAtom];
+            if (iRes !== lastResidue) {
+                lastResidue = iRes;
+                const iChain = h.chainAtomSegments.index[iAtom];
+                out.push({
+                    label_asym_id: h.chains.label_asym_id.value(iChain),
+                    label_seq_id: h.residues.label_seq_id.value(iRes),
+                    auth_seq_id: h.residues.auth_seq_id.value(iRes),
+                    pdbx_PDB_ins_code: h.residues.pdbx_PDB_ins_code.value(iRes),
+                });
+            }
+            break;
+        }
+    }
+    return out;
+}
+
+/** Run `func` and return its result and duration in milliseconds */
+function timed<T>(func: () => T): [T, number] {
+    const start = performance.now();
+    const result = func();
+    return [result, performance.now() - start];
+}
+
+async function main(): Promise<number> {
+    const args = parseArgs(process.argv.slice(2));
+    const { modelProvider } = createNodeProviders(args.providers);
+    let nMismatches = 0;
+    for (const entryId of args.entryIds) {
+        const model = await modelProvider.getModel(entryId);
+        const h = model.atomicHierarchy;
+        const [, gridTime] = timed(() => getModelAtomGrid(model));
+        console.log(`${entryId}: ${h.atoms._rowCount} atoms, ${h.chains._rowCount} chains, grid built in ${gridTime.toFixed(1)} ms`);
+        let totalBrute = 0, totalGrid = 0;
+        const nChains = Math.min(h.chains._rowCount, args.maxChains);
+        for (let iChain = 0; iChain < nChains; iChain++) {
+            const labelAsymId = h.chains.label_asym_id.value(iChain);
+            const fromAtom = h.chainAtomSegments.offsets[iChain], toAtom = h.chainAtomSegments.offsets[iChain + 1];
+            const [expected, bruteTime] = timed(() => bruteForceChainSurroundings(model, fromAtom, toAtom, args.radius));
+            const [actual, indexedTime] = timed(() => chainSurroundings(model, labelAsymId, args.radius));
+            totalBrute += bruteTime;
+            totalGrid += indexedTime;
+            const matches = JSON.stringify(actual) === JSON.stringify(expected);
+            if (!matches) nMismatches++;
+            console.log(`  chain ${labelAsymId} (${toAtom - fromAtom} atoms): ${actual.length} residues, brute force ${bruteTime.toFixed(1)} ms, grid ${indexedTime.toFixed(1)} ms${matches ? '' : ' MISMATCH'}`);
+        }
+        console.log(`${entryId}: ${nChains} chains, brute force ${totalBrute.toFixed(0)} ms, grid ${totalGrid.toFixed(0)} ms (${(totalBrute / Math.max(totalGrid, 1e-3)).toFixed(1)}x faster)`);
+    }
+    if (nMismatches > 0) console.error(`${nMismatches} chains with different results`);
+    return nMismatches > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+    main().then(
+        exitCode => { process.exitCode = exitCode; },
+        err => {
+            console.error(err instanceof Error ? err.message : err);
+            process.exitCode = 2;
+        },
+    );
+}
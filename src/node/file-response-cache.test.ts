@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { FileResponseCache } from './file-response-cache';
+
+
+let cacheDir: string;
+
+beforeEach(async () => {
+    cacheDir = await mkdtemp(path.join(os.tmpdir(), 'file-response-cache-'));
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(cacheDir, { recursive: true, force: true });
+});
+
+
+test('stored responses survive cache instance', async () => {
+    await new FileResponseCache(cacheDir).set('pdb/entry/summary/1abc', { status: 200, body: { '1abc': [] } });
+    await new FileResponseCache(cacheDir).set('pdb/entry/molecules/1abc', { status: 404 });
+
+    const cache = new FileResponseCache(cacheDir);
+    expect(await cache.get('pdb/entry/summary/1abc')).toEqual({ status: 200, body: { '1abc': [] } });
+    expect(await cache.get('pdb/entry/molecules/1abc')).toEqual({ status: 404 });
+    expect(await cache.get('pdb/entry/summary/2abc')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ hits: 2, misses: 1, evictions: 0 });
+});
+
+test('corrupt cache files are treated as missing', async () => {
+    const cache = new FileResponseCache(cacheDir);
+    await cache.set('pdb/entry/summary/1abc', { status: 200, body: 'A' });
+    const [fileName] = await readdir(cacheDir);
+    await writeFile(path.join(cacheDir, fileName), '{"key": "pdb/entry/summ', 'utf8'); // truncated write
+
+    expect(await cache.get('pdb/entry/summary/1abc')).toBeUndefined();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Ignoring invalid cache file'));
+
+    await cache.set('pdb/entry/summary/1abc', { status: 200, body: 'B' });
+    expect(await cache.get('pdb/entry/summary/1abc')).toEqual({ status: 200, body: 'B' });
+});
+
+test('expired responses are removed', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new FileResponseCache(cacheDir, { ttlMs: 100 });
+    await cache.set('pdb/entry/summary/1abc', { status: 200, body: 'A' });
+    now.mockReturnValue(1101);
+    expect(await cache.get('pdb/entry/summary/1abc')).toBeUndefined();
+    expect(await readdir(cacheDir)).toEqual([]);
+    expect(cache.stats()).toMatchObject({ hits: 0, misses: 1, evictions: 1 });
+});
+
+test('oldest files are evicted over capacity', async () => {
+    const cache = new FileResponseCache(cacheDir, { maxEntries: 10 });
+    for (let i = 0; i < 11; i++) {
+        await cache.set(`key/${i}`, { status: 200, body: i });
+    }
+    // Evicted down to 90% of capacity
+    expect(await readdir(cacheDir)).toHaveLength(9);
+    expect(cache.stats()).toMatchObject({ evictions: 2, size: 9 });
+});
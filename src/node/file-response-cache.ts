@@ -0,0 +1,96 @@
+/** Persistent cache for PDBe API responses in a local directory (Node.js only). */
+
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { PdbeApiResponse } from '../snapshot-provider/data-provider';
+import { DefaultResponseCacheOptions, emptyCacheStats, type IResponseCache, isExpired, type ResponseCacheOptions, type ResponseCacheStats, type StoredResponse } from '../snapshot-provider/response-cache';
+
+
+/** Stores each response as a JSON file `{cacheDir}/{hash of relative URL}.json`, with TTL expiration.
+ * When the number of files exceeds `maxEntries`, the least recently modified files are evicted
+ * (down to 90% of `maxEntries`, so that the directory doesn't have to be scanned on every write). */
+export class FileResponseCache implements IResponseCache {
+    private readonly options: ResponseCacheOptions;
+    private readonly _stats = emptyCacheStats();
+    /** Number of files in the cache directory, `undefined` until first counted */
+    private size?: number;
+
+    constructor(private readonly cacheDir: string, options?: Partial<ResponseCacheOptions>) {
+        this.options = { ...DefaultResponseCacheOptions, ...options };
+    }
+
+    private filePath(key: string): string {
+        const hash = createHash('sha1').update(key).digest('hex');
+        return path.join(this.cacheDir, `${hash}.json`);
+    }
+
+    async get(key: string): Promise<PdbeApiResponse | undefined> {
+        const filePath = this.filePath(key);
+        let stored: StoredResponse;
+        try {
+            stored = JSON.parse(await readFile(filePath, 'utf8'));
+        } catch (err: any) {
+            if (err?.code !== 'ENOENT') console.warn(`Ignoring invalid cache file ${filePath}: ${err}`);
+            this._stats.misses++;
+            return undefined;
+        }
+        if (stored.key !== key || isExpired(stored, this.options.ttlMs)) {
+            await this.remove(filePath);
+            this._stats.evictions++;
+            this._stats.misses++;
+            return undefined;
+        }
+        this._stats.hits++;
+        return stored.response;
+    }
+
+    async set(key: string, response: PdbeApiResponse): Promise<void> {
+        await mkdir(this.cacheDir, { recursive: true });
+        const stored: StoredResponse = { key, storedAt: Date.now(), response };
+        await writeFile(this.filePath(key), JSON.stringify(stored), 'utf8');
+        if (this.size !== undefined) this.size++; // overestimate if the file existed already, corrected on next scan
+        if (this.size === undefined || this.size > this.options.maxEntries) await this.evictOldest();
+    }
+
+    /** Count files and remove the least recently modified ones if there are more than `maxEntries` */
+    private async evictOldest(): Promise<void> {
+        if (!isFinite(this.options.maxEntries)) return;
+        const files = await this.listFiles();
+        this.size = files.length;
+        if (files.length <= this.options.maxEntries) return;
+        const withTimes = await Promise.all(files.map(async file => ({ file, mtime: (await stat(file)).mtimeMs })));
+        withTimes.sort((a, b) => a.mtime - b.mtime);
+        const targetSize = Math.floor(0.9 * this.options.maxEntries);
+        for (const { file } of withTimes.slice(0, files.length - targetSize)) {
+            await this.remove(file);
+            this._stats.evictions++;
+        }
+    }
+
+    private async listFiles(): Promise<string[]> {
+        try {
+            const names = await readdir(this.cacheDir);
+            return names.filter(name => name.endsWith('.json')).map(name => path.join(this.cacheDir, name));
+        } catch (err: any) {
+            if (err?.code === 'ENOENT') return [];
+            throw err;
+        }
+    }
+
+    private async remove(filePath: string): Promise<void> {
+        await rm(filePath, { force: true });
+        if (this.size !== undefined) this.size--;
+    }
+
+    async clear(): Promise<void> {
+        for (const file of await this.listFiles()) {
+            await rm(file, { force: true });
+        }
+        this.size = 0;
+    }
+
+    stats(): ResponseCacheStats {
+        return { ...this._stats, size: this.size };
+    }
+}
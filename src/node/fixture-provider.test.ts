@@ -0,0 +1,87 @@
+/**
+ * @jest-environment node
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import { ApiDataProvider, ReplayPdbeApiClient } from '../snapshot-provider/data-provider';
+import { MVSSnapshotListProvider } from '../snapshot-provider/mvs-snapshot-list-provider';
+import { DefaultMVSSnapshotProviderConfig, MVSSnapshotProvider } from '../snapshot-provider/mvs-snapshot-provider';
+import { SnapshotKinds } from '../snapshot-provider/mvs-snapshot-types';
+import { FixtureDataProvider, FixtureModelProvider, FixturePdbeApiClient, loadFixtureBundle, recordPdbeApiTraffic, saveFixtureBundle } from './fixture-provider';
+
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'snapshot-provider', '__fixtures__');
+const API_URL = 'https://api.test/';
+const CONFIG = { ...DefaultMVSSnapshotProviderConfig, PdbApiUrlPrefix: API_URL };
+
+const fixtureApiClient = new FixturePdbeApiClient(path.join(FIXTURES_DIR, 'api'));
+const modelProvider = new FixtureModelProvider(FIXTURES_DIR);
+
+/** Stand-in for `fetch`, serving the API fixtures as if they came from `API_URL` (missing fixtures result in status 404) */
+async function fixtureFetch(url: string) {
+    if (!url.startsWith(API_URL)) throw new Error(`Unexpected URL ${url}`);
+    const body = await fixtureApiClient.get(url.slice(API_URL.length));
+    const status = body === undefined ? 404 : 200;
+    return { status, ok: status === 200, headers: { get: () => null }, json: async () => body };
+}
+
+/** Serialize snapshot without the creation timestamp */
+function toMvsj(snapshot: MVSData): string {
+    return MVSData.toMVSJ({ ...snapshot, metadata: { ...snapshot.metadata, timestamp: '' } } as MVSData);
+}
+
+const originalFetch = global.fetch;
+let tmpDir: string;
+
+beforeEach(async () => {
+    global.fetch = jest.fn(fixtureFetch) as any;
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), 'fixture-provider-'));
+});
+
+afterEach(async () => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+    await rm(tmpDir, { recursive: true, force: true });
+});
+
+
+test('record, save, load and replay API traffic', async () => {
+    const recorded = await recordPdbeApiTraffic(['0fix'], MVSData, modelProvider, CONFIG);
+    const urls = Object.keys(recorded);
+    expect(urls).toEqual([...urls].sort());
+    expect(recorded['pdb/entry/summary/0fix']).toEqual({ status: 200, body: await fixtureApiClient.get('pdb/entry/summary/0fix') });
+    const missingUrls = urls.filter(url => recorded[url].status === 404);
+    expect(missingUrls.length).toBeGreaterThan(0); // e.g. endpoints without fixture files
+
+    const bundleFile = path.join(tmpDir, 'bundle.json');
+    await saveFixtureBundle(bundleFile, recorded);
+    const bundle = await loadFixtureBundle(bundleFile);
+    expect(bundle).toEqual(recorded);
+
+    const replayClient = new ReplayPdbeApiClient(bundle);
+    await expect(replayClient.get(missingUrls[0])).resolves.toBeUndefined();
+    await expect(replayClient.get('pdb/entry/summary/1abc')).rejects.toThrow('No recorded response for pdb/entry/summary/1abc');
+    await expect(replayClient.get('constructor')).rejects.toThrow('No recorded response for constructor');
+    await expect(replayClient.get('__proto__')).rejects.toThrow('No recorded response for __proto__');
+
+    // Replayed traffic must give the same snapshots as the original data
+    const fixtureDataProvider = new FixtureDataProvider(FIXTURES_DIR);
+    const replayDataProvider = new ApiDataProvider(replayClient);
+    const fixtureListProvider = new MVSSnapshotListProvider(fixtureDataProvider, modelProvider);
+    const replayListProvider = new MVSSnapshotListProvider(replayDataProvider, modelProvider);
+    const fixtureSnapshotProvider = new MVSSnapshotProvider(MVSData, fixtureDataProvider, modelProvider, CONFIG);
+    const replaySnapshotProvider = new MVSSnapshotProvider(MVSData, replayDataProvider, modelProvider, CONFIG);
+    const specs = await fixtureListProvider.listSnapshots('0fix');
+    expect(await replayListProvider.listSnapshots('0fix')).toEqual(specs);
+    for (const kind of SnapshotKinds) {
+        const spec = specs.find(s => s.kind === kind);
+        if (!spec) continue;
+        const replayed = await replaySnapshotProvider.getSnapshot(spec);
+        expect(toMvsj(replayed)).toEqual(toMvsj(await fixtureSnapshotProvider.getSnapshot(spec)));
+    }
+});
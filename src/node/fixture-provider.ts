@@ -0,0 +1,127 @@
+/** Data and model providers reading pre-recorded data from local files, and tools for recording such data (Node.js only).
+ *
+ * Expected layout of a fixture directory (same as `public/local_data`, so the same data can also be served by the dev server):
+ * - `api/{relativeUrl}` - JSON response for PDBe API endpoint `relativeUrl` without query string (e.g. `api/pdb/entry/summary/1tqn`)
+ * - `structures/{pdb}.bcif` or `structures/{pdb}.cif` - structure file for each entry
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import type { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import type { Model } from 'molstar/lib/mol-model/structure';
+import { abortable, throwIfAborted } from '../snapshot-provider/abort';
+import { ApiDataProvider, type IPdbeApiClient, PdbeApiClient, type PdbeApiFixtureBundle, RecordingPdbeApiClient } from '../snapshot-provider/data-provider';
+import { type IModelProvider, type ModelFetcher, parseModel } from '../snapshot-provider/model-provider';
+import { MVSSnapshotListProvider } from '../snapshot-provider/mvs-snapshot-list-provider';
+import { MVSSnapshotProvider, type MVSSnapshotProviderConfig } from '../snapshot-provider/mvs-snapshot-provider';
+
+
+/** Serves PDBe API responses from JSON files in a local directory.
+ * Missing file is treated the same way as status code 404 (i.e. resolves to `undefined`). */
+export class FixturePdbeApiClient implements IPdbeApiClient {
+    constructor(private readonly apiDir: string) { }
+
+    async get<T>(relativeUrl: string, signal?: AbortSignal): Promise<T | undefined> {
+        throwIfAborted(signal);
+        const filePath = path.join(this.apiDir, ...relativeUrl.split('?')[0].split('/'));
+        const content = await readFileIfExists(filePath, 'utf8');
+        if (content === undefined) return undefined;
+        try {
+            return JSON.parse(content);
+        } catch (err) {
+            throw new Error(`Failed to parse fixture ${filePath}: ${err}`);
+        }
+    }
+}
+
+
+/** `IDataProvider` serving pre-recorded PDBe API responses from `{fixtureDir}/api/`. */
+export class FixtureDataProvider extends ApiDataProvider {
+    constructor(fixtureDir: string) {
+        super(new FixturePdbeApiClient(path.join(fixtureDir, 'api')));
+    }
+}
+
+
+/** `IModelProvider` loading structures from `{fixtureDir}/structures/` (BinaryCIF is preferred over text CIF if both are present). */
+export class FixtureModelProvider implements IModelProvider {
+    private readonly cache: { [entryId: string]: Promise<Model> } = {};
+
+    constructor(private readonly fixtureDir: string) { }
+
+    getModel(entryId: string, signal?: AbortSignal): Promise<Model> {
+        return abortable(this.cache[entryId] ??= this._getModel(entryId), signal);
+    }
+
+    private async _getModel(entryId: string): Promise<Model> {
+        const structDir = path.join(this.fixtureDir, 'structures');
+        const binary = await readFileIfExists(path.join(structDir, `${entryId}.bcif`));
+        if (binary !== undefined) return await parseModel(new Uint8Array(binary), entryId);
+        const text = await readFileIfExists(path.join(structDir, `${entryId}.cif`), 'utf8');
+        if (text !== undefined) return await parseModel(text, entryId);
+        throw new Error(`Structure fixture for ${entryId} not found in ${structDir}`);
+    }
+}
+
+
+/** `ModelFetcher` reading local files, accepts both file paths and `file://` URLs
+ * (e.g. `new MolstarModelProvider({ urlTemplate: '/data/{pdb}.cif.gz', format: 'mmcif', fetcher: readFileModelData })`). */
+export async function readFileModelData(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+    const filePath = url.startsWith('file:') ? fileURLToPath(url) : url;
+    return new Uint8Array(await readFile(filePath, { signal }));
+}
+
+
+/** `ModelFetcher` serving structure files from `{fixtureDir}/structures/` by the file name in the URL
+ * (e.g. 'https://www.ebi.ac.uk/pdbe/entry-files/1tqn.bcif' -> `structures/1tqn.bcif`), so that no structure is downloaded. */
+export function fixtureModelFetcher(fixtureDir: string): ModelFetcher {
+    const structDir = path.join(fixtureDir, 'structures');
+    return async (url, signal) => {
+        throwIfAborted(signal);
+        const fileName = path.posix.basename(url.split(/[?#]/)[0]);
+        const content = await readFileIfExists(path.join(structDir, fileName));
+        if (content === undefined) throw new Error(`Structure file ${fileName} (for ${url}) not found in ${structDir}`);
+        return new Uint8Array(content);
+    };
+}
+
+
+/** Load PDBe API fixture bundle from a JSON file (to be used with `ReplayPdbeApiClient`). */
+export async function loadFixtureBundle(filePath: string): Promise<PdbeApiFixtureBundle> {
+    return JSON.parse(await readFile(filePath, 'utf8'));
+}
+
+/** Save PDBe API fixture bundle (recorded by `RecordingPdbeApiClient`) to a JSON file. */
+export async function saveFixtureBundle(filePath: string, bundle: PdbeApiFixtureBundle): Promise<void> {
+    await writeFile(filePath, JSON.stringify(bundle, undefined, 1) + '\n', 'utf8');
+}
+
+/** Run `listSnapshots` and `getSnapshot` for all snapshot kinds for each of `entryIds`
+ * and return a bundle with all PDBe API traffic this has caused. */
+export async function recordPdbeApiTraffic(entryIds: string[], MVSDataLib: typeof MVSData, modelProvider: IModelProvider, config: MVSSnapshotProviderConfig): Promise<PdbeApiFixtureBundle> {
+    const apiClient = new RecordingPdbeApiClient(new PdbeApiClient(config.PdbApiUrlPrefix));
+    const dataProvider = new ApiDataProvider(apiClient);
+    const snapshotListProvider = new MVSSnapshotListProvider(dataProvider, modelProvider);
+    const snapshotProvider = new MVSSnapshotProvider(MVSDataLib, dataProvider, modelProvider, config);
+    for (const entryId of entryIds) {
+        const specs = await snapshotListProvider.listSnapshots(entryId);
+        for (const spec of specs) {
+            await snapshotProvider.getSnapshot(spec);
+        }
+    }
+    return apiClient.getBundle();
+}
+
+
+/** Read file content, resolve to `undefined` if the file does not exist. */
+async function readFileIfExists(filePath: string): Promise<Buffer | undefined>;
+async function readFileIfExists(filePath: string, encoding: 'utf8'): Promise<string | undefined>;
+async function readFileIfExists(filePath: string, encoding?: 'utf8'): Promise<Buffer | string | undefined> {
+    try {
+        return await readFile(filePath, encoding);
+    } catch (err: any) {
+        if (err?.code === 'ENOENT') return undefined;
+        throw err;
+    }
+}
@@ -0,0 +1,93 @@
+/**
+ * @jest-environment node
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { Task } from 'molstar/lib/mol-task';
+import { unzip } from 'molstar/lib/mol-util/zip/zip';
+import { main, type MvsjIndex } from './generate-mvsj';
+
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'snapshot-provider', '__fixtures__');
+const GOLDEN_DIR = path.join(__dirname, '..', 'snapshot-provider', '__golden__');
+
+let outDir: string;
+
+beforeEach(() => {
+    outDir = mkdtempSync(path.join(os.tmpdir(), 'generate-mvsj-test-'));
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'error').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { }); // lenient validation warnings
+});
+
+afterEach(() => {
+    rmSync(outDir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+    delete (globalThis as any).fetch;
+});
+
+function readIndex(): MvsjIndex {
+    return JSON.parse(readFileSync(path.join(outDir, 'index.json'), 'utf8'));
+}
+
+/** Parse MVSJ content with the creation timestamp left out, for comparison with golden files */
+function parseMvsj(content: string) {
+    const data = JSON.parse(content);
+    delete data.metadata.timestamp;
+    return data;
+}
+
+
+test('MVSJ files are generated from fixtures', async () => {
+    expect(await main(['--fixtures', FIXTURES_DIR, '--out', outDir, '--kind', 'entry,assembly', '0FIX'])).toBe(0);
+
+    const index = readIndex();
+    expect(index.entries).toEqual([{
+        entryId: '0fix',
+        snapshots: [
+            { kind: 'entry', name: 'Entry', params: { entry: '0fix' }, file: '0fix/entry/Entry.mvsj' },
+            { kind: 'assembly', name: 'Assembly 1', params: { entry: '0fix', assemblyId: '1' }, file: '0fix/assembly/Assembly_1.mvsj' },
+            { kind: 'assembly', name: 'Assembly 2', params: { entry: '0fix', assemblyId: '2' }, file: '0fix/assembly/Assembly_2.mvsj' },
+        ],
+        errors: [],
+    }]);
+    for (const snapshot of index.entries[0].snapshots) {
+        const generated = readFileSync(path.join(outDir, snapshot.file), 'utf8');
+        const golden = readFileSync(path.join(GOLDEN_DIR, snapshot.file), 'utf8');
+        expect(parseMvsj(generated)).toEqual(parseMvsj(golden));
+    }
+});
+
+test('MVSX files are generated from fixtures without network', async () => {
+    const fetchSpy = (globalThis as any).fetch = jest.fn(async () => { throw new Error('Network access not expected'); });
+    const args = ['--fixtures', FIXTURES_DIR, '--out', outDir, '--kind', 'entry', '--format', 'mvsx', '0fix'];
+    expect(await main([...args, '--structure-url', 'https://files.test/{pdb}.cif', '--structure-format', 'mmcif'])).toBe(0);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    const [snapshot] = readIndex().entries[0].snapshots;
+    expect(snapshot.file).toBe('0fix/entry/Entry.mvsx');
+    const mvsx = readFileSync(path.join(outDir, snapshot.file));
+    const files = await Task.create('Unzip', ctx => unzip(ctx, mvsx.buffer.slice(mvsx.byteOffset, mvsx.byteOffset + mvsx.byteLength) as ArrayBuffer)).run() as { [name: string]: Uint8Array };
+    expect(Object.keys(files).sort()).toEqual(['index.mvsj', 'structures/0fix.cif']);
+    expect(files['structures/0fix.cif']).toEqual(new Uint8Array(readFileSync(path.join(FIXTURES_DIR, 'structures', '0fix.cif'))));
+
+    // Default structure URL points to BinaryCIF, which is not among the fixtures
+    rmSync(outDir, { recursive: true });
+    expect(await main(args)).toBe(1);
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(readIndex().entries[0]).toEqual({
+        entryId: '0fix',
+        snapshots: [],
+        errors: [{ spec: expect.objectContaining({ kind: 'entry' }), message: expect.stringContaining('Structure file 0fix.bcif (for https://www.ebi.ac.uk/pdbe/entry-files/0fix.bcif) not found') }],
+    });
+    expect(existsSync(path.join(outDir, '0fix', 'entry', 'Entry.mvsx'))).toBe(false);
+});
+
+test('invalid arguments', async () => {
+    expect(await main(['--fixtures', FIXTURES_DIR, '0fix'])).toBe(2); // missing --out
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Usage: generate-mvsj --out DIR'));
+    await expect(main(['--out', outDir, '--kind', 'everything', '0fix'])).rejects.toThrow('Unknown snapshot kind "everything"');
+    await expect(main(['--out', outDir, '--color-theme', 'sepia', '0fix'])).rejects.toThrow('Unknown color theme "sepia" (expected one of: light, dark, print, ');
+});
@@ -0,0 +1,213 @@
+/** Command-line tool generating MVSJ files for a list of PDB entries (Node.js only).
+ *
+ * Usage: `yarn generate-mvsj --out DIR [options] PDB_ID...`
+ *
+ * Options:
+ * - `--out DIR` - output directory (required)
+ * - `--ids-file FILE` - read PDB IDs from a file (separated by whitespace or commas, `#` starts a comment)
+ * - `--kind KIND` - only generate snapshots of this kind (can be repeated or comma-separated)
+ * - `--format FORMAT` - 'mvsj' (default) or 'mvsx' (self-contained archive including structure and annotation files)
+ * - `--api-url URL` - PDBe API URL prefix
+ * - `--structure-url TEMPLATE` - structure URL template ('{pdb}' is replaced by PDB ID), can also be a local file path
+ * - `--structure-format FORMAT` - structure format ('bcif', 'mmcif', or 'pdb')
+ * - `--cache-dir DIR` - cache PDBe API responses in this directory
+ * - `--fixtures DIR` - take all data from a fixture directory instead (see `fixture-provider.ts`), incl. structure files for MVSX archives
+ *   (found by the file name in structure URL, e.g. use `--structure-url {pdb}.cif --structure-format mmcif` for text CIF fixtures)
+ *
+ * Writes `{out}/{pdb}/{kind}/{snapshot name}.mvsj` (or `.mvsx`) for each snapshot and `{out}/index.json` listing all snapshots (see `MvsjIndex`).
+ * Exits with code 1 if any snapshot failed (the remaining snapshots are still generated).
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import type { MVSSnapshotListProvider } from '../snapshot-provider/mvs-snapshot-list-provider';
+import type { MVSSnapshotProvider } from '../snapshot-provider/mvs-snapshot-provider';
+import { type SnapshotKind, SnapshotKinds, type SnapshotSpec } from '../snapshot-provider/mvs-snapshot-types';
+import { createSnapshotMvsx } from '../snapshot-provider/mvsx-export';
+import type { ModelFetcher } from '../snapshot-provider/model-provider';
+import { createNodeProviders, DefaultNodeProvidersOptions, type NodeProvidersOptions, NodeProvidersUsage, parseProvidersArg } from './node-providers';
+
+
+/** Content of `index.json` in the output directory */
+export interface MvsjIndex {
+    /** Time of generation (ISO 8601) */
+    created: string,
+    entries: MvsjIndexEntry[],
+}
+
+export interface MvsjIndexEntry {
+    entryId: string,
+    snapshots: MvsjIndexSnapshot[],
+    /** Failures of listing or generating snapshots for this entry */
+    errors: MvsjIndexError[],
+}
+
+export interface MvsjIndexSnapshot {
+    kind: SnapshotKind,
+    name: string,
+    params: SnapshotSpec['params'],
+    /** Path of the MVSJ or MVSX file, relative to the output directory */
+    file: string,
+}
+
+export interface MvsjIndexError {
+    /** Spec of the failed snapshot (undefined if listing snapshots failed) */
+    spec?: SnapshotSpec,
+    message: string,
+}
+
+export interface GenerateMvsjOptions {
+    entryIds: string[],
+    /** Only generate snapshots of these kinds (all kinds if undefined) */
+    kinds?: SnapshotKind[],
+    outDir: string,
+    /** Output file format (default 'mvsj') */
+    format?: 'mvsj' | 'mvsx',
+    /** Function retrieving structure files to be included in MVSX archives */
+    structureFetcher?: ModelFetcher,
+    /** Called after each generated (or failed) snapshot */
+    onProgress?: (entryId: string, spec: SnapshotSpec, error?: unknown) => void,
+}
+
+
+/** Generate MVSJ (or MVSX) files for all snapshots of given entries, write them together with `index.json` to `options.outDir`, and return the index */
+export async function generateMvsjFiles(snapshotListProvider: MVSSnapshotListProvider, snapshotProvider: MVSSnapshotProvider, options: GenerateMvsjOptions): Promise<MvsjIndex> {
+    const index: MvsjIndex = { created: new Date().toISOString(), entries: [] };
+    for (const entryId of options.entryIds) {
+        const indexEntry: MvsjIndexEntry = { entryId, snapshots: [], errors: [] };
+        index.entries.push(indexEntry);
+        let specs: SnapshotSpec[];
+        try {
+            specs = await listSnapshots(snapshotListProvider, entryId, options.kinds);
+        } catch (err) {
+            indexEntry.errors.push({ message: errorMessage(err) });
+            continue;
+        }
+        for (const spec of specs) {
+            try {
+                const snapshot = await snapshotProvider.getSnapshot(spec);
+                const format = options.format ?? 'mvsj';
+                const file = `${entryId}/${spec.kind}/${snapshotFileName(spec)}.${format}`;
+                const content = format === 'mvsx' ? await createSnapshotMvsx(snapshot, { fetcher: options.structureFetcher }) : MVSData.toMVSJ(snapshot);
+                await mkdir(path.dirname(path.join(options.outDir, file)), { recursive: true });
+                await writeFile(path.join(options.outDir, file), content);
+                indexEntry.snapshots.push({ kind: spec.kind, name: spec.name, params: spec.params, file });
+                options.onProgress?.(entryId, spec);
+            } catch (err) {
+                indexEntry.errors.push({ spec, message: errorMessage(err) });
+                options.onProgress?.(entryId, spec, err);
+            }
+        }
+    }
+    await mkdir(options.outDir, { recursive: true });
+    await writeFile(path.join(options.outDir, 'index.json'), JSON.stringify(index, undefined, 1) + '\n', 'utf8');
+    return index;
+}
+
+async function listSnapshots(snapshotListProvider: MVSSnapshotListProvider, entryId: string, kinds: SnapshotKind[] | undefined): Promise<SnapshotSpec[]> {
+    if (kinds === undefined) return await snapshotListProvider.listSnapshots(entryId);
+    const specs: SnapshotSpec[] = [];
+    for (const kind of kinds) {
+        specs.push(...await snapshotListProvider.listSnapshots(entryId, kind));
+    }
+    return specs;
+}
+
+/** Make a file name (without extension) from snapshot name, e.g. 'Entity 1 (label_asym_id A, instance_id ASM-1)' -> 'Entity_1_label_asym_id_A_instance_id_ASM-1'.
+ * Snapshot names are unique within kind, so are the file names. */
+function snapshotFileName(spec: SnapshotSpec): string {
+    return spec.name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function errorMessage(err: unknown): string {
+    return err instanceof Error ? err.message : String(err);
+}
+
+
+interface CliArgs {
+    entryIds: string[],
+    idsFile?: string,
+    kinds?: SnapshotKind[],
+    outDir?: string,
+    format?: 'mvsj' | 'mvsx',
+    providers: NodeProvidersOptions,
+}
+
+/** Parse command-line arguments (without the leading 'node script.js'), throw on invalid arguments */
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { entryIds: [], providers: { ...DefaultNodeProvidersOptions } };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        if (!arg.startsWith('--')) {
+            args.entryIds.push(...splitIds(arg));
+            continue;
+        }
+        const value = argv[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        if (parseProvidersArg(args.providers, arg, value)) continue;
+        switch (arg) {
+            case '--out': args.outDir = value; break;
+            case '--ids-file': args.idsFile = value; break;
+            case '--format':
+                if (value !== 'mvsj' && value !== 'mvsx') throw new Error(`Unknown output format "${value}" (expected mvsj or mvsx)`);
+                args.format = value;
+                break;
+            case '--kind':
+                for (const kind of value.split(',')) {
+                    if (!SnapshotKinds.includes(kind as SnapshotKind)) throw new Error(`Unknown snapshot kind "${kind}" (expected one of: ${SnapshotKinds.join(', ')})`);
+                    (args.kinds ??= []).push(kind as SnapshotKind);
+                }
+                break;
+            default: throw new Error(`Unknown option ${arg}`);
+        }
+    }
+    return args;
+}
+
+/** Split a list of PDB IDs separated by whitespace or commas, ignoring comments starting with '#' */
+function splitIds(text: string): string[] {
+    return text.split('\n').map(line => line.replace(/#.*/, '')).join(' ').split(/[\s,]+/).filter(id => id !== '').map(id => id.toLowerCase());
+}
+
+/** Run the command-line tool with arguments `argv` (without the leading 'node script.js'), resolve to exit code */
+export async function main(argv: string[]): Promise<number> {
+    const args = parseArgs(argv);
+    if (args.idsFile !== undefined) args.entryIds.push(...splitIds(await readFile(args.idsFile, 'utf8')));
+    if (args.outDir === undefined || args.entryIds.length === 0) {
+        console.error(`Usage: generate-mvsj --out DIR [--ids-file FILE] [--kind KIND] [--format FORMAT] ${NodeProvidersUsage} PDB_ID...`);
+        return 2;
+    }
+    const { snapshotListProvider, snapshotProvider, structureFetcher } = createNodeProviders(args.providers);
+    const index = await generateMvsjFiles(snapshotListProvider, snapshotProvider, {
+        entryIds: args.entryIds,
+        kinds: args.kinds,
+        outDir: args.outDir,
+        format: args.format,
+        structureFetcher,
+        onProgress: (entryId, spec, error) => {
+            if (error === undefined) console.log(`${entryId} ${spec.kind} "${spec.name}"`);
+            else console.error(`${entryId} ${spec.kind} "${spec.name}" FAILED: ${errorMessage(error)}`);
+        },
+    });
+    let nSnapshots = 0, nErrors = 0;
+    for (const entry of index.entries) {
+        nSnapshots += entry.snapshots.length;
+        nErrors += entry.errors.length;
+        for (const error of entry.errors) {
+            if (error.spec === undefined) console.error(`${entry.entryId} FAILED: ${error.message}`);
+        }
+    }
+    console.log(`Generated ${nSnapshots} snapshots for ${index.entries.length} entries (${nErrors} errors) in ${args.outDir}`);
+    return nErrors > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(
+        exitCode => { process.exitCode = exitCode; },
+        err => {
+            console.error(errorMessage(err));
+            process.exitCode = 2;
+        },
+    );
+}
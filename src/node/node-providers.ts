@@ -0,0 +1,99 @@
+/** Creating snapshot providers for Node.js tools, configured by command-line options. */
+
+import { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import { ColorThemeNames, ColorThemes, isColorThemeName } from '../snapshot-provider/colors';
+import { CompositeDataProvider } from '../snapshot-provider/composite-data-provider';
+import { ApiDataProvider, PdbeApiClient } from '../snapshot-provider/data-provider';
+import { ModelDataProvider } from '../snapshot-provider/model-data-provider';
+import { fetchModelData, type IModelProvider, type ModelFetcher, MolstarModelProvider } from '../snapshot-provider/model-provider';
+import { MVSSnapshotListProvider } from '../snapshot-provider/mvs-snapshot-list-provider';
+import { DefaultMVSSnapshotProviderConfig, MVSSnapshotProvider, type MVSSnapshotProviderConfig } from '../snapshot-provider/mvs-snapshot-provider';
+import { FileResponseCache } from './file-response-cache';
+import { FixtureDataProvider, FixtureModelProvider, fixtureModelFetcher, readFileModelData } from './fixture-provider';
+
+
+export interface NodeProvidersOptions {
+    config: MVSSnapshotProviderConfig,
+    /** Cache PDBe API responses in this directory */
+    cacheDir?: string,
+    /** Take all data from this fixture directory instead of PDBe API and structure URLs (see `fixture-provider.ts`) */
+    fixtures?: string,
+}
+
+export const DefaultNodeProvidersOptions: NodeProvidersOptions = {
+    config: DefaultMVSSnapshotProviderConfig,
+};
+
+export interface NodeProviders {
+    snapshotListProvider: MVSSnapshotListProvider,
+    snapshotProvider: MVSSnapshotProvider,
+    /** Provider of structure models (e.g. for analysing structures directly) */
+    modelProvider: IModelProvider,
+    /** Function retrieving structure files from URLs in snapshots (e.g. for MVSX export), served from fixture directory if `fixtures` is set */
+    structureFetcher: ModelFetcher,
+}
+
+/** Usage text for options accepted by `parseProvidersArg` */
+export const NodeProvidersUsage = '[--api-url URL] [--structure-url TEMPLATE] [--structure-format FORMAT] [--color-theme THEME] [--cache-dir DIR] [--fixtures DIR]';
+
+const StructureFormats = ['bcif', 'mmcif', 'pdb'] as const;
+
+
+/** Create snapshot providers using MolstarModelProvider (structure URL template can also be a local file path) and PDBe API complemented by data from the structure */
+export function createNodeProviders(options?: Partial<NodeProvidersOptions>): NodeProviders {
+    const { config, cacheDir, fixtures } = { ...DefaultNodeProvidersOptions, ...options };
+    if (fixtures !== undefined) {
+        const dataProvider = new FixtureDataProvider(fixtures);
+        const modelProvider = new FixtureModelProvider(fixtures);
+        return {
+            snapshotListProvider: new MVSSnapshotListProvider(dataProvider, modelProvider),
+            snapshotProvider: new MVSSnapshotProvider(MVSData, dataProvider, modelProvider, config),
+            modelProvider,
+            structureFetcher: fixtureModelFetcher(fixtures), // stay offline
+        };
+    }
+    const isLocal = !/^https?:/.test(config.PdbStructureUrlTemplate);
+    const structureFetcher = isLocal ? readFileModelData : fetchModelData;
+    const cache = cacheDir !== undefined ? new FileResponseCache(cacheDir) : undefined;
+    const pdbeApiClient = new PdbeApiClient(config.PdbApiUrlPrefix, { cache });
+    const modelProvider = new MolstarModelProvider({
+        urlTemplate: config.PdbStructureUrlTemplate,
+        format: config.PdbStructureFormat,
+        fetcher: structureFetcher,
+    });
+    const dataProvider = new CompositeDataProvider([new ApiDataProvider(pdbeApiClient), new ModelDataProvider(modelProvider)]);
+    return {
+        snapshotListProvider: new MVSSnapshotListProvider(dataProvider, modelProvider),
+        snapshotProvider: new MVSSnapshotProvider(MVSData, dataProvider, modelProvider, config),
+        modelProvider,
+        structureFetcher,
+    };
+}
+
+/** Apply command-line option `arg` with `value` to `options`, return false if `arg` is not a providers option. Throw on invalid value. */
+export function parseProvidersArg(options: NodeProvidersOptions, arg: string, value: string): boolean {
+    switch (arg) {
+        case '--api-url':
+            options.config = { ...options.config, PdbApiUrlPrefix: value };
+            return true;
+        case '--structure-url':
+            options.config = { ...options.config, PdbStructureUrlTemplate: value };
+            return true;
+        case '--structure-format':
+            if (!StructureFormats.includes(value as any)) throw new Error(`Unknown structure format "${value}" (expected one of: ${StructureFormats.join(', ')})`);
+            options.config = { ...options.config, PdbStructureFormat: value as MVSSnapshotProviderConfig['PdbStructureFormat'] };
+            return true;
+        case '--color-theme':
+            if (!isColorThemeName(value)) throw new Error(`Unknown color theme "${value}" (expected one of: ${ColorThemeNames.join(', ')})`);
+            options.config = { ...options.config, ColorTheme: ColorThemes[value] };
+            return true;
+        case '--cache-dir':
+            options.cacheDir = value;
+            return true;
+        case '--fixtures':
+            options.fixtures = value;
+            return true;
+        default:
+            return false;
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import path from 'path';
+import { createNodeProviders } from './node-providers';
+import { createSnapshotServer } from './snapshot-server';
+
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'snapshot-provider', '__fixtures__');
+
+let server: http.Server;
+let port: number;
+
+beforeAll(async () => {
+    server = createSnapshotServer(createNodeProviders({ fixtures: FIXTURES_DIR }));
+    await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+    port = (server.address() as AddressInfo).port;
+});
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+});
+
+interface Response {
+    status: number,
+    headers: http.IncomingHttpHeaders,
+    body: string,
+}
+
+function request(method: string, urlPath: string, body?: string, headers?: http.OutgoingHttpHeaders): Promise<Response> {
+    return new Promise((resolve, reject) => {
+        const req = http.request({ host: 'localhost', port, method, path: urlPath, headers }, res => {
+            const chunks: Buffer[] = [];
+            res.on('data', chunk => chunks.push(chunk));
+            res.on('end', () => resolve({ status: res.statusCode!, headers: res.headers, body: Buffer.concat(chunks).toString('utf8') }));
+        });
+        req.on('error', reject);
+        req.end(body);
+    });
+}
+
+
+test('list snapshots', async () => {
+    const all = await request('GET', '/entries/0fix/snapshots');
+    expect(all.status).toBe(200);
+    const allSpecs = JSON.parse(all.body);
+    expect(allSpecs.length).toBeGreaterThan(0);
+
+    const ligands = await request('GET', '/entries/0FIX/snapshots?kind=pdbconnect_ligand');
+    expect(ligands.status).toBe(200);
+    const ligandSpecs = JSON.parse(ligands.body);
+    expect(ligandSpecs.length).toBeGreaterThan(0);
+    expect(ligandSpecs.every((spec: any) => spec.kind === 'pdbconnect_ligand')).toBe(true);
+
+    expect((await request('GET', '/entries/0fix/snapshots?kind=nonsense')).status).toBe(400);
+});
+
+test('list snapshots with ETag', async () => {
+    const first = await request('GET', '/entries/0fix/snapshots?kind=entry');
+    expect(first.headers.etag).toBeDefined();
+    const second = await request('GET', '/entries/0fix/snapshots?kind=entry', undefined, { 'If-None-Match': first.headers.etag });
+    expect(second.status).toBe(304);
+    expect(second.body).toBe('');
+    const other = await request('GET', '/entries/0fix/snapshots?kind=assembly', undefined, { 'If-None-Match': first.headers.etag });
+    expect(other.status).toBe(200);
+});
+
+test('get snapshot', async () => {
+    const spec = { kind: 'entry', name: 'Entry', params: { entry: '0fix' } };
+    const response = await request('POST', '/snapshot', JSON.stringify(spec), { 'Content-Type': 'application/json' });
+    expect(response.status).toBe(200);
+    const mvsj = JSON.parse(response.body);
+    expect(mvsj.kind).toBe('multiple');
+    expect(mvsj.metadata.title).toBe('Entry');
+
+    // Same content except timestamp -> same ETag
+    const again = await request('POST', '/snapshot', JSON.stringify(spec), { 'If-None-Match': response.headers.etag });
+    expect(again.status).toBe(304);
+});
+
+test('get snapshot with color theme', async () => {
+    const spec = JSON.stringify({ kind: 'entry', name: 'Entry', params: { entry: '0fix' } });
+    const response = await request('POST', '/snapshot?theme=dark', spec);
+    expect(response.status).toBe(200);
+    const root = JSON.parse(response.body).snapshots[0].root;
+    expect(root.children).toContainEqual(expect.objectContaining({ kind: 'canvas', params: { background_color: '#000000' } }));
+
+    expect((await request('POST', '/snapshot?theme=nonsense', spec)).status).toBe(400);
+});
+
+test('get tour', async () => {
+    const response = await request('GET', '/entries/0fix/tours/entry_overview');
+    expect(response.status).toBe(200);
+    const mvsj = JSON.parse(response.body);
+    expect(mvsj.kind).toBe('multiple');
+    expect(mvsj.snapshots.length).toBeGreaterThan(1);
+
+    expect((await request('GET', '/entries/0fix/tours/nonsense')).status).toBe(404);
+});
+
+test('invalid snapshot spec', async () => {
+    const badSpec = { kind: 'assembly', name: 'Assembly', params: { entry: '0fix', assemblyId: '999' } };
+    const response = await request('POST', '/snapshot', JSON.stringify(badSpec));
+    expect(response.status).toBe(400);
+    expect(JSON.parse(response.body).issues).toEqual([expect.objectContaining({ path: 'params.assemblyId' })]);
+
+    expect((await request('POST', '/snapshot', '{not json')).status).toBe(400);
+    expect((await request('GET', '/snapshot')).status).toBe(405);
+    expect((await request('GET', '/nonsense')).status).toBe(404);
+});
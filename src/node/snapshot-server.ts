@@ -0,0 +1,239 @@
+/** HTTP server providing snapshot lists and ready-made MVS states (Node.js only).
+ *
+ * Usage: `yarn snapshot-server [--port PORT] [--host HOST] [options]`, where options are the same as for `generate-mvsj`
+ * (e.g. `--fixtures DIR` to serve data from a local stand-in for PDBe API, or `--api-url URL` to use another API instance).
+ *
+ * Routes:
+ * - `GET /entries/{pdb}/snapshots?kind={kind}` - list of `SnapshotSpec` for the entry (all kinds if `kind` is omitted)
+ * - `POST /snapshot` with `SnapshotSpec` as JSON body - MVSJ state for the snapshot
+ * - `GET /entries/{pdb}/tours/{preset}` - MVSJ multistate guided tour for the entry (presets listed in `TourPresets`)
+ *
+ * Snapshot and tour routes accept `?theme={theme}` to override the color theme (names listed in `ColorThemes`).
+ *
+ * Responses have ETags, requests with a matching `If-None-Match` header get 304 Not Modified.
+ * Errors are returned as JSON `{ error: string, issues?: SnapshotSpecIssue[] }` (`issues` for 400 caused by invalid spec).
+ */
+
+import { createHash } from 'crypto';
+import http from 'http';
+import { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import { isAbortError } from '../snapshot-provider/abort';
+import { type ColorThemeName, ColorThemeNames } from '../snapshot-provider/colors';
+import { type SnapshotKind, SnapshotKinds } from '../snapshot-provider/mvs-snapshot-types';
+import { SnapshotSpecError } from '../snapshot-provider/mvs-snapshot-validation';
+import { createPresetTour, type TourPresetName, TourPresetNames } from '../snapshot-provider/mvs-tour';
+import { createNodeProviders, DefaultNodeProvidersOptions, type NodeProviders, type NodeProvidersOptions, NodeProvidersUsage, parseProvidersArg } from './node-providers';
+
+
+export interface SnapshotServerOptions {
+    /** Maximum size of request body in bytes */
+    maxBodySize: number,
+    /** Value of Access-Control-Allow-Origin header (undefined = no CORS headers) */
+    allowOrigin: string | undefined,
+}
+
+export const DefaultSnapshotServerOptions: SnapshotServerOptions = {
+    maxBodySize: 1_000_000,
+    allowOrigin: '*',
+};
+
+
+/** Error response with given HTTP status */
+class HttpError extends Error {
+    constructor(readonly status: number, message: string, readonly details?: object) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+
+/** Create HTTP server (not listening yet) serving snapshots from `providers` */
+export function createSnapshotServer(providers: NodeProviders, options?: Partial<SnapshotServerOptions>): http.Server {
+    const fullOptions: SnapshotServerOptions = { ...DefaultSnapshotServerOptions, ...options };
+    return http.createServer((req, res) => {
+        handleRequest(providers, fullOptions, req, res).catch(err => {
+            console.error('Unhandled error in snapshot server:', err);
+            if (!res.headersSent) sendJson(req, res, 500, { error: 'Internal server error' });
+            else res.destroy();
+        });
+    });
+}
+
+async function handleRequest(providers: NodeProviders, options: SnapshotServerOptions, req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (options.allowOrigin !== undefined) {
+        res.setHeader('Access-Control-Allow-Origin', options.allowOrigin);
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-None-Match');
+        res.setHeader('Access-Control-Expose-Headers', 'ETag');
+    }
+    // Stop generating when the client disconnects
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    try {
+        const entryMatch = /^\/entries\/([^/]+)\/snapshots\/?$/.exec(url.pathname);
+        if (entryMatch) {
+            if (req.method === 'OPTIONS') return sendPreflight(res, 'GET');
+            if (req.method !== 'GET' && req.method !== 'HEAD') throw methodNotAllowed(res, 'GET');
+            const entryId = decodeURIComponent(entryMatch[1]).toLowerCase();
+            const kind = url.searchParams.get('kind') ?? undefined;
+            if (kind !== undefined && !SnapshotKinds.includes(kind as SnapshotKind)) {
+                throw new HttpError(400, `Unknown snapshot kind "${kind}" (expected one of: ${SnapshotKinds.join(', ')})`);
+            }
+            const specs = await providers.snapshotListProvider.listSnapshots(entryId, kind as SnapshotKind | undefined, { signal: controller.signal });
+            const body = JSON.stringify(specs);
+            return sendWithETag(req, res, body, computeETag(body));
+        }
+        if (url.pathname === '/snapshot') {
+            if (req.method === 'OPTIONS') return sendPreflight(res, 'POST');
+            if (req.method !== 'POST') throw methodNotAllowed(res, 'POST');
+            const spec = parseJson(await readBody(req, options.maxBodySize));
+            const snapshot = await providers.snapshotProvider.getSnapshot(spec, { signal: controller.signal, colorTheme: parseColorTheme(url) });
+            return sendMVSData(req, res, snapshot);
+        }
+        const tourMatch = /^\/entries\/([^/]+)\/tours\/([^/]+)\/?$/.exec(url.pathname);
+        if (tourMatch) {
+            if (req.method === 'OPTIONS') return sendPreflight(res, 'GET');
+            if (req.method !== 'GET' && req.method !== 'HEAD') throw methodNotAllowed(res, 'GET');
+            const entryId = decodeURIComponent(tourMatch[1]).toLowerCase();
+            const preset = decodeURIComponent(tourMatch[2]);
+            if (!TourPresetNames.includes(preset as TourPresetName)) {
+                throw new HttpError(404, `Unknown tour preset "${preset}" (expected one of: ${TourPresetNames.join(', ')})`);
+            }
+            const tour = await createPresetTour(providers.snapshotListProvider, entryId, preset as TourPresetName, { signal: controller.signal });
+            if (tour.steps.length === 0) throw new HttpError(404, `Tour preset "${preset}" has nothing to show for entry ${entryId}`);
+            const data = await providers.snapshotProvider.getTour(tour, { signal: controller.signal, colorTheme: parseColorTheme(url) });
+            return sendMVSData(req, res, data);
+        }
+        throw new HttpError(404, `Not found: ${url.pathname}`);
+    } catch (err) {
+        if (isAbortError(err)) return; // client disconnected
+        if (err instanceof HttpError) return sendJson(req, res, err.status, { error: err.message, ...err.details });
+        if (err instanceof SnapshotSpecError) return sendJson(req, res, 400, { error: err.message, issues: err.issues });
+        console.error(`Failed to handle ${req.method} ${req.url}:`, err);
+        return sendJson(req, res, 500, { error: err instanceof Error ? err.message : String(err) });
+    }
+}
+
+/** Get color theme name from `theme` query parameter (undefined if not given), throw 400 if unknown */
+function parseColorTheme(url: URL): ColorThemeName | undefined {
+    const theme = url.searchParams.get('theme') ?? undefined;
+    if (theme !== undefined && !ColorThemeNames.includes(theme as ColorThemeName)) {
+        throw new HttpError(400, `Unknown color theme "${theme}" (expected one of: ${ColorThemeNames.join(', ')})`);
+    }
+    return theme as ColorThemeName | undefined;
+}
+
+function methodNotAllowed(res: http.ServerResponse, allowed: string): HttpError {
+    res.setHeader('Allow', `${allowed}, OPTIONS`);
+    return new HttpError(405, `Method not allowed (use ${allowed})`);
+}
+
+function sendPreflight(res: http.ServerResponse, allowed: string): void {
+    res.writeHead(204, { 'Access-Control-Allow-Methods': `${allowed}, OPTIONS`, 'Access-Control-Max-Age': '86400' });
+    res.end();
+}
+
+function sendJson(req: http.IncomingMessage, res: http.ServerResponse, status: number, content: unknown): void {
+    const body = JSON.stringify(content);
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(body) });
+    res.end(req.method === 'HEAD' ? undefined : body);
+}
+
+/** Send MVSJ with ETag. Generated states differ in creation timestamp only, so ETag ignores it (weak ETag, as the body is not byte-identical). */
+function sendMVSData(req: http.IncomingMessage, res: http.ServerResponse, data: MVSData): void {
+    const body = MVSData.toMVSJ(data);
+    const bodyWithoutTimestamp = MVSData.toMVSJ({ ...data, metadata: { ...data.metadata, timestamp: '' } } as MVSData);
+    sendWithETag(req, res, body, 'W/' + computeETag(bodyWithoutTimestamp));
+}
+
+/** Send JSON `body` with `etag`, or 304 Not Modified if the client already has it */
+function sendWithETag(req: http.IncomingMessage, res: http.ServerResponse, body: string, etag: string): void {
+    res.setHeader('ETag', etag);
+    res.setHeader('Cache-Control', 'no-cache'); // cache, but always revalidate
+    if (etagMatches(req.headers['if-none-match'], etag)) {
+        res.writeHead(304);
+        res.end();
+        return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8', 'Content-Length': Buffer.byteLength(body) });
+    res.end(req.method === 'HEAD' ? undefined : body);
+}
+
+/** Strong ETag computed from content */
+function computeETag(content: string): string {
+    return `"${createHash('sha1').update(content).digest('base64url')}"`;
+}
+
+/** Decide if If-None-Match header value matches `etag` (using weak comparison, as required for If-None-Match) */
+function etagMatches(ifNoneMatch: string | undefined, etag: string): boolean {
+    if (ifNoneMatch === undefined) return false;
+    if (ifNoneMatch.trim() === '*') return true;
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.split(',').some(tag => opaque(tag) === opaque(etag));
+}
+
+function readBody(req: http.IncomingMessage, maxSize: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxSize) {
+                reject(new HttpError(413, `Request body too large (limit ${maxSize} bytes)`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+function parseJson(text: string): any {
+    try {
+        return JSON.parse(text);
+    } catch (err) {
+        throw new HttpError(400, `Invalid JSON in request body: ${err instanceof Error ? err.message : err}`);
+    }
+}
+
+
+interface CliArgs {
+    port: number,
+    host: string,
+    providers: NodeProvidersOptions,
+}
+
+/** Parse command-line arguments (without the leading 'node script.js'), throw on invalid arguments */
+function parseArgs(argv: string[]): CliArgs {
+    const args: CliArgs = { port: 8080, host: 'localhost', providers: { ...DefaultNodeProvidersOptions } };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = argv[++i];
+        if (value === undefined) throw new Error(`Missing value for ${arg}`);
+        if (parseProvidersArg(args.providers, arg, value)) continue;
+        switch (arg) {
+            case '--port':
+                args.port = Number(value);
+                if (!Number.isInteger(args.port)) throw new Error(`Invalid port "${value}"`);
+                break;
+            case '--host': args.host = value; break;
+            default: throw new Error(`Unknown option ${arg}\nUsage: snapshot-server [--port PORT] [--host HOST] ${NodeProvidersUsage}`);
+        }
+    }
+    return args;
+}
+
+function main(): void {
+    const args = parseArgs(process.argv.slice(2));
+    const server = createSnapshotServer(createNodeProviders(args.providers));
+    server.listen(args.port, args.host, () => {
+        console.log(`Snapshot server listening on http://${args.host}:${args.port}/`);
+    });
+}
+
+if (require.main === module) {
+    main();
+}
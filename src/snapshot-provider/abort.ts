@@ -0,0 +1,88 @@
+/** Helpers for cancellation of async operations via `AbortSignal` */
+
+
+/** Get the error to be thrown when `signal` has been aborted (usually `DOMException` with name 'AbortError') */
+export function abortReason(signal: AbortSignal): unknown {
+    return signal.reason ?? new DOMException('This operation was aborted', 'AbortError');
+}
+
+/** Throw if `signal` has been aborted */
+export function throwIfAborted(signal: AbortSignal | undefined): void {
+    if (signal?.aborted) throw abortReason(signal);
+}
+
+/** Decide if `error` was caused by aborting an operation (as opposed to a genuine failure) */
+export function isAbortError(error: unknown): boolean {
+    return (error as any)?.name === 'AbortError';
+}
+
+/** Resolve/reject the same way as `promise`, but reject as soon as `signal` is aborted.
+ * The underlying operation is not cancelled by this (it just isn't waited for). */
+export function abortable<T>(promise: Promise<T>, signal: AbortSignal | undefined): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(abortReason(signal));
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(abortReason(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/** Resolve after `ms` milliseconds, or reject as soon as `signal` is aborted */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortReason(signal));
+    return new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timeout);
+            reject(abortReason(signal!));
+        };
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+
+/** Async operation shared by multiple callers (e.g. download of the same file).
+ * Each caller can abort waiting via its own signal, the operation itself is aborted only when all callers have aborted. */
+export class SharedOperation<T> {
+    readonly promise: Promise<T>;
+    private readonly controller = new AbortController();
+    /** Number of callers still waiting for the result */
+    private waiting = 0;
+    private _settled = false;
+
+    constructor(run: (signal: AbortSignal) => Promise<T>) {
+        this.promise = run(this.controller.signal);
+        const onSettled = () => { this._settled = true; };
+        this.promise.then(onSettled, onSettled);
+    }
+
+    get settled(): boolean {
+        return this._settled;
+    }
+
+    /** True if all callers have aborted and so the operation itself has been aborted (it may not have settled yet).
+     * Owners looking up shared operations should start a new operation instead of joining an aborted one. */
+    get aborted(): boolean {
+        return this.controller.signal.aborted;
+    }
+
+    /** Wait for the result of the operation, or reject as soon as `signal` is aborted */
+    join(signal?: AbortSignal): Promise<T> {
+        if (signal?.aborted) return Promise.reject(abortReason(signal));
+        this.waiting++;
+        if (!signal) return this.promise; // this caller cannot abort, so the operation will never be aborted
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting--;
+                if (this.waiting === 0 && !this._settled) this.controller.abort(abortReason(signal));
+                reject(abortReason(signal));
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+            this.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+        });
+    }
+}
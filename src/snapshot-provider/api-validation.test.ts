@@ -0,0 +1,107 @@
+/**
+ * @jest-environment node
+ */
+
+import path from 'path';
+import { FixturePdbeApiClient } from '../node/fixture-provider';
+import { ApiSchemas, type DataValidationWarning, DataValidationError, S, validateResponse, type ValidationContext, type ValidationMode } from './api-validation';
+import { ApiDataProvider } from './data-provider';
+
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+function context(endpoint: string, mode: ValidationMode, warnings: DataValidationWarning[] = []): ValidationContext {
+    return { endpoint, entryId: '1abc', mode, onWarning: warning => warnings.push(warning) };
+}
+
+const SUMMARY = {
+    '1abc': [{
+        experimental_method: ['X-ray diffraction'],
+        assemblies: [{ assembly_id: '1', name: 'dimer', form: 'homo', preferred: true, extra: 'passed through' }],
+        title: 'Unchecked field',
+    }],
+};
+
+const MAPPINGS = {
+    '1abc': {
+        Pfam: {
+            PF00001: {
+                identifier: '7tm_1',
+                mappings: [{
+                    entity_id: '1', chain_id: 'A', struct_asym_id: 'A', domain: null, scop_id: null,
+                    start: { residue_number: 5, author_residue_number: '5', author_insertion_code: '' },
+                    end: { residue_number: 2, author_residue_number: 2, author_insertion_code: null },
+                }],
+            },
+        },
+    },
+};
+
+
+test('valid response passes unchanged', () => {
+    const warnings: DataValidationWarning[] = [];
+    expect(validateResponse(SUMMARY, ApiSchemas['pdb/entry/summary'], context('pdb/entry/summary', 'strict', warnings))).toEqual(SUMMARY);
+    expect(validateResponse(SUMMARY, ApiSchemas['pdb/entry/summary'], context('pdb/entry/summary', 'lenient', warnings))).toEqual(SUMMARY);
+    expect(warnings).toEqual([]);
+});
+
+test('invalid response is rejected in both modes', () => {
+    const invalid = { '1abc': [{ assemblies: [{ assembly_id: '1', name: 'dimer', form: 'homo', preferred: 'yes' }] }] };
+    for (const mode of ['strict', 'lenient'] as const) {
+        let error: unknown;
+        try {
+            validateResponse(invalid, ApiSchemas['pdb/entry/summary'], context('pdb/entry/summary', mode));
+        } catch (err) {
+            error = err;
+        }
+        expect(error).toBeInstanceOf(DataValidationError);
+        expect(error).toMatchObject({
+            endpoint: 'pdb/entry/summary',
+            entryId: '1abc',
+            path: '$["1abc"][0].assemblies[0].preferred',
+            problem: 'expected boolean, got string "yes"',
+        });
+    }
+    expect(() => validateResponse({ '1abc': {} }, ApiSchemas['pdb/entry/summary'], context('pdb/entry/summary', 'lenient'))).toThrow('at $["1abc"]: expected array, got object');
+});
+
+test('quirks are rejected in strict mode', () => {
+    expect(() => validateResponse(MAPPINGS, ApiSchemas['mappings'], context('mappings', 'strict')))
+        .toThrow('at $["1abc"].Pfam.PF00001.mappings[0].entity_id: expected number, got string "1"');
+    expect(() => validateResponse('42', S.numberOrNumericString(), context('pdb/entry/summary', 'strict'))).toThrow(DataValidationError);
+});
+
+test('quirks are fixed and reported in lenient mode', () => {
+    const warnings: DataValidationWarning[] = [];
+    const fixed = validateResponse<any>(MAPPINGS, ApiSchemas['mappings'], context('mappings', 'lenient', warnings));
+    expect(fixed['1abc'].Pfam.PF00001.mappings[0]).toEqual({
+        entity_id: 1, chain_id: 'A', struct_asym_id: 'A', domain: null, scop_id: null,
+        start: { residue_number: 2, author_residue_number: 2, author_insertion_code: null },
+        end: { residue_number: 5, author_residue_number: 5, author_insertion_code: '' },
+    });
+    const mappingPath = '$["1abc"].Pfam.PF00001.mappings[0]';
+    expect(warnings).toEqual([
+        { endpoint: 'mappings', entryId: '1abc', path: `${mappingPath}.entity_id`, problem: 'expected number, got string "1"' },
+        { endpoint: 'mappings', entryId: '1abc', path: `${mappingPath}.start.author_residue_number`, problem: 'expected number, got string "5"' },
+        { endpoint: 'mappings', entryId: '1abc', path: mappingPath, problem: 'start residue 5 is after end residue 2' },
+    ]);
+
+    expect(() => validateResponse('', S.numberOrNumericString(), context('pdb/entry/summary', 'lenient'))).toThrow('expected number, got string ""');
+    expect(() => validateResponse('1a', S.numberOrNumericString(), context('pdb/entry/summary', 'lenient'))).toThrow('expected number, got string "1a"');
+});
+
+test('swapped domain range in API data', async () => {
+    // Pfam mapping in 0fix fixture has start residue 5 and end residue 2
+    const apiClient = new FixturePdbeApiClient(path.join(FIXTURES_DIR, 'api'));
+    const warnings: DataValidationWarning[] = [];
+    const lenientProvider = new ApiDataProvider(apiClient, { validation: 'lenient', onWarning: warning => warnings.push(warning) });
+    const mappings = await lenientProvider.siftsMappings('0fix');
+    expect(mappings.Pfam.PF00001[0].chunks).toEqual([
+        expect.objectContaining({ entityId: '1', chainId: 'A', startResidue: 2, endResidue: 5 }),
+    ]);
+    await lenientProvider.siftsMappings('0fix');
+    expect(warnings).toEqual([{ endpoint: 'mappings', entryId: '0fix', path: '$["0fix"].Pfam.PF00001.mappings[0]', problem: 'start residue 5 is after end residue 2' }]); // reported only once
+
+    const strictProvider = new ApiDataProvider(apiClient, { validation: 'strict' });
+    await expect(strictProvider.siftsMappings('0fix')).rejects.toThrow(DataValidationError);
+});
@@ -0,0 +1,296 @@
+/** Runtime validation of PDBe API responses.
+ *
+ * Schemas only check the fields that are actually used, other fields are passed through unchecked.
+ * In lenient mode, known quirks of the API are fixed and reported as warnings instead of errors. */
+
+
+/** Thrown when a PDBe API response does not have the expected shape */
+export class DataValidationError extends Error {
+    constructor(
+        /** API endpoint, e.g. 'pdb/entry/summary' */
+        readonly endpoint: string,
+        readonly entryId: string,
+        /** JSON path of the invalid value within the response, e.g. `$['1tqn'][0].assemblies[1].preferred` */
+        readonly path: string,
+        readonly problem: string,
+    ) {
+        super(`Invalid response from ${endpoint} for entry ${entryId} at ${path}: ${problem}`);
+        this.name = 'DataValidationError';
+    }
+}
+
+/** Problem in a PDBe API response that was fixed in lenient mode */
+export interface DataValidationWarning {
+    endpoint: string,
+    entryId: string,
+    path: string,
+    problem: string,
+}
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface ValidationContext {
+    endpoint: string,
+    entryId: string,
+    mode: ValidationMode,
+    onWarning: (warning: DataValidationWarning) => void,
+}
+
+/** Checks `value` at `path` and returns it (possibly fixed, in lenient mode), or throws `DataValidationError` */
+export type Schema = (value: unknown, path: string, ctx: ValidationContext) => unknown;
+
+
+/** Validate a whole API response. Returns the response with quirks fixed (in lenient mode). */
+export function validateResponse<T>(response: unknown, schema: Schema, ctx: ValidationContext): T {
+    return schema(response, '$', ctx) as T;
+}
+
+function fail(ctx: ValidationContext, path: string, problem: string): never {
+    throw new DataValidationError(ctx.endpoint, ctx.entryId, path, problem);
+}
+
+/** Report fixed quirk in lenient mode, or throw in strict mode */
+function quirk(ctx: ValidationContext, path: string, problem: string): void {
+    if (ctx.mode === 'strict') fail(ctx, path, problem);
+    ctx.onWarning({ endpoint: ctx.endpoint, entryId: ctx.entryId, path, problem });
+}
+
+function describeValue(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'string') return `string ${JSON.stringify(value)}`;
+    return typeof value;
+}
+
+function childPath(path: string, key: string | number): string {
+    if (typeof key === 'number') return `${path}[${key}]`;
+    if (/^[A-Za-z_]\w*$/.test(key)) return `${path}.${key}`;
+    return `${path}[${JSON.stringify(key)}]`;
+}
+
+
+/** Schema builders */
+export const S = {
+    string(): Schema {
+        return (value, path, ctx) => typeof value === 'string' ? value : fail(ctx, path, `expected string, got ${describeValue(value)}`);
+    },
+
+    number(): Schema {
+        return (value, path, ctx) => typeof value === 'number' ? value : fail(ctx, path, `expected number, got ${describeValue(value)}`);
+    },
+
+    boolean(): Schema {
+        return (value, path, ctx) => typeof value === 'boolean' ? value : fail(ctx, path, `expected boolean, got ${describeValue(value)}`);
+    },
+
+    /** Number which is sometimes served as a numeric string (coerced to number in lenient mode) */
+    numberOrNumericString(): Schema {
+        return (value, path, ctx) => {
+            if (typeof value === 'number') return value;
+            if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+                quirk(ctx, path, `expected number, got ${describeValue(value)}`);
+                return Number(value);
+            }
+            return fail(ctx, path, `expected number, got ${describeValue(value)}`);
+        };
+    },
+
+    /** Entity ID, served as number (e.g. 1) but sometimes as numeric string (coerced to number in lenient mode) */
+    entityId(): Schema {
+        return S.numberOrNumericString();
+    },
+
+    optional(schema: Schema): Schema {
+        return (value, path, ctx) => value === undefined ? undefined : schema(value, path, ctx);
+    },
+
+    nullable(schema: Schema): Schema {
+        return (value, path, ctx) => value === null || value === undefined ? value : schema(value, path, ctx);
+    },
+
+    array(itemSchema: Schema): Schema {
+        return (value, path, ctx) => {
+            if (!Array.isArray(value)) return fail(ctx, path, `expected array, got ${describeValue(value)}`);
+            return value.map((item, i) => itemSchema(item, childPath(path, i), ctx));
+        };
+    },
+
+    /** Object with known fields (unlisted fields are passed through) */
+    object(fields: { [key: string]: Schema }): Schema {
+        return (value, path, ctx) => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(ctx, path, `expected object, got ${describeValue(value)}`);
+            const out: { [key: string]: unknown } = { ...value };
+            for (const key in fields) {
+                const fieldValue = fields[key]((value as any)[key], childPath(path, key), ctx);
+                if (fieldValue !== undefined) out[key] = fieldValue;
+            }
+            return out;
+        };
+    },
+
+    /** Object with arbitrary keys and values of the same type */
+    record(valueSchema: Schema): Schema {
+        return (value, path, ctx) => {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(ctx, path, `expected object, got ${describeValue(value)}`);
+            const out: { [key: string]: unknown } = {};
+            for (const key in value) {
+                out[key] = valueSchema((value as any)[key], childPath(path, key), ctx);
+            }
+            return out;
+        };
+    },
+
+    /** Apply `fix` on the value after it has been validated by `schema` */
+    refine(schema: Schema, fix: (value: any, path: string, ctx: ValidationContext) => unknown): Schema {
+        return (value, path, ctx) => fix(schema(value, path, ctx), path, ctx);
+    },
+};
+
+
+const ResidueSchema = S.object({
+    residue_number: S.number(),
+    author_residue_number: S.optional(S.numberOrNumericString()),
+    author_insertion_code: S.nullable(S.string()),
+});
+
+/** Domain mapping with start and end residues, swapped if start > end (seen in Pfam mappings) */
+const DomainMappingSchema = S.refine(
+    S.object({
+        entity_id: S.entityId(),
+        chain_id: S.string(),
+        struct_asym_id: S.string(),
+        start: S.optional(ResidueSchema),
+        end: S.optional(ResidueSchema),
+        domain: S.nullable(S.string()),
+        scop_id: S.nullable(S.string()),
+    }),
+    (mapping, path, ctx) => {
+        if (mapping.start && mapping.end && mapping.start.residue_number > mapping.end.residue_number) {
+            quirk(ctx, path, `start residue ${mapping.start.residue_number} is after end residue ${mapping.end.residue_number}`);
+            return { ...mapping, start: mapping.end, end: mapping.start };
+        }
+        return mapping;
+    },
+);
+
+const ResidueInstanceSchema = S.object({
+    chain_id: S.string(),
+    author_residue_number: S.numberOrNumericString(),
+    author_insertion_code: S.nullable(S.string()),
+    chem_comp_id: S.string(),
+    entity_id: S.entityId(),
+    struct_asym_id: S.string(),
+    residue_number: S.number(),
+    chem_comp_name: S.string(),
+});
+
+const InteractionPartnerSchema = S.object({
+    author_insertion_code: S.nullable(S.string()),
+    author_residue_number: S.numberOrNumericString(),
+    chain_id: S.string(),
+    chem_comp_id: S.string(),
+});
+
+const MappingsSchema = S.record(S.record(S.record(S.object({
+    identifier: S.string(),
+    mappings: S.array(DomainMappingSchema),
+}))));
+
+/** Schemas for responses of PDBe API endpoints used by `ApiDataProvider` */
+export const ApiSchemas = {
+    'pdb/entry/summary': S.record(S.array(S.object({
+        experimental_method: S.optional(S.array(S.string())),
+        assemblies: S.array(S.object({
+            assembly_id: S.string(),
+            name: S.string(),
+            form: S.string(),
+            preferred: S.boolean(),
+        })),
+    }))),
+
+    'pdb/entry/molecules': S.record(S.array(S.object({
+        molecule_type: S.string(),
+        entity_id: S.entityId(),
+        in_struct_asyms: S.optional(S.array(S.string())),
+        molecule_name: S.array(S.string()),
+        chem_comp_ids: S.optional(S.array(S.string())),
+    }))),
+
+    'pdb/entry/ligand_monomers': S.record(S.array(ResidueInstanceSchema)),
+
+    'pdb/entry/modified_AA_or_NA': S.record(S.array(ResidueInstanceSchema)),
+
+    'pdb/entry/assembly': S.record(S.array(S.object({
+        assembly_id: S.string(),
+        entities: S.optional(S.array(S.object({
+            entity_id: S.entityId(),
+            in_chains: S.array(S.string()),
+        }))),
+    }))),
+
+    'mappings': MappingsSchema,
+
+    'nucleic_mappings': MappingsSchema,
+
+    'pdb/entry/polymer_coverage': S.record(S.object({
+        molecules: S.array(S.object({
+            entity_id: S.entityId(),
+            chains: S.optional(S.array(S.object({
+                chain_id: S.string(),
+                observed: S.optional(S.array(S.object({
+                    start: ResidueSchema,
+                    end: ResidueSchema,
+                }))),
+            }))),
+        })),
+    })),
+
+    'validation/residuewise_outlier_summary/entry': S.record(S.object({
+        molecules: S.array(S.object({
+            entity_id: S.entityId(),
+            chains: S.array(S.object({
+                chain_id: S.string(),
+                struct_asym_id: S.string(),
+                models: S.array(S.object({
+                    residues: S.array(S.object({
+                        residue_number: S.number(),
+                        author_residue_number: S.numberOrNumericString(),
+                        outlier_types: S.array(S.string()),
+                    })),
+                })),
+            })),
+        })),
+    })),
+
+    'pdb/bound_ligand_interactions': S.record(S.array(S.object({
+        interactions: S.array(S.object({
+            end: S.object({
+                atom_names: S.array(S.string()),
+                author_insertion_code: S.nullable(S.string()),
+                author_residue_number: S.numberOrNumericString(),
+                chain_id: S.string(),
+                chem_comp_id: S.string(),
+            }),
+            distance: S.number(),
+            interaction_details: S.array(S.string()),
+            ligand_atoms: S.array(S.string()),
+        })),
+        ligand: InteractionPartnerSchema,
+    }))),
+
+    'pdb/entry/llm_annotations/summary': S.record(S.object({
+        data: S.array(S.object({
+            residueList: S.array(S.object({
+                additionalData: S.array(S.object({
+                    entityId: S.entityId(),
+                    pdbResidue: S.number(),
+                    authorResidueNumber: S.numberOrNumericString(),
+                    pdbChain: S.string(),
+                    sentence: S.string(),
+                })),
+            })),
+        })),
+    })),
+} satisfies { [endpoint: string]: Schema };
+
+export type ApiEndpoint = keyof typeof ApiSchemas;
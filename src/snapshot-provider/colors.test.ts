@@ -0,0 +1,25 @@
+import { ColorThemeNames, ColorThemes, ColorVisionDeficiencies, checkColorTheme, colorVisionSafeTheme, findIndistinguishableColors, simulateColorVision } from './colors';
+
+
+test('simulate color vision', () => {
+    for (const deficiency of ColorVisionDeficiencies) {
+        expect(simulateColorVision('white', deficiency)).toBe('#ffffff');
+        expect(simulateColorVision('#000000', deficiency)).toBe('#000000');
+    }
+    // Orange and brown are confused with protanopia only
+    expect(findIndistinguishableColors(['#d95f02', '#a6761d'], ['protanopia'])).toEqual([
+        expect.objectContaining({ deficiency: 'protanopia', keys: ['0', '1'], colors: ['#d95f02', '#a6761d'] }),
+    ]);
+    expect(findIndistinguishableColors(['#d95f02', '#a6761d'], ['deuteranopia', 'tritanopia'])).toEqual([]);
+    // Identical colors are not supposed to be distinguished
+    expect(findIndistinguishableColors({ a: 'red', b: '#ff0000' })).toEqual([]);
+});
+
+test('color-vision-safe themes', () => {
+    for (const deficiency of ColorVisionDeficiencies) {
+        expect(checkColorTheme(ColorThemes[deficiency], [deficiency])).toEqual([]);
+    }
+    for (const name of ColorThemeNames) {
+        expect(checkColorTheme(colorVisionSafeTheme(ColorThemes[name]))).toEqual([]);
+    }
+});
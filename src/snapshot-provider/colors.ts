@@ -4,18 +4,19 @@
  * @author Adam Midlik <midlik@gmail.com>
  */
 
-import { type ColorT } from 'molstar/lib/extensions/mvs/tree/mvs/param-types';
+import { decodeColor } from 'molstar/lib/extensions/mvs/helpers/utils';
+import { type ColorT, type ContinuousPalette } from 'molstar/lib/extensions/mvs/tree/mvs/param-types';
 import { Mat3, Vec3 } from 'molstar/lib/mol-math/linear-algebra';
+import { ElementSymbolColors } from 'molstar/lib/mol-theme/color/element-symbol';
 import { Color, type ColorListEntry } from 'molstar/lib/mol-util/color/color';
 import { ColorLists } from 'molstar/lib/mol-util/color/lists';
-import { Hcl } from 'molstar/lib/mol-util/color/spaces/hcl';
+import { Lab } from 'molstar/lib/mol-util/color/spaces/lab';
 
 
 const SET1 = colorArray(ColorLists['set-1'].list.slice(0, 8)); // Discard the last color (gray)
 const SET2 = colorArray(ColorLists['set-2'].list.slice(0, 7)); // Discard the last color (gray)
 const DARK2 = colorArray(ColorLists['dark-2'].list.slice(0, 7)); // Discard the last color (gray)
 
-const SET1_SAFE = [SET1[2], SET1[3], SET1[4], SET1[6], SET1[7]]; // Discard colors that conflict with element coloring (red oxygen, blue nitrogen, yellow sulfur)
 const SET2_SAFE = [SET2[6], SET2[0], SET2[1], SET2[2], SET2[3], SET2[4]]; // Discard colors that conflict with element coloring (yellow sulfur), move the poopish #6 as first, so is drawn as last
 
 // Plotly palettes
@@ -39,6 +40,29 @@ export const MODRES_COLORS = ANNOTATION_COLORS.slice().reverse();
 /** Color for water entity */
 export const WATER_COLOR = '#ff0d0d';
 
+/** Colors for single-element ions, by element symbol (Jmol element colors, e.g. grey-blue zinc) */
+export const ION_COLORS: Record<string, ColorT> = Object.fromEntries(
+    Object.entries(ElementSymbolColors).map(([element, color]) => [element, Color.toHexStyle(color) as ColorT]));
+
+/** Colors for frequent ligands (mostly cofactors), by compound ID */
+export const FIXED_LIGAND_COLORS: Record<string, ColorT> = {
+    // Hemes
+    'HEM': '#c0392b', 'HEC': '#c0392b', 'HEA': '#c0392b', 'HEB': '#c0392b',
+    // Flavins
+    'FAD': '#e6b800', 'FMN': '#e6b800',
+    // Nicotinamide dinucleotides
+    'NAD': '#c25a9c', 'NAP': '#c25a9c', 'NDP': '#c25a9c', 'NAI': '#c25a9c',
+    // Adenosine and guanosine nucleotides
+    'ATP': '#e58606', 'ADP': '#e58606', 'AMP': '#e58606', 'ANP': '#e58606',
+    'GTP': '#24796c', 'GDP': '#24796c', 'GNP': '#24796c',
+    // Coenzyme A
+    'COA': '#5d69b1', 'ACO': '#5d69b1',
+    // Others
+    'SAM': '#8c6d31', 'SAH': '#8c6d31',
+    'PLP': '#764e9f',
+    'CLA': '#2e8b57', 'BCL': '#2e8b57',
+};
+
 export const VALIDATION_COLORS = {
     NOT_APPLICABLE: '#808080', // not applicable
     0: '#ffffff', // 0 issues (PDBconnect currently uses #d4d5d4)
@@ -78,6 +102,55 @@ export const RESIDUE_ANNOTATED_COLOR = '#4E81C3';
 export const RESIDUE_HIGHLIGHT_COLOR = '#ff8800';
 // export const RESIDUE_HIGHLIGHT_COLOR = RESIDUE_ANNOTATED_COLOR;
 
+/** For the two partner chains in Interface view */
+export const INTERFACE_PARTNER_COLORS = ['#4E81C3', '#e58606'] as const;
+
+/** For everything except the partner chains in Interface view */
+export const INTERFACE_BACKGROUND_COLOR = '#d4d5d4';
+
+/** For symmetry axes in Symmetry view, by rotation order */
+export const SYMMETRY_AXIS_COLORS: Record<number | '_DEFAULT_', ColorT> = {
+    2: '#e41a1c',
+    3: '#4daf4a',
+    4: '#377eb8',
+    5: '#ff7f00',
+    6: '#984ea3',
+    '_DEFAULT_': '#808080',
+};
+
+
+/** Colors used for creating snapshots (the default `light` theme uses the constants above) */
+export interface ColorTheme {
+    /** Canvas background (undefined = keep viewer default) */
+    canvasBackground?: ColorT,
+    /** Polymer entities */
+    entity: ColorT[],
+    /** Ligand entities */
+    ligand: ColorT[],
+    water: ColorT,
+    /** Single-element ions by element symbol (override `ligand` palette) */
+    ion: Record<string, ColorT>,
+    /** Frequent ligands by compound ID (override `ligand` palette and `ion`) */
+    fixedLigand: Record<string, ColorT>,
+    /** Domains, domain families, assembly operators */
+    annotation: ColorT[],
+    /** Modified residues (must be hex colors) */
+    modres: ColorT[],
+    /** Parts of the structure shown only for context (e.g. the rest of the structure in Domain view) */
+    context: ColorT,
+    /** Text labels drawn in the scene */
+    label: ColorT,
+    validation: { [key in keyof typeof VALIDATION_COLORS]: ColorT },
+    atomInteraction: Record<string, ColorT>,
+    chainAnnotated: ColorT,
+    residueAnnotated: ColorT,
+    residueHighlight: ColorT,
+    interfacePartners: readonly [ColorT, ColorT],
+    interfaceBackground: ColorT,
+    symmetryAxis: Record<number | '_DEFAULT_', ColorT>,
+    /** Continuous palette for B-factor, with its end colors (for legend and overflow) and wording for description */
+    bfactor: { colors: ContinuousPalette['colors'], low: ColorT, high: ColorT, description: string },
+}
 
 /** Iterate over the elements of `values` in a cycle (forever). */
 export function* cycleIterator<T>(values: T[]) {
@@ -91,184 +164,427 @@ export function* cycleIterator<T>(values: T[]) {
 /** Generate lighter or darker variant of colors (how much lighter or darker will depend quasi-randomly on integer `i`; i=0 means original colors). */
 export function lightnessVariant(colors: Color[], i: number): Color[] {
     if (i === 0) return [...colors];
-    return colors.map(c => SisterColors.getSisterColor(c, i, SisterColors.LUMINOSITY_SISTER_COLOR_PARAMS));
+    return colors.map(c => getSisterColor(c, i, LUMINOSITY_SISTER_COLOR_PARAMS));
 }
 
-/** Convert an array of ColorListEntries into Colors. */
-function colorArray(colors: ColorListEntry[]): Color[] {
-    return colors.map(entry => (typeof entry === 'number') ? entry : entry[0]);
+/** Types of color vision deficiency (dichromacy) which can be simulated */
+export const ColorVisionDeficiencies = ['deuteranopia', 'protanopia', 'tritanopia'] as const;
+export type ColorVisionDeficiency = typeof ColorVisionDeficiencies[number];
+
+/** Minimal CIELAB distance (CIE76) of two colors to be considered distinguishable */
+export const MIN_COLOR_DISTANCE = 10;
+
+/** Pair of colors which become indistinguishable with color vision deficiency */
+export interface IndistinguishableColors {
+    deficiency: ColorVisionDeficiency,
+    /** Keys of the colors in the palette (indices for arrays) */
+    keys: [string, string],
+    colors: [ColorT, ColorT],
+    /** CIELAB distance of the simulated colors */
+    distance: number,
 }
 
+/** Number of lightness variants tried when replacing a conflicting color */
+const MAX_LIGHTNESS_VARIANTS = 20;
+
+/** Simulation matrices for linear RGB, row by row (Machado, Oliveira & Fernandes 2009, severity 1.0) */
+const COLOR_VISION_MATRICES: Record<ColorVisionDeficiency, number[]> = {
+    protanopia: [
+        0.152286, 1.052583, -0.204868,
+        0.114503, 0.786281, 0.099216,
+        -0.003882, -0.048116, 1.051998,
+    ],
+    deuteranopia: [
+        0.367322, 0.860646, -0.227968,
+        0.280085, 0.672501, 0.047413,
+        -0.011820, 0.042940, 0.968881,
+    ],
+    tritanopia: [
+        1.255528, -0.076749, -0.178779,
+        -0.078411, 0.930809, 0.147602,
+        0.004733, 0.691367, 0.303900,
+    ],
+};
+
+function decodeColorStrict(color: ColorT): Color {
+    const decoded = decodeColor(color);
+    if (decoded === undefined) throw new Error(`Invalid color "${color}"`);
+    return decoded;
+}
 
-/** Ad-hoc color space similar to HSL or HCL. The name PSL is just not to confuse it with HSL.
- * A bit smarter that HSL (tries to compensate for different luminosities of red, green, and blue),
- * avoids the issue of HCL when lighter blue becomes cyan. */
-namespace PslColors {
-    /** Red-green-blue color with values [0...1] */
-    interface RGB extends Array<number> { [d: number]: number, '@type': 'rgb', length: 3 }
-    /** X-Y-luminosity color with values [-1...1] for X, Y, [0...1] for L */
-    interface XYL extends Array<number> { [d: number]: number, '@type': 'xyl', length: 3 }
-    /** Phase-saturation-luminosity color with values [0, 360] for P (hue-like), [0, 1] for S (saturation-like), [0...1] for L (luminosity-like) */
-    export interface PSL extends Array<number> { [d: number]: number, '@type': 'psl', length: 3 }
-
-    function RGB(r: number, g: number, b: number) { return [r, g, b] as any as RGB; }
-    function XYL(x: number, y: number, l: number) { return [x, y, l] as any as XYL; }
-    export function PSL(phi: number, sat: number, l: number) { return [phi, sat, l] as any as PSL; }
-
-    function defineMatrices() {
-        const luminosities = { r: 0.32, g: 0.57, b: 0.11 }; // These luminosities are based on a simple Chrome Colorblindly comparison
-        const r = [1, 0, luminosities.r] as const;
-        const g = [-0.5, Math.sin(Math.PI / 3), luminosities.g] as const;
-        const b = [-0.5, -Math.sin(Math.PI / 3), luminosities.b] as const;
-        const mRgbToXyl = Mat3.create(...r, ...g, ...b);
-        const mXylToRgb = Mat3.invert(Mat3(), mRgbToXyl);
-        return { mRgbToXyl, mXylToRgb };
-    }
-    const { mRgbToXyl, mXylToRgb } = defineMatrices();
+function simulateDeficiency(color: Color, deficiency: ColorVisionDeficiency): Color {
+    const [r, g, b] = Color.toRgbNormalized(color).map(srgbToLinear);
+    const m = COLOR_VISION_MATRICES[deficiency];
+    return Color.fromRgb(
+        Math.round(255 * linearToSrgb(m[0] * r + m[1] * g + m[2] * b)),
+        Math.round(255 * linearToSrgb(m[3] * r + m[4] * g + m[5] * b)),
+        Math.round(255 * linearToSrgb(m[6] * r + m[7] * g + m[8] * b)));
+}
 
-    function rgbToXyl(rgb: RGB): XYL {
-        return Vec3.transformMat3(Vec3(), rgb as any, mRgbToXyl) as any;
-    }
-    function xylToRgb(xyl: XYL): RGB {
-        return Vec3.transformMat3(Vec3(), xyl as any, mXylToRgb) as any;
-    }
-    function rgbToColor(rgb: RGB): Color {
-        let [r, g, b] = rgb;
-        r = Math.max(0, Math.min(1, r));
-        g = Math.max(0, Math.min(1, g));
-        b = Math.max(0, Math.min(1, b));
-        return Color.fromNormalizedRgb(r, g, b);
-    }
-    function getSat(x: number, y: number, l: number) {
-        const [dr, dg, db] = xylToRgb(XYL(x, y, 0));
-        let sat = 0;
-        if (l > 0 && l < 1) {
-            if (dr > 0) sat = Math.max(sat, dr / (1 - l));
-            if (dr < 0) sat = Math.max(sat, -dr / l);
-            if (dg > 0) sat = Math.max(sat, dg / (1 - l));
-            if (dg < 0) sat = Math.max(sat, -dg / l);
-            if (db > 0) sat = Math.max(sat, db / (1 - l));
-            if (db < 0) sat = Math.max(sat, -db / l);
-            if (sat < 0) throw new Error('AssertionError');
+/** CIELAB distance of two colors */
+function labDistance(a: Color, b: Color): number {
+    return Lab.distance(Lab.fromColor(Lab(), a), Lab.fromColor(Lab(), b));
+}
+
+function distinguishable(a: Color, b: Color, deficiencies: readonly ColorVisionDeficiency[], minDistance: number): boolean {
+    if (labDistance(a, b) < minDistance) return false;
+    return deficiencies.every(d => labDistance(simulateDeficiency(a, d), simulateDeficiency(b, d)) >= minDistance);
+}
+
+/** Replace colors in `palette` which conflict with preceding colors by their lightness variants.
+ * Near-identical colors are treated as the same color and get the same replacement. */
+function makeDistinguishable(palette: Record<string, ColorT>, deficiencies: readonly ColorVisionDeficiency[], minDistance: number): Record<string, ColorT> {
+    const originals: Color[] = [];
+    const replacements: ColorT[] = [];
+    const out: Record<string, ColorT> = {};
+    for (const [key, color] of Object.entries(palette)) {
+        const original = decodeColorStrict(color);
+        const iSame = originals.findIndex(other => labDistance(other, original) < minDistance);
+        let replacement = color;
+        if (iSame >= 0) {
+            replacement = replacements[iSame];
+        } else {
+            const chosen = replacements.map(decodeColorStrict);
+            for (let i = 0; i <= MAX_LIGHTNESS_VARIANTS; i++) {
+                const candidate = lightnessVariant([original], i)[0];
+                if (chosen.every(other => distinguishable(other, candidate, deficiencies, minDistance))) {
+                    if (i > 0) replacement = Color.toHexStyle(candidate) as ColorT;
+                    break;
+                }
+            }
         }
-        return sat;
-    }
-    function rgbToPsl(rgb: RGB) {
-        const [x, y, l] = rgbToXyl(rgb);
-        let phi = (180 / Math.PI) * Math.atan2(y, x);
-        if (phi < 0) phi += 360;
-        const sat = Math.min(getSat(x, y, l), 1);
-        return PSL(phi, sat, l);
-    }
-    function pslToRgb(psl: PSL) {
-        const [phi, sat, l] = psl;
-        if (l === 0) return RGB(0, 0, 0);
-        if (l === 1) return RGB(1, 1, 1);
-        if (sat === 0) return RGB(l, l, l); // necessary?
-        const x0 = Math.cos(Math.PI / 180 * phi);
-        const y0 = Math.sin(Math.PI / 180 * phi);
-        const normSat = getSat(x0, y0, l);
-        const x = sat * x0 / normSat;
-        const y = sat * y0 / normSat;
-        return xylToRgb(XYL(x, y, l));
-    }
-    export function pslToColor(psl: PSL): Color {
-        return rgbToColor(pslToRgb(psl));
-    }
-    export function colorToPsl(color: Color): PSL {
-        return rgbToPsl(RGB(...Color.toRgbNormalized(color)));
+        originals.push(original);
+        replacements.push(replacement);
+        out[key] = replacement;
     }
+    return out;
 }
 
+function srgbToLinear(c: number): number {
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+}
 
-namespace SisterColors {
-    export const DEFAULT_SISTER_COLOR_PARAMS = {
-        hueRadius: 90,
-        satRadius: 0.3,
-        satMin: 0.2,
-        satMax: 1.0,
-        lumRadius: 0.25,
-        lumMin: 0.1,
-        lumMax: 0.9,
-    };
-    export const LUMINOSITY_SISTER_COLOR_PARAMS = {
-        hueRadius: 0,
-        satRadius: 0,
-        satMin: 0,
-        satMax: 1,
-        lumRadius: 0.3,
-        lumMin: 0.1,
-        lumMax: 0.9,
-    };
+function linearToSrgb(c: number): number {
+    c = Math.max(0, Math.min(1, c));
+    return c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055;
+}
 
-    /** Get i-th "sister color" for the given base color.
-     * The sister colors are similar to the base color but slightly differ
-     * in hue, saturation, and luminosity, from the base and from each other.
-     * How much they differ depends on the *_RADIUS params.
-     * 0-th sister color is the base color itself. */
-    export function getSisterColor(base: Color, i: number, params: typeof DEFAULT_SISTER_COLOR_PARAMS = DEFAULT_SISTER_COLOR_PARAMS) {
-        const [hue0, sat0, lum0] = PslColors.colorToPsl(base);
-        const hue = remap(magicNumber2(i), hue0, params.hueRadius);
-        const sat = remap(magicNumber3(i), sat0, params.satRadius, params.satMin, params.satMax);
-        const lum = remap((1 - magicNumber(i)) % 1, lum0, params.lumRadius, params.lumMin, params.lumMax);
-        return PslColors.pslToColor(PslColors.PSL(hue, sat, lum));
-    }
+/** Simulate how `color` is perceived with color vision `deficiency` (model by Machado et al. 2009, full severity) */
+export function simulateColorVision(color: ColorT, deficiency: ColorVisionDeficiency): ColorT {
+    return Color.toHexStyle(simulateDeficiency(decodeColorStrict(color), deficiency)) as ColorT;
+}
 
-    /** Get i-th "sister color" for the given base color.
-     * The sister colors are similar to the base color but slightly differ
-     * in hue, chroma, and luminosity, from the base and from each other.
-     * How much they differ depends on the *_RADIUS params.
-     * 0-th sister color is the base color itself. */
-    export function getSisterColorHcl(base: Color, i: number, params: typeof DEFAULT_SISTER_COLOR_PARAMS = DEFAULT_SISTER_COLOR_PARAMS) {
-        const [hue0, sat0, lum0] = Hcl.fromColor(Hcl(), base);
-        const hue = remap(magicNumber2(i), hue0, params.hueRadius);
-        const sat = remap(magicNumber3(i), sat0, params.satRadius * 100, params.satMin * 100, params.satMax * 100);
-        const lum = remap(magicNumber(i), lum0, params.lumRadius * 100, params.lumMin * 100, params.lumMax * 100);
-        return Hcl.toColor(Hcl.create(hue, sat, lum));
+/** Find pairs of colors in `palette` which are distinguishable with normal vision but not with any of `deficiencies`.
+ * Identical or near-identical colors are not reported (these are not supposed to be told apart). */
+export function findIndistinguishableColors(palette: ColorT[] | Record<string, ColorT>, deficiencies: readonly ColorVisionDeficiency[] = ColorVisionDeficiencies, minDistance: number = MIN_COLOR_DISTANCE): IndistinguishableColors[] {
+    const entries = Object.entries(palette).map(([key, color]) => ({ key, color, decoded: decodeColorStrict(color) }));
+    const out: IndistinguishableColors[] = [];
+    for (const deficiency of deficiencies) {
+        const simulated = entries.map(entry => simulateDeficiency(entry.decoded, deficiency));
+        for (let i = 0; i < entries.length; i++) {
+            for (let j = i + 1; j < entries.length; j++) {
+                if (labDistance(entries[i].decoded, entries[j].decoded) < minDistance) continue;
+                const distance = labDistance(simulated[i], simulated[j]);
+                if (distance < minDistance) {
+                    out.push({ deficiency, keys: [entries[i].key, entries[j].key], colors: [entries[i].color, entries[j].color], distance });
+                }
+            }
+        }
     }
+    return out;
+}
 
-    /** Map values from [0, 1) to [center-radius, center+radius) so that
-     * 0 maps to center, [0, 0.5) map to [center, center+radius), [0.5, 1) map to [center-radius, center).
-     * If min and/or max are given, shift the codomain to fully fit in [min, max), but 0 must still map to center. */
-    function remap(value: number, center: number, radius: number, min?: number, max?: number) {
-        let start = center - radius;
-        const range = (min !== undefined && max !== undefined) ? Math.min(2 * radius, max - min) : 2 * radius;
-        if (min !== undefined) {
-            start = Math.max(start, min);
-            center = Math.max(center, min);
-        }
-        if (max !== undefined) {
-            start = Math.min(start, max - range);
-            center = Math.min(center, max - 0.001 * range);
-        }
+/** Find indistinguishable colors in all groups of `theme` colors which are shown together (`ThemePalettes`) */
+export function checkColorTheme(theme: ColorTheme, deficiencies: readonly ColorVisionDeficiency[] = ColorVisionDeficiencies, minDistance: number = MIN_COLOR_DISTANCE): (IndistinguishableColors & { palette: string })[] {
+    return Object.entries(ThemePalettes).flatMap(([palette, { get }]) =>
+        findIndistinguishableColors(get(theme), deficiencies, minDistance).map(issue => ({ palette, ...issue })));
+}
 
-        const valueShift = (range > 0) ? (center - start) / range : 0;
-        return start + ((value + valueShift) % 1) * range;
+/** Return a variant of `theme` in which colors shown together stay distinguishable with `deficiencies`.
+ * Conflicting colors are replaced by their lightness variants (colors which cannot be fixed this way are kept). */
+export function colorVisionSafeTheme(theme: ColorTheme, deficiencies: readonly ColorVisionDeficiency[] = ColorVisionDeficiencies, minDistance: number = MIN_COLOR_DISTANCE): ColorTheme {
+    for (const { get, set } of Object.values(ThemePalettes)) {
+        theme = set(theme, makeDistinguishable(get(theme), deficiencies, minDistance));
     }
+    return theme;
+}
 
-    /** Golden ratio */
-    const PHI = (1 + Math.sqrt(5)) / 2;
-    const PHI2 = PHI / 5 ** (1 / 5);
-    const PHI3 = PHI / 5 ** (4 / 5);
+/** Convert an array of ColorListEntries into Colors. */
+function colorArray(colors: ColorListEntry[]): Color[] {
+    return colors.map(entry => (typeof entry === 'number') ? entry : entry[0]);
+}
 
-    /** This has a nice property that the first N magic numbers are close to equidistinantly distributed in [0, 1), for any N. */
-    function magicNumber(i: number) {
-        return (i * PHI) % 1;
-    }
 
-    /** This has a nice property (maybe just coincidence) that the first N points with
-     * coordinates [magicNumber(i), magicNumber2(i)] are nicely distributed in unit square, for any N.
-     * (There will be some patterns but they seem to fold between themselves as N grow.
-     * Far from the beauty of magicNumber alone but should suffice.) */
-    function magicNumber2(i: number) {
-        return (i * PHI2) % 1;
+// PSL colors: ad-hoc color space similar to HSL or HCL. The name PSL is just not to confuse it with HSL.
+// A bit smarter that HSL (tries to compensate for different luminosities of red, green, and blue),
+// avoids the issue of HCL when lighter blue becomes cyan.
+// (Plain functions rather than a namespace, as sucrase-node does not support namespaces.)
+
+/** Red-green-blue color with values [0...1] */
+interface RGB extends Array<number> { [d: number]: number, '@type': 'rgb', length: 3 }
+/** X-Y-luminosity color with values [-1...1] for X, Y, [0...1] for L */
+interface XYL extends Array<number> { [d: number]: number, '@type': 'xyl', length: 3 }
+/** Phase-saturation-luminosity color with values [0, 360] for P (hue-like), [0, 1] for S (saturation-like), [0...1] for L (luminosity-like) */
+interface PSL extends Array<number> { [d: number]: number, '@type': 'psl', length: 3 }
+
+function makeRgb(r: number, g: number, b: number) { return [r, g, b] as any as RGB; }
+function makeXyl(x: number, y: number, l: number) { return [x, y, l] as any as XYL; }
+function makePsl(phi: number, sat: number, l: number) { return [phi, sat, l] as any as PSL; }
+
+function defineMatrices() {
+    const luminosities = { r: 0.32, g: 0.57, b: 0.11 }; // These luminosities are based on a simple Chrome Colorblindly comparison
+    const r = [1, 0, luminosities.r] as const;
+    const g = [-0.5, Math.sin(Math.PI / 3), luminosities.g] as const;
+    const b = [-0.5, -Math.sin(Math.PI / 3), luminosities.b] as const;
+    const mRgbToXyl = Mat3.create(...r, ...g, ...b);
+    const mXylToRgb = Mat3.invert(Mat3(), mRgbToXyl);
+    return { mRgbToXyl, mXylToRgb };
+}
+const { mRgbToXyl, mXylToRgb } = defineMatrices();
+
+function rgbToXyl(rgb: RGB): XYL {
+    return Vec3.transformMat3(Vec3(), rgb as any, mRgbToXyl) as any;
+}
+function xylToRgb(xyl: XYL): RGB {
+    return Vec3.transformMat3(Vec3(), xyl as any, mXylToRgb) as any;
+}
+function rgbToColor(rgb: RGB): Color {
+    let [r, g, b] = rgb;
+    r = Math.max(0, Math.min(1, r));
+    g = Math.max(0, Math.min(1, g));
+    b = Math.max(0, Math.min(1, b));
+    return Color.fromNormalizedRgb(r, g, b);
+}
+function getSat(x: number, y: number, l: number) {
+    const [dr, dg, db] = xylToRgb(makeXyl(x, y, 0));
+    let sat = 0;
+    if (l > 0 && l < 1) {
+        if (dr > 0) sat = Math.max(sat, dr / (1 - l));
+        if (dr < 0) sat = Math.max(sat, -dr / l);
+        if (dg > 0) sat = Math.max(sat, dg / (1 - l));
+        if (dg < 0) sat = Math.max(sat, -dg / l);
+        if (db > 0) sat = Math.max(sat, db / (1 - l));
+        if (db < 0) sat = Math.max(sat, -db / l);
+        if (sat < 0) throw new Error('AssertionError');
     }
+    return sat;
+}
+function rgbToPsl(rgb: RGB) {
+    const [x, y, l] = rgbToXyl(rgb);
+    let phi = (180 / Math.PI) * Math.atan2(y, x);
+    if (phi < 0) phi += 360;
+    const sat = Math.min(getSat(x, y, l), 1);
+    return makePsl(phi, sat, l);
+}
+function pslToRgb(psl: PSL) {
+    const [phi, sat, l] = psl;
+    if (l === 0) return makeRgb(0, 0, 0);
+    if (l === 1) return makeRgb(1, 1, 1);
+    if (sat === 0) return makeRgb(l, l, l); // necessary?
+    const x0 = Math.cos(Math.PI / 180 * phi);
+    const y0 = Math.sin(Math.PI / 180 * phi);
+    const normSat = getSat(x0, y0, l);
+    const x = sat * x0 / normSat;
+    const y = sat * y0 / normSat;
+    return xylToRgb(makeXyl(x, y, l));
+}
+function pslToColor(psl: PSL): Color {
+    return rgbToColor(pslToRgb(psl));
+}
+function colorToPsl(color: Color): PSL {
+    return rgbToPsl(makeRgb(...Color.toRgbNormalized(color)));
+}
+
 
-    /** This has a nice property (maybe just coincidence) that the first N points with
-     * coordinates [magicNumber(i), magicNumber3(i)] are nicely distributed in unit square, for any N.
-     * (There will be some patterns but they seem to fold between themselves as N grow.
-     * Far from the beauty of magicNumber alone but should suffice.) */
-    function magicNumber3(i: number) {
-        return (i * PHI3) % 1;
+// Sister colors
+
+const DEFAULT_SISTER_COLOR_PARAMS = {
+    hueRadius: 90,
+    satRadius: 0.3,
+    satMin: 0.2,
+    satMax: 1.0,
+    lumRadius: 0.25,
+    lumMin: 0.1,
+    lumMax: 0.9,
+};
+const LUMINOSITY_SISTER_COLOR_PARAMS = {
+    hueRadius: 0,
+    satRadius: 0,
+    satMin: 0,
+    satMax: 1,
+    lumRadius: 0.3,
+    lumMin: 0.1,
+    lumMax: 0.9,
+};
+
+/** Get i-th "sister color" for the given base color.
+ * The sister colors are similar to the base color but slightly differ
+ * in hue, saturation, and luminosity, from the base and from each other.
+ * How much they differ depends on the *_RADIUS params.
+ * 0-th sister color is the base color itself. */
+function getSisterColor(base: Color, i: number, params: typeof DEFAULT_SISTER_COLOR_PARAMS = DEFAULT_SISTER_COLOR_PARAMS) {
+    const [hue0, sat0, lum0] = colorToPsl(base);
+    const hue = remap(magicNumber2(i), hue0, params.hueRadius);
+    const sat = remap(magicNumber3(i), sat0, params.satRadius, params.satMin, params.satMax);
+    const lum = remap((1 - magicNumber(i)) % 1, lum0, params.lumRadius, params.lumMin, params.lumMax);
+    return pslToColor(makePsl(hue, sat, lum));
+}
+
+/** Map values from [0, 1) to [center-radius, center+radius) so that
+ * 0 maps to center, [0, 0.5) map to [center, center+radius), [0.5, 1) map to [center-radius, center).
+ * If min and/or max are given, shift the codomain to fully fit in [min, max), but 0 must still map to center. */
+function remap(value: number, center: number, radius: number, min?: number, max?: number) {
+    let start = center - radius;
+    const range = (min !== undefined && max !== undefined) ? Math.min(2 * radius, max - min) : 2 * radius;
+    if (min !== undefined) {
+        start = Math.max(start, min);
+        center = Math.max(center, min);
     }
+    if (max !== undefined) {
+        start = Math.min(start, max - range);
+        center = Math.min(center, max - 0.001 * range);
+    }
+
+    const valueShift = (range > 0) ? (center - start) / range : 0;
+    return start + ((value + valueShift) % 1) * range;
+}
+
+/** Golden ratio */
+const PHI = (1 + Math.sqrt(5)) / 2;
+const PHI2 = PHI / 5 ** (1 / 5);
+const PHI3 = PHI / 5 ** (4 / 5);
+
+/** This has a nice property that the first N magic numbers are close to equidistinantly distributed in [0, 1), for any N. */
+function magicNumber(i: number) {
+    return (i * PHI) % 1;
+}
+
+/** This has a nice property (maybe just coincidence) that the first N points with
+ * coordinates [magicNumber(i), magicNumber2(i)] are nicely distributed in unit square, for any N.
+ * (There will be some patterns but they seem to fold between themselves as N grow.
+ * Far from the beauty of magicNumber alone but should suffice.) */
+function magicNumber2(i: number) {
+    return (i * PHI2) % 1;
+}
+
+/** This has a nice property (maybe just coincidence) that the first N points with
+ * coordinates [magicNumber(i), magicNumber3(i)] are nicely distributed in unit square, for any N.
+ * (There will be some patterns but they seem to fold between themselves as N grow.
+ * Far from the beauty of magicNumber alone but should suffice.) */
+function magicNumber3(i: number) {
+    return (i * PHI3) % 1;
+}
+
+
+/** Number of first colors checked in cycling palettes (entities, annotations), as only a few are usually shown together */
+const CHECKED_PALETTE_LENGTH = 8;
+
+/** Groups of theme colors which are shown together and must be distinguishable, with getters and setters */
+const ThemePalettes: { [name: string]: { get: (theme: ColorTheme) => Record<string, ColorT>, set: (theme: ColorTheme, colors: Record<string, ColorT>) => ColorTheme } } = {
+    entity: cyclingPalette('entity'),
+    ligand: cyclingPalette('ligand'),
+    annotation: cyclingPalette('annotation'),
+    modres: cyclingPalette('modres'),
+    validation: {
+        get: theme => ({ 0: theme.validation[0], 1: theme.validation[1], 2: theme.validation[2], 3: theme.validation[3], HAS_ISSUE: theme.validation.HAS_ISSUE }),
+        set: (theme, colors) => ({ ...theme, validation: { ...theme.validation, ...colors } }),
+    },
+    atomInteraction: {
+        get: theme => theme.atomInteraction,
+        set: (theme, colors) => ({ ...theme, atomInteraction: colors }),
+    },
+    textAnnotation: {
+        get: theme => ({ chainAnnotated: theme.chainAnnotated, residueAnnotated: theme.residueAnnotated, residueHighlight: theme.residueHighlight }),
+        set: (theme, colors) => ({ ...theme, chainAnnotated: colors.chainAnnotated, residueAnnotated: colors.residueAnnotated, residueHighlight: colors.residueHighlight }),
+    },
+    interface: {
+        get: theme => ({ partner1: theme.interfacePartners[0], partner2: theme.interfacePartners[1], background: theme.interfaceBackground }),
+        set: (theme, colors) => ({ ...theme, interfacePartners: [colors.partner1, colors.partner2], interfaceBackground: colors.background }),
+    },
+    symmetryAxis: {
+        get: theme => theme.symmetryAxis,
+        set: (theme, colors) => ({ ...theme, symmetryAxis: { ...theme.symmetryAxis, ...colors } }),
+    },
+};
+
+function cyclingPalette(key: 'entity' | 'ligand' | 'annotation' | 'modres') {
+    return {
+        get: (theme: ColorTheme) => Object.fromEntries(theme[key].slice(0, CHECKED_PALETTE_LENGTH).map((color, i) => [i, color])),
+        set: (theme: ColorTheme, colors: Record<string, ColorT>) => ({ ...theme, [key]: theme[key].map((color, i) => colors[i] ?? color) }),
+    };
+}
+
+
+/** Theme for white or light background */
+const LIGHT_THEME: ColorTheme = {
+    entity: ENTITY_COLORS,
+    ligand: LIGAND_COLORS,
+    water: WATER_COLOR,
+    ion: ION_COLORS,
+    fixedLigand: FIXED_LIGAND_COLORS,
+    annotation: ANNOTATION_COLORS,
+    modres: MODRES_COLORS,
+    context: 'gray',
+    label: 'black',
+    validation: VALIDATION_COLORS,
+    atomInteraction: ATOM_INTERACTION_COLORS,
+    chainAnnotated: CHAIN_ANNOTATED_COLOR,
+    residueAnnotated: RESIDUE_ANNOTATED_COLOR,
+    residueHighlight: RESIDUE_HIGHLIGHT_COLOR,
+    interfacePartners: INTERFACE_PARTNER_COLORS,
+    interfaceBackground: INTERFACE_BACKGROUND_COLOR,
+    symmetryAxis: SYMMETRY_AXIS_COLORS,
+    bfactor: { colors: 'Plasma', low: '#0d0887', high: '#eff821', description: 'Plasma color scheme (0 = blue, 120 = yellow)' },
+};
+
+/** Theme for black background (dark colors brightened, context parts darker) */
+const DARK_THEME: ColorTheme = {
+    ...LIGHT_THEME,
+    canvasBackground: '#000000',
+    context: '#5a5a5a',
+    label: 'white',
+    validation: { ...VALIDATION_COLORS, NOT_APPLICABLE: '#5a5a5a', 3: '#e8384f', HAS_ISSUE: '#e8384f' },
+    atomInteraction: { ...ATOM_INTERACTION_COLORS, 'polar': '#5f7fff', 'weak_polar': '#8c9cff', '_DEFAULT_': '#a0a0a0', '_MIXED_': '#a0a0a0' },
+    chainAnnotated: '#5d6d47',
+    interfaceBackground: '#4a4a4a',
+    symmetryAxis: { ...SYMMETRY_AXIS_COLORS, 6: '#c28ad0', '_DEFAULT_': '#a0a0a0' },
+};
+
+/** Theme for printing on white paper (no white or very light colors, no pastel palette) */
+const PRINT_THEME: ColorTheme = {
+    ...LIGHT_THEME,
+    canvasBackground: '#ffffff',
+    entity: [...DARK2, ...BOLD, ...SET2_SAFE].map(Color.toHexStyle) as ColorT[],
+    ligand: [...DARK2, ...BOLD, ...SET2_SAFE].map(Color.toHexStyle).reverse() as ColorT[],
+    context: '#b0b0b0',
+    validation: { ...VALIDATION_COLORS, 0: '#d4d5d4', 1: '#c9b800' },
+    atomInteraction: { ...ATOM_INTERACTION_COLORS, 'carbonyl': '#606060', 'covalent': '#606060', 'hbond': '#0097a7', 'hydrophobic': '#c9a400', 'vdw': '#606060' },
+    chainAnnotated: '#a9c48a',
+    interfaceBackground: '#c0c0c0',
+    bfactor: { colors: 'Viridis', low: '#440154', high: '#fde725', description: 'Viridis color scheme (0 = purple, 120 = yellow)' },
+};
+
+/** Built-in color themes (`deuteranopia`, `protanopia`, `tritanopia` are variants of `light` safe for the color vision deficiency) */
+export const ColorThemes = {
+    light: LIGHT_THEME,
+    dark: DARK_THEME,
+    print: PRINT_THEME,
+    deuteranopia: colorVisionSafeTheme(LIGHT_THEME, ['deuteranopia']),
+    protanopia: colorVisionSafeTheme(LIGHT_THEME, ['protanopia']),
+    tritanopia: colorVisionSafeTheme(LIGHT_THEME, ['tritanopia']),
+} satisfies Record<string, ColorTheme>;
+
+export type ColorThemeName = keyof typeof ColorThemes;
+export const ColorThemeNames = Object.keys(ColorThemes) as ColorThemeName[];
+
+/** Decide if `name` is the name of a built-in color theme */
+export function isColorThemeName(name: string): name is ColorThemeName {
+    return (ColorThemeNames as string[]).includes(name);
+}
+
+/** Return `theme` if it is a theme object, or the built-in theme with this name (throw if unknown) */
+export function resolveColorTheme(theme: ColorTheme | ColorThemeName): ColorTheme {
+    if (typeof theme !== 'string') return theme;
+    if (!isColorThemeName(theme)) throw new Error(`Unknown color theme "${theme}" (expected one of: ${ColorThemeNames.join(', ')})`);
+    return ColorThemes[theme];
 }
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+import { CompositeDataProvider } from './composite-data-provider';
+import type { IDataProvider, ResidueRecord } from './data-provider';
+
+
+/** Provider implementing only the methods given in `methods` (others throw) */
+function stubProvider(methods: Partial<IDataProvider>): IDataProvider {
+    return new Proxy(methods, {
+        get: (target, method: string) => (target as any)[method] ?? (() => { throw new Error(`Unexpected call ${method}`); }),
+    }) as IDataProvider;
+}
+
+function residue(labelSeqId: number, compoundId: string): ResidueRecord {
+    return { entityId: '1', labelAsymId: 'A', labelSeqId, authAsymId: 'A', authSeqId: labelSeqId, authInsCode: '', compoundId, compoundName: compoundId };
+}
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+
+test("strategy 'first' uses the first non-empty result", async () => {
+    const second = jest.fn(async () => ['X-ray diffraction']);
+    const third = jest.fn(async () => ['Solution NMR']);
+    const provider = new CompositeDataProvider([
+        stubProvider({ experimentalMethods: async () => [] }),
+        stubProvider({ experimentalMethods: second }),
+        stubProvider({ experimentalMethods: third }),
+    ]);
+    expect(await provider.experimentalMethods('1abc')).toEqual(['X-ray diffraction']);
+    expect(second).toHaveBeenCalledWith('1abc', undefined);
+    expect(third).not.toHaveBeenCalled();
+
+    const allEmpty = new CompositeDataProvider([stubProvider({ authChainCoverages: async () => ({}) }), stubProvider({ authChainCoverages: async () => ({}) })]);
+    expect(await allEmpty.authChainCoverages('1abc')).toEqual({});
+});
+
+test("strategy 'first' skips failing providers", async () => {
+    const provider = new CompositeDataProvider([
+        stubProvider({ experimentalMethods: async () => { throw new Error('API call failed with code 500'); } }),
+        stubProvider({ experimentalMethods: async () => ['X-RAY DIFFRACTION'] }),
+    ]);
+    expect(await provider.experimentalMethods('1abc')).toEqual(['X-RAY DIFFRACTION']);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('API call failed with code 500'));
+
+    const emptyAfterFailure = new CompositeDataProvider([
+        stubProvider({ experimentalMethods: async () => [] }),
+        stubProvider({ experimentalMethods: async () => { throw new Error('Model not found'); } }),
+    ]);
+    expect(await emptyAfterFailure.experimentalMethods('1abc')).toEqual([]);
+
+    const allFailing = new CompositeDataProvider([
+        stubProvider({ experimentalMethods: async () => { throw new Error('First failure'); } }),
+        stubProvider({ experimentalMethods: async () => { throw new Error('Second failure'); } }),
+    ]);
+    await expect(allFailing.experimentalMethods('1abc')).rejects.toThrow('First failure');
+});
+
+test("strategy 'first' does not skip aborted providers", async () => {
+    const abortError = Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+    const next = jest.fn(async () => ['X-ray diffraction']);
+    const provider = new CompositeDataProvider([
+        stubProvider({ experimentalMethods: async () => { throw abortError; } }),
+        stubProvider({ experimentalMethods: next }),
+    ]);
+    await expect(provider.experimentalMethods('1abc')).rejects.toBe(abortError);
+    expect(next).not.toHaveBeenCalled();
+});
+
+test("strategy 'merge' unites modified residues", async () => {
+    // PDBe API misses some modified residues which are found in the model (e.g. 4G6, 4FU in 2n4n)
+    const provider = new CompositeDataProvider([
+        stubProvider({ modifiedResidues: async () => [residue(3, 'MSE')] }),
+        stubProvider({ modifiedResidues: async () => [{ ...residue(3, 'MSE'), compoundName: 'SELENOMETHIONINE' }, residue(5, '4G6'), residue(7, '4FU')] }),
+    ]);
+    expect(await provider.modifiedResidues('2n4n')).toEqual([residue(3, 'MSE'), residue(5, '4G6'), residue(7, '4FU')]);
+});
+
+test("strategy 'merge' skips failing providers", async () => {
+    // E.g. model file cannot be fetched or parsed, but API data are available
+    const provider = new CompositeDataProvider([
+        stubProvider({ modifiedResidues: async () => [residue(3, 'MSE')] }),
+        stubProvider({ modifiedResidues: async () => { throw new Error('Failed to parse model'); } }),
+    ]);
+    expect(await provider.modifiedResidues('1abc')).toEqual([residue(3, 'MSE')]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to parse model'));
+
+    const bySiftsMappings = new CompositeDataProvider([
+        stubProvider({ siftsMappings: async () => { throw new Error('API call failed with code 500'); } }),
+        stubProvider({ siftsMappings: async () => ({}) }),
+    ], { siftsMappingsByEntity: 'merge' });
+    expect(await bySiftsMappings.siftsMappingsByEntity('1abc')).toEqual({});
+
+    const allFailing = new CompositeDataProvider([
+        stubProvider({ modifiedResidues: async () => { throw new Error('First failure'); } }),
+        stubProvider({ modifiedResidues: async () => { throw new Error('Second failure'); } }),
+    ]);
+    await expect(allFailing.modifiedResidues('1abc')).rejects.toThrow('First failure');
+});
+
+test("strategy 'merge' does not skip aborted providers", async () => {
+    const abortError = Object.assign(new Error('This operation was aborted'), { name: 'AbortError' });
+    const provider = new CompositeDataProvider([
+        stubProvider({ modifiedResidues: async () => [residue(3, 'MSE')] }),
+        stubProvider({ modifiedResidues: async () => { throw abortError; } }),
+    ]);
+    await expect(provider.modifiedResidues('1abc')).rejects.toBe(abortError);
+});
+
+test("strategy 'merge' for other methods", async () => {
+    const provider = new CompositeDataProvider([
+        stubProvider({
+            assemblies: async () => [{ assemblyId: '1', form: 'homo', preferred: true, name: 'dimer' }],
+            chainsInAssemblies: async () => ({ A: { assemblies: ['1'] } }),
+        }),
+        stubProvider({
+            assemblies: async () => [{ assemblyId: '1', form: 'homo', preferred: false, name: 'monomer' }, { assemblyId: '2', form: 'homo', preferred: true, name: 'monomer' }],
+            chainsInAssemblies: async () => ({ A: { assemblies: ['1', '2'] }, B: { assemblies: ['2'] } }),
+        }),
+    ], { assemblies: 'merge', chainsInAssemblies: 'merge' });
+    expect(await provider.assemblies('1abc')).toEqual([
+        { assemblyId: '1', form: 'homo', preferred: true, name: 'dimer' },
+        { assemblyId: '2', form: 'homo', preferred: false, name: 'monomer' }, // only one preferred assembly
+    ]);
+    expect(await provider.chainsInAssemblies('1abc')).toEqual({ A: { assemblies: ['1', '2'] }, B: { assemblies: ['2'] } });
+});
+
+test("strategy 'merge' is rejected for methods without merger", () => {
+    expect(() => new CompositeDataProvider([stubProvider({})], { atomInteractions: 'merge' })).toThrow("Strategy 'merge' is not supported for method atomInteractions");
+});
@@ -0,0 +1,245 @@
+import { isAbortError } from './abort';
+import type { AssemblyRecord, DomainRecord, IDataProvider, LlmAnnotations, ResidueRecord } from './data-provider';
+import { sortDomainsByEntity } from './data-provider';
+import { unique } from './helpers';
+
+
+/** Name of an `IDataProvider` method */
+export type DataProviderMethod = keyof IDataProvider;
+
+/** Result type of an `IDataProvider` method */
+type DataProviderResult<M extends DataProviderMethod> = Awaited<ReturnType<IDataProvider[M]>>;
+
+/** How to combine results of the same method from multiple providers:
+ * - 'first' - use result from the first provider that returns non-empty data (later providers are not called at all);
+ *   a provider that fails is skipped like one returning empty data, the error is only rethrown if all providers fail
+ * - 'merge' - call all providers and merge their results (data from earlier providers take precedence in case of conflict);
+ *   failing providers are left out of the merge, the error is only rethrown if all providers fail */
+export type CombineStrategy = 'first' | 'merge';
+
+export const DefaultCombineStrategies: { [M in DataProviderMethod]: CombineStrategy } = {
+    assemblies: 'first',
+    entities: 'first',
+    ligands: 'first',
+    modifiedResidues: 'merge', // PDBe API misses some modified residues (e.g. 4G6, 4FU in 2n4n)
+    entitiesInAssemblies: 'first',
+    chainsInAssemblies: 'first',
+    siftsMappings: 'first',
+    siftsMappingsByEntity: 'first',
+    authChainCoverages: 'first',
+    experimentalMethods: 'first',
+    pdbeStructureQualityReport: 'first',
+    atomInteractions: 'first',
+    llmAnnotations: 'first',
+};
+
+
+/** `IDataProvider` combining an ordered list of other providers, e.g. PDBe API with fallback to data derived from the model:
+ * `new CompositeDataProvider([new ApiDataProvider(apiClient), new ModelDataProvider(modelProvider)])`.
+ *
+ * Combining strategy can be set for each method separately (see `CombineStrategy`), defaults are in `DefaultCombineStrategies`. */
+export class CompositeDataProvider implements IDataProvider {
+    private readonly strategies: { [M in DataProviderMethod]: CombineStrategy };
+
+    constructor(private readonly providers: IDataProvider[], strategies?: Partial<{ [M in DataProviderMethod]: CombineStrategy }>) {
+        if (providers.length === 0) throw new Error('CompositeDataProvider needs at least one provider');
+        this.strategies = { ...DefaultCombineStrategies, ...strategies };
+        for (const method in this.strategies) {
+            const supportsMerge = method === 'siftsMappingsByEntity' || Mergers[method as DataProviderMethod] !== undefined;
+            if (this.strategies[method as DataProviderMethod] === 'merge' && !supportsMerge) {
+                throw new Error(`Strategy 'merge' is not supported for method ${method}`);
+            }
+        }
+    }
+
+    private async combine<M extends DataProviderMethod>(method: M, call: (provider: IDataProvider) => Promise<DataProviderResult<M>>): Promise<DataProviderResult<M>> {
+        if (this.strategies[method] === 'merge') {
+            const results = await allSucceeded(method, this.providers.map(call));
+            const merge = Mergers[method] as Merger<DataProviderResult<M>>;
+            return merge(results);
+        }
+        let result: { value: DataProviderResult<M> } | undefined = undefined;
+        let firstError: unknown = undefined;
+        for (const provider of this.providers) {
+            let value: DataProviderResult<M>;
+            try {
+                value = await call(provider);
+            } catch (err) {
+                if (isAbortError(err)) throw err;
+                warnSkipped(method, err);
+                firstError ??= err;
+                continue;
+            }
+            if (!isEmpty(value)) return value;
+            result = { value };
+        }
+        if (result === undefined) throw firstError; // all providers failed
+        return result.value; // empty result from the last provider that did not fail
+    }
+
+    assemblies(entryId: string, signal?: AbortSignal) {
+        return this.combine('assemblies', p => p.assemblies(entryId, signal));
+    }
+    entities(pdbId: string, signal?: AbortSignal) {
+        return this.combine('entities', p => p.entities(pdbId, signal));
+    }
+    ligands(pdbId: string, signal?: AbortSignal) {
+        return this.combine('ligands', p => p.ligands(pdbId, signal));
+    }
+    modifiedResidues(pdbId: string, signal?: AbortSignal) {
+        return this.combine('modifiedResidues', p => p.modifiedResidues(pdbId, signal));
+    }
+    entitiesInAssemblies(pdbId: string, signal?: AbortSignal) {
+        return this.combine('entitiesInAssemblies', p => p.entitiesInAssemblies(pdbId, signal));
+    }
+    chainsInAssemblies(pdbId: string, signal?: AbortSignal) {
+        return this.combine('chainsInAssemblies', p => p.chainsInAssemblies(pdbId, signal));
+    }
+    siftsMappings(pdbId: string, signal?: AbortSignal) {
+        return this.combine('siftsMappings', p => p.siftsMappings(pdbId, signal));
+    }
+    async siftsMappingsByEntity(pdbId: string, signal?: AbortSignal) {
+        if (this.strategies.siftsMappingsByEntity === 'merge') {
+            // Merging via `siftsMappings` is easier than merging the nested by-entity structure
+            const results = await allSucceeded('siftsMappingsByEntity', this.providers.map(p => p.siftsMappings(pdbId, signal)));
+            return sortDomainsByEntity(mergeSiftsMappings(results));
+        }
+        return this.combine('siftsMappingsByEntity', p => p.siftsMappingsByEntity(pdbId, signal));
+    }
+    authChainCoverages(pdbId: string, signal?: AbortSignal) {
+        return this.combine('authChainCoverages', p => p.authChainCoverages(pdbId, signal));
+    }
+    experimentalMethods(pdbId: string, signal?: AbortSignal) {
+        return this.combine('experimentalMethods', p => p.experimentalMethods(pdbId, signal));
+    }
+    pdbeStructureQualityReport(pdbId: string, signal?: AbortSignal) {
+        return this.combine('pdbeStructureQualityReport', p => p.pdbeStructureQualityReport(pdbId, signal));
+    }
+    atomInteractions(pdbId: string, authAsymId: string, authSeqId: number, signal?: AbortSignal) {
+        return this.combine('atomInteractions', p => p.atomInteractions(pdbId, authAsymId, authSeqId, signal));
+    }
+    llmAnnotations(pdbId: string, signal?: AbortSignal) {
+        return this.combine('llmAnnotations', p => p.llmAnnotations(pdbId, signal));
+    }
+}
+
+
+type Merger<T> = (results: T[]) => T;
+
+/** Functions for merging results of the same method from multiple providers (earlier results take precedence).
+ * Methods without a merger only support strategy 'first'. */
+const Mergers: { [M in DataProviderMethod]?: Merger<DataProviderResult<M>> } = {
+    assemblies: mergeAssemblies,
+    entities: results => mergeRecords(results),
+    ligands: mergeResidues,
+    modifiedResidues: mergeResidues,
+    entitiesInAssemblies: results => mergeAssemblyLists(results),
+    chainsInAssemblies: results => mergeAssemblyLists(results),
+    siftsMappings: mergeSiftsMappings,
+    authChainCoverages: results => mergeRecords(results),
+    experimentalMethods: results => unique(results.flat()),
+    llmAnnotations: mergeLlmAnnotations,
+};
+
+/** Wait for all `promises` and return values of those that fulfilled (in the original order), skipping failed ones.
+ * Rethrow abort error if any promise was aborted, rethrow the first error if all promises failed. */
+async function allSucceeded<T>(method: DataProviderMethod, promises: Promise<T>[]): Promise<T[]> {
+    const settled = await Promise.allSettled(promises);
+    const aborted = settled.find(result => result.status === 'rejected' && isAbortError(result.reason));
+    if (aborted) throw (aborted as PromiseRejectedResult).reason;
+    const values: T[] = [];
+    for (const result of settled) {
+        if (result.status === 'fulfilled') values.push(result.value);
+        else warnSkipped(method, result.reason);
+    }
+    if (values.length === 0) throw (settled[0] as PromiseRejectedResult).reason; // all providers failed
+    return values;
+}
+
+function warnSkipped(method: DataProviderMethod, error: unknown): void {
+    console.warn(`Skipping data provider which failed in ${method}: ${error}`);
+}
+
+/** Decide if a result should be treated as "no data" (undefined, empty array, or empty object) */
+function isEmpty(result: unknown): boolean {
+    if (result === undefined || result === null) return true;
+    if (Array.isArray(result)) return result.length === 0;
+    if (typeof result === 'object') return Object.keys(result).length === 0;
+    return false;
+}
+
+/** Union of assemblies by assembly ID. Preferred assembly is taken from the first result which has any. */
+function mergeAssemblies(results: AssemblyRecord[][]): AssemblyRecord[] {
+    const out: { [assemblyId: string]: AssemblyRecord } = {};
+    let hasPreferred = false;
+    for (const result of results) {
+        for (const assembly of result) {
+            out[assembly.assemblyId] ??= { ...assembly, preferred: assembly.preferred && !hasPreferred };
+        }
+        hasPreferred ||= result.some(ass => ass.preferred);
+    }
+    return Object.values(out);
+}
+
+/** Union of residues, identified by label_asym_id and label_seq_id */
+function mergeResidues(results: ResidueRecord[][]): ResidueRecord[] {
+    const out: ResidueRecord[] = [];
+    const seen = new Set<string>();
+    for (const result of results) {
+        for (const residue of result) {
+            const key = `${residue.labelAsymId}:${residue.labelSeqId}`;
+            if (seen.has(key)) continue;
+            seen.add(key);
+            out.push(residue);
+        }
+    }
+    return out;
+}
+
+/** Union of keys, value for each key is taken from the first result which has it */
+function mergeRecords<T>(results: { [key: string]: T }[]): { [key: string]: T } {
+    const out: { [key: string]: T } = {};
+    for (const result of results) {
+        for (const key in result) {
+            if (!(key in out)) out[key] = result[key];
+        }
+    }
+    return out;
+}
+
+function mergeAssemblyLists(results: { [id: string]: { assemblies: string[] } }[]): { [id: string]: { assemblies: string[] } } {
+    const out: { [id: string]: { assemblies: string[] } } = {};
+    for (const result of results) {
+        for (const id in result) {
+            out[id] = { assemblies: unique([...out[id]?.assemblies ?? [], ...result[id].assemblies]) };
+        }
+    }
+    return out;
+}
+
+/** Union of source-family pairs, domains for each family are taken from the first result which has the family */
+function mergeSiftsMappings(results: { [source: string]: { [family: string]: DomainRecord[] } }[]): { [source: string]: { [family: string]: DomainRecord[] } } {
+    const out: { [source: string]: { [family: string]: DomainRecord[] } } = {};
+    for (const result of results) {
+        for (const source in result) {
+            out[source] = mergeRecords([out[source] ?? {}, result[source]]);
+        }
+    }
+    return out;
+}
+
+/** Union of residue annotations; annotations for each residue are taken from the first result which has any */
+function mergeLlmAnnotations(results: LlmAnnotations[]): LlmAnnotations {
+    const out: LlmAnnotations = {};
+    for (const result of results) {
+        for (const entityId in result) {
+            for (const labelAsymId in result[entityId]) {
+                const chainOut = (out[entityId] ??= {})[labelAsymId] ??= {};
+                for (const labelSeqId in result[entityId][labelAsymId]) {
+                    chainOut[labelSeqId] ??= result[entityId][labelAsymId][labelSeqId];
+                }
+            }
+        }
+    }
+    return out;
+}
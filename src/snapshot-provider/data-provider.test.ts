@@ -0,0 +1,112 @@
+/**
+ * @jest-environment node
+ */
+
+import { PdbeApiClient } from './data-provider';
+
+
+/** Minimal stand-in for fetch `Response` */
+function mockResponse(status: number, body?: unknown, headers: Record<string, string> = {}) {
+    return { status, ok: status >= 200 && status < 300, headers: { get: (name: string) => headers[name] ?? null }, json: async () => body };
+}
+
+/** Fetch implementation which never responds, only rejects when aborted */
+function hangingFetch(url: string, init: { signal: AbortSignal }) {
+    return new Promise((_, reject) => {
+        init.signal.addEventListener('abort', () => reject(init.signal.reason), { once: true });
+    });
+}
+
+/** Wait until pending timers and promise callbacks have run */
+function flush() {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+const originalFetch = global.fetch;
+let fetchMock: jest.Mock;
+
+beforeEach(() => {
+    fetchMock = jest.fn();
+    global.fetch = fetchMock;
+    jest.spyOn(console, 'log').mockImplementation(() => { });
+    jest.spyOn(console, 'warn').mockImplementation(() => { });
+});
+
+afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+});
+
+
+test('request aborted by all callers is not rejoined', async () => {
+    // First fetch ignores the abort signal, so the aborted request never settles
+    fetchMock.mockReturnValueOnce(new Promise(() => { })).mockResolvedValueOnce(mockResponse(200, { answer: 42 }));
+    const client = new PdbeApiClient('https://api.test/', { retries: 0, timeoutMs: 0 });
+
+    const first = new AbortController();
+    const firstResult = client.get('entry/1abc', first.signal);
+    await flush();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    first.abort();
+    await expect(firstResult).rejects.toMatchObject({ name: 'AbortError' });
+
+    const second = new AbortController();
+    await expect(client.get('entry/1abc', second.signal)).resolves.toEqual({ answer: 42 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+});
+
+test('request is not started with an already aborted signal', async () => {
+    const client = new PdbeApiClient('https://api.test', { retries: 0 });
+    const controller = new AbortController();
+    controller.abort();
+    await expect(client.get('entry/1abc', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).not.toHaveBeenCalled();
+});
+
+test('request is shared by concurrent callers', async () => {
+    fetchMock.mockResolvedValue(mockResponse(200, { answer: 42 }));
+    const client = new PdbeApiClient('https://api.test', { retries: 0 });
+    const results = await Promise.all([client.get('entry/1abc'), client.get('entry/1abc')]);
+    expect(results).toEqual([{ answer: 42 }, { answer: 42 }]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.test/entry/1abc');
+});
+
+test('retry on status 5xx and 429', async () => {
+    fetchMock
+        .mockResolvedValueOnce(mockResponse(503))
+        .mockResolvedValueOnce(mockResponse(429, undefined, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(mockResponse(200, { answer: 42 }));
+    const client = new PdbeApiClient('https://api.test', { retries: 2, retryDelayMs: 1 });
+    await expect(client.get('entry/1abc')).resolves.toEqual({ answer: 42 });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+
+    fetchMock.mockReset().mockResolvedValue(mockResponse(500));
+    await expect(client.get('entry/2abc')).rejects.toThrow('API call failed with code 500');
+    expect(fetchMock).toHaveBeenCalledTimes(3); // first attempt + 2 retries
+});
+
+test('retry after timeout', async () => {
+    fetchMock.mockImplementationOnce(hangingFetch).mockResolvedValueOnce(mockResponse(200, { answer: 42 }));
+    const client = new PdbeApiClient('https://api.test', { retries: 1, retryDelayMs: 1, timeoutMs: 20 });
+    await expect(client.get('entry/1abc')).resolves.toEqual({ answer: 42 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    fetchMock.mockReset().mockImplementation(hangingFetch);
+    const noRetryClient = new PdbeApiClient('https://api.test', { retries: 0, timeoutMs: 20 });
+    await expect(noRetryClient.get('entry/1abc')).rejects.toThrow('API call timed out after 20 ms');
+});
+
+test('failed requests are not cached, 404 responses are', async () => {
+    fetchMock
+        .mockResolvedValueOnce(mockResponse(400))
+        .mockResolvedValueOnce(mockResponse(200, { answer: 42 }))
+        .mockResolvedValueOnce(mockResponse(404));
+    const client = new PdbeApiClient('https://api.test', { retries: 3, retryDelayMs: 1 });
+    await expect(client.get('entry/1abc')).rejects.toThrow('API call failed with code 400'); // not retryable
+    await expect(client.get('entry/1abc')).resolves.toEqual({ answer: 42 });
+    await expect(client.get('entry/1abc')).resolves.toEqual({ answer: 42 });
+    await expect(client.get('missing/1abc')).resolves.toBeUndefined();
+    await expect(client.get('missing/1abc')).resolves.toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+});
@@ -1,65 +1,252 @@
+import { abortReason, delay, SharedOperation, throwIfAborted } from './abort';
+import { type ApiEndpoint, ApiSchemas, type DataValidationWarning, validateResponse, type ValidationMode } from './api-validation';
 import { unique } from './helpers';
+import { type IResponseCache, MemoryResponseCache, type ResponseCacheStats } from './response-cache';
 
 
 export interface IPdbeApiClient {
     /** Resolve to parsed JSON object obtained from API endpoint, or `undefined` if status code is 404.
+     * Reject if `signal` is aborted before the response is available.
      * 
      * E.g. `await get('pdb/entry/summary/1tqn')` -> `{ 1tqn: [...] }` (corresponds to https://www.ebi.ac.uk/pdbe/api/v2/pdb/entry/summary/1tqn) */
-    get<T>(relativeUrl: string): Promise<T | undefined>,
+    get<T>(relativeUrl: string, signal?: AbortSignal): Promise<T | undefined>,
 }
 
 
+export interface PdbeApiClientOptions {
+    /** Maximum number of retries after a failed attempt (network error, timeout, or status code 429 or 5xx) */
+    retries: number,
+    /** Delay before the first retry in milliseconds, doubled for each next retry (`Retry-After` response header takes precedence) */
+    retryDelayMs: number,
+    /** Timeout for one attempt in milliseconds (0 means no timeout) */
+    timeoutMs: number,
+    /** Cache for responses (default: new `MemoryResponseCache` with default options) */
+    cache?: IResponseCache,
+}
+
+export const DefaultPdbeApiClientOptions: PdbeApiClientOptions = {
+    retries: 3,
+    retryDelayMs: 1000,
+    timeoutMs: 30_000,
+};
+
+
+/** Response of PDBe API as stored in caches and fixture bundles (`body` is the parsed JSON) */
+export type PdbeApiResponse = { status: 200, body: unknown } | { status: 404 };
+
 export class PdbeApiClient implements IPdbeApiClient {
     private readonly apiBaseUrl: string;
+    private readonly options: PdbeApiClientOptions;
+    private readonly cache: IResponseCache;
 
-    /** Cache for currently running or resolved promises */
-    private readonly cache: { [url: string]: Promise<any> } = {};
+    /** Currently running requests (removed when settled, successful responses are then served by `cache`) */
+    private readonly pending: { [url: string]: SharedOperation<any> } = {};
 
-    constructor(apiBaseUrl: string) {
+    constructor(apiBaseUrl: string, options?: Partial<PdbeApiClientOptions>) {
         this.apiBaseUrl = apiBaseUrl.replace(/\/$/, ''); // trim final slash
+        this.options = { ...DefaultPdbeApiClientOptions, ...options };
+        this.cache = this.options.cache ?? new MemoryResponseCache();
+    }
+
+    /** Statistics of the response cache (e.g. to check hit rate) */
+    cacheStats(): ResponseCacheStats {
+        return this.cache.stats();
     }
 
-    private async getWithoutCache<T>(relativeUrl: string): Promise<T | undefined> {
+    /** Perform one attempt to get data, without retries */
+    private async getWithoutCache<T>(relativeUrl: string, signal: AbortSignal): Promise<T | undefined> {
         const url = `${this.apiBaseUrl}/${relativeUrl}`;
+        throwIfAborted(signal); // abort listener would never fire for an already aborted signal
         console.log('GET', url);
-        const response = await fetch(url);
-        if (response.status === 404) return undefined; // PDBe API returns 404 in some cases (e.g. when there are no modified residues)
-        if (!response.ok) throw new Error(`API call failed with code ${response.status} (${url})`);
-        return await response.json();
+        const attemptController = new AbortController();
+        const onAbort = () => attemptController.abort(abortReason(signal));
+        signal.addEventListener('abort', onAbort, { once: true });
+        let timedOut = false;
+        const timeout = this.options.timeoutMs > 0 ?
+            setTimeout(() => { timedOut = true; attemptController.abort(); }, this.options.timeoutMs)
+            : undefined;
+        try {
+            let response: Response;
+            try {
+                response = await fetch(url, { signal: attemptController.signal });
+            } catch (err) {
+                if (signal.aborted) throw err;
+                if (timedOut) throw new RetryableApiError(`API call timed out after ${this.options.timeoutMs} ms (${url})`);
+                throw new RetryableApiError(`API call failed: ${err} (${url})`);
+            }
+            if (response.status === 404) return undefined; // PDBe API returns 404 in some cases (e.g. when there are no modified residues)
+            if (response.status === 429 || response.status >= 500) {
+                throw new RetryableApiError(`API call failed with code ${response.status} (${url})`, parseRetryAfter(response.headers.get('Retry-After')));
+            }
+            if (!response.ok) throw new Error(`API call failed with code ${response.status} (${url})`);
+            return await response.json();
+        } finally {
+            clearTimeout(timeout);
+            signal.removeEventListener('abort', onAbort);
+        }
+    }
+
+    private async getWithRetries<T>(relativeUrl: string, signal: AbortSignal): Promise<T | undefined> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.getWithoutCache<T>(relativeUrl, signal);
+            } catch (err) {
+                if (!(err instanceof RetryableApiError) || attempt >= this.options.retries || signal.aborted) throw err;
+                const retryDelay = err.retryAfterMs ?? this.options.retryDelayMs * 2 ** attempt;
+                console.warn(`${err.message}, retrying in ${retryDelay} ms`);
+                await delay(retryDelay, signal);
+            }
+        }
+    }
+
+    /** Get response from cache, or fetch it and store it to cache */
+    private async getWithCache<T>(relativeUrl: string, signal: AbortSignal): Promise<T | undefined> {
+        const cached = await this.cache.get(relativeUrl).catch(err => {
+            console.warn(`Failed to read response cache: ${err}`);
+            return undefined;
+        });
+        if (cached !== undefined) return cached.status === 404 ? undefined : cached.body as T;
+        const body = await this.getWithRetries<T>(relativeUrl, signal);
+        const response: PdbeApiResponse = body === undefined ? { status: 404 } : { status: 200, body };
+        await this.cache.set(relativeUrl, response).catch(err => console.warn(`Failed to write response cache: ${err}`));
+        return body;
+    }
+
+    get<T>(relativeUrl: string, signal?: AbortSignal): Promise<T | undefined> {
+        if (signal?.aborted) return Promise.reject(abortReason(signal));
+        let request = this.pending[relativeUrl];
+        if (!request || request.aborted) { // don't join a request aborted by all its previous callers
+            const newRequest = new SharedOperation(requestSignal => this.getWithCache<T>(relativeUrl, requestSignal));
+            const onSettled = () => {
+                if (this.pending[relativeUrl] === newRequest) delete this.pending[relativeUrl];
+            };
+            newRequest.promise.then(onSettled, onSettled); // failed requests are not cached, so they will be retried on the next call
+            request = this.pending[relativeUrl] = newRequest;
+        }
+        return request.join(signal);
+    }
+}
+
+/** Error after which it makes sense to repeat the request */
+class RetryableApiError extends Error {
+    constructor(message: string, readonly retryAfterMs?: number) {
+        super(message);
+    }
+}
+
+/** Parse value of `Retry-After` HTTP header (either delay in seconds or HTTP date) to milliseconds */
+function parseRetryAfter(header: string | null): number | undefined {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(seconds, 0) * 1000;
+    const date = Date.parse(header);
+    if (!isNaN(date)) return Math.max(date - Date.now(), 0);
+    return undefined;
+}
+
+
+/** Recorded PDBe API responses, mapped by relative URL (including query string) */
+export interface PdbeApiFixtureBundle {
+    [relativeUrl: string]: PdbeApiResponse,
+}
+
+/** Wraps another API client and records all responses that pass through it, so they can be replayed later by `ReplayPdbeApiClient`. */
+export class RecordingPdbeApiClient implements IPdbeApiClient {
+    private readonly recorded: PdbeApiFixtureBundle = {};
+
+    constructor(private readonly client: IPdbeApiClient) { }
+
+    async get<T>(relativeUrl: string, signal?: AbortSignal): Promise<T | undefined> {
+        const body = await this.client.get<T>(relativeUrl, signal);
+        this.recorded[relativeUrl] = body === undefined ? { status: 404 } : { status: 200, body };
+        return body;
     }
-    get<T>(relativeUrl: string): Promise<T | undefined> {
-        return this.cache[relativeUrl] ??= this.getWithoutCache<T>(relativeUrl);
+
+    /** Return all responses recorded so far (sorted by URL, to get stable output) */
+    getBundle(): PdbeApiFixtureBundle {
+        const out: PdbeApiFixtureBundle = {};
+        for (const url of Object.keys(this.recorded).sort()) {
+            out[url] = this.recorded[url];
+        }
+        return out;
+    }
+}
+
+/** Serves responses from a bundle recorded by `RecordingPdbeApiClient`.
+ * Throws on any URL not present in the bundle (rather than pretending 404), so that missing fixtures don't go unnoticed. */
+export class ReplayPdbeApiClient implements IPdbeApiClient {
+    constructor(private readonly bundle: PdbeApiFixtureBundle) { }
+
+    async get<T>(relativeUrl: string, signal?: AbortSignal): Promise<T | undefined> {
+        throwIfAborted(signal);
+        if (!Object.hasOwn(this.bundle, relativeUrl)) throw new Error(`No recorded response for ${relativeUrl}`); // don't resolve e.g. 'constructor' from prototype
+        const record = this.bundle[relativeUrl];
+        if (record.status === 404) return undefined;
+        return record.body as T;
     }
 }
 
 
 export interface IDataProvider {
-    assemblies(entryId: string): Promise<AssemblyRecord[]>,
-    entities(pdbId: string): Promise<{ [entityId: string]: EntityRecord }>,
-    ligands(pdbId: string): Promise<ResidueRecord[]>,
-    modifiedResidues(pdbId: string): Promise<ResidueRecord[]>,
-    entitiesInAssemblies(pdbId: string): Promise<{ [entityId: string]: { assemblies: string[] } }>,
-    chainsInAssemblies(pdbId: string): Promise<{ [labelAsymId: string]: { assemblies: string[] } }>,
-    siftsMappings(pdbId: string): Promise<{ [source: string]: { [family: string]: DomainRecord[] } }>,
-    siftsMappingsByEntity(pdbId: string): Promise<{ [source: string]: { [family: string]: { [entityId: string]: DomainRecord[] } } }>,
-    authChainCoverages(pdbId: string): Promise<{ [authAsymId: string]: number }>,
-    experimentalMethods(pdbId: string): Promise<string[]>,
-    pdbeStructureQualityReport(pdbId: string): Promise<ValidationApiData[string] | undefined>,
-    atomInteractions(pdbId: string, authAsymId: string, authSeqId: number): Promise<InteractionsApiData[string]>,
-    llmAnnotations(pdbId: string): Promise<LlmAnnotations>,
+    assemblies(entryId: string, signal?: AbortSignal): Promise<AssemblyRecord[]>,
+    entities(pdbId: string, signal?: AbortSignal): Promise<{ [entityId: string]: EntityRecord }>,
+    ligands(pdbId: string, signal?: AbortSignal): Promise<ResidueRecord[]>,
+    modifiedResidues(pdbId: string, signal?: AbortSignal): Promise<ResidueRecord[]>,
+    entitiesInAssemblies(pdbId: string, signal?: AbortSignal): Promise<{ [entityId: string]: { assemblies: string[] } }>,
+    chainsInAssemblies(pdbId: string, signal?: AbortSignal): Promise<{ [labelAsymId: string]: { assemblies: string[] } }>,
+    siftsMappings(pdbId: string, signal?: AbortSignal): Promise<{ [source: string]: { [family: string]: DomainRecord[] } }>,
+    siftsMappingsByEntity(pdbId: string, signal?: AbortSignal): Promise<{ [source: string]: { [family: string]: { [entityId: string]: DomainRecord[] } } }>,
+    authChainCoverages(pdbId: string, signal?: AbortSignal): Promise<{ [authAsymId: string]: number }>,
+    experimentalMethods(pdbId: string, signal?: AbortSignal): Promise<string[]>,
+    pdbeStructureQualityReport(pdbId: string, signal?: AbortSignal): Promise<ValidationApiData[string] | undefined>,
+    atomInteractions(pdbId: string, authAsymId: string, authSeqId: number, signal?: AbortSignal): Promise<InteractionsApiData[string]>,
+    llmAnnotations(pdbId: string, signal?: AbortSignal): Promise<LlmAnnotations>,
+}
+
+
+export interface ApiDataProviderOptions {
+    /** Validation of API responses: 'strict' throws `DataValidationError` on any unexpected data,
+     * 'lenient' fixes known quirks of the API (e.g. swapped domain start and end) and reports them via `onWarning` */
+    validation: ValidationMode,
+    /** Called for each quirk fixed in lenient mode (each is reported only once per provider) */
+    onWarning: (warning: DataValidationWarning) => void,
 }
 
+export const DefaultApiDataProviderOptions: ApiDataProviderOptions = {
+    validation: 'lenient',
+    onWarning: warning => console.warn(`PDBe API quirk in ${warning.endpoint} for entry ${warning.entryId} at ${warning.path}: ${warning.problem}`),
+};
+
 
 export class ApiDataProvider implements IDataProvider {
-    constructor(private readonly pdbeApiWrapper: IPdbeApiClient) { }
+    private readonly options: ApiDataProviderOptions;
+    /** Warnings reported so far (to avoid repeating the same warning whenever the same response is used) */
+    private readonly reportedWarnings = new Set<string>();
+
+    constructor(private readonly pdbeApiWrapper: IPdbeApiClient, options?: Partial<ApiDataProviderOptions>) {
+        this.options = { ...DefaultApiDataProviderOptions, ...options };
+    }
 
-    private get<T>(relativeUrl: string): Promise<T | undefined> {
-        return this.pdbeApiWrapper.get(relativeUrl);
+    /** Get validated response from API endpoint `{endpoint}/{pdbId}{suffix}` */
+    private async get<T>(endpoint: ApiEndpoint, pdbId: string, signal: AbortSignal | undefined, suffix: string = ''): Promise<T | undefined> {
+        const json = await this.pdbeApiWrapper.get<unknown>(`${endpoint}/${pdbId}${suffix}`, signal);
+        if (json === undefined) return undefined;
+        return validateResponse<T>(json, ApiSchemas[endpoint], {
+            endpoint,
+            entryId: pdbId,
+            mode: this.options.validation,
+            onWarning: warning => {
+                const key = `${warning.endpoint} ${warning.entryId} ${warning.path} ${warning.problem}`;
+                if (this.reportedWarnings.has(key)) return;
+                this.reportedWarnings.add(key);
+                this.options.onWarning(warning);
+            },
+        });
     }
 
 
-    async assemblies(pdbId: string): Promise<AssemblyRecord[]> {
-        const json = await this.get<SummaryApiData>(`pdb/entry/summary/${pdbId}`);
+    async assemblies(pdbId: string, signal?: AbortSignal): Promise<AssemblyRecord[]> {
+        const json = await this.get<SummaryApiData>('pdb/entry/summary', pdbId, signal);
         const assemblies: AssemblyRecord[] = [];
         for (const record of json?.[pdbId] ?? []) {
             for (const assembly of record.assemblies) {
@@ -75,8 +262,8 @@ export class ApiDataProvider implements IDataProvider {
     }
 
     /** Get type and residue code (chem_comp_id, when it makes sense) of entities within a PDB entry. */
-    async entities(pdbId: string): Promise<{ [entityId: string]: EntityRecord }> {
-        const json = await this.get<MoleculesApiData>(`pdb/entry/molecules/${pdbId}`);
+    async entities(pdbId: string, signal?: AbortSignal): Promise<{ [entityId: string]: EntityRecord }> {
+        const json = await this.get<MoleculesApiData>('pdb/entry/molecules', pdbId, signal);
         const result: { [entityId: string]: EntityRecord } = {};
         for (const record of json?.[pdbId] ?? []) {
             result[record.entity_id] = {
@@ -91,8 +278,8 @@ export class ApiDataProvider implements IDataProvider {
     }
 
     /** Get list of instances of ligands within a PDB entry. */
-    async ligands(pdbId: string): Promise<ResidueRecord[]> {
-        const json = await this.get<LigandMonomersApiData>(`pdb/entry/ligand_monomers/${pdbId}`);
+    async ligands(pdbId: string, signal?: AbortSignal): Promise<ResidueRecord[]> {
+        const json = await this.get<LigandMonomersApiData>('pdb/entry/ligand_monomers', pdbId, signal);
         const result: ResidueRecord[] = [];
         for (const record of json?.[pdbId] ?? []) {
             result.push({
@@ -110,8 +297,8 @@ export class ApiDataProvider implements IDataProvider {
     }
 
     /** Get list of instances of modified residues within a PDB entry. */
-    async modifiedResidues(pdbId: string): Promise<ResidueRecord[]> {
-        const json = await this.get<ModifiedResiduesApiData>(`pdb/entry/modified_AA_or_NA/${pdbId}`);
+    async modifiedResidues(pdbId: string, signal?: AbortSignal): Promise<ResidueRecord[]> {
+        const json = await this.get<ModifiedResiduesApiData>('pdb/entry/modified_AA_or_NA', pdbId, signal);
         const result: ResidueRecord[] = [];
         for (const record of json?.[pdbId] ?? []) {
             result.push({
@@ -128,8 +315,8 @@ export class ApiDataProvider implements IDataProvider {
         return result;
     }
 
-    async entitiesInAssemblies(pdbId: string) {
-        const json = await this.get<AssemblyApiData>(`pdb/entry/assembly/${pdbId}`);
+    async entitiesInAssemblies(pdbId: string, signal?: AbortSignal) {
+        const json = await this.get<AssemblyApiData>('pdb/entry/assembly', pdbId, signal);
         const out: Awaited<ReturnType<IDataProvider['entitiesInAssemblies']>> = {};
         for (const record of json?.[pdbId] ?? []) {
             for (const entity of record.entities ?? []) {
@@ -140,8 +327,8 @@ export class ApiDataProvider implements IDataProvider {
         return out;
     }
 
-    async chainsInAssemblies(pdbId: string) {
-        const json = await this.get<AssemblyApiData>(`pdb/entry/assembly/${pdbId}`);
+    async chainsInAssemblies(pdbId: string, signal?: AbortSignal) {
+        const json = await this.get<AssemblyApiData>('pdb/entry/assembly', pdbId, signal);
         const out: Awaited<ReturnType<IDataProvider['chainsInAssemblies']>> = {};
         for (const record of json?.[pdbId] ?? []) {
             for (const entity of record.entities ?? []) {
@@ -160,9 +347,9 @@ export class ApiDataProvider implements IDataProvider {
 
     /** Get list of instances of SIFTS domains within a PDB entry,
      * sorted by source (CATH, Pfam, Rfam, SCOP) and family (e.g. 1.10.630.10, PF00067). */
-    async siftsMappings(pdbId: string) {
-        const jsonProtein = await this.get<MappingsApiData>(`mappings/${pdbId}`);
-        const jsonNucleic = await this.get<MappingsApiData>(`nucleic_mappings/${pdbId}`);
+    async siftsMappings(pdbId: string, signal?: AbortSignal) {
+        const jsonProtein = await this.get<MappingsApiData>('mappings', pdbId, signal);
+        const jsonNucleic = await this.get<MappingsApiData>('nucleic_mappings', pdbId, signal);
         const entryDataProtein = jsonProtein?.[pdbId] ?? {};
         const entryDataNucleic = jsonNucleic?.[pdbId] ?? {};
         const entryData = { ...entryDataProtein, ...entryDataNucleic };
@@ -180,14 +367,14 @@ export class ApiDataProvider implements IDataProvider {
         }
         return result;
     }
-    async siftsMappingsByEntity(pdbId: string) {
-        const mappings = await this.siftsMappings(pdbId);
+    async siftsMappingsByEntity(pdbId: string, signal?: AbortSignal) {
+        const mappings = await this.siftsMappings(pdbId, signal);
         return sortDomainsByEntity(mappings);
     }
 
     /** Get absolute number of modelled residues in each chain */
-    async authChainCoverages(pdbId: string): Promise<{ [chainId: string]: number }> {
-        const json = await this.get<PolymerCoverageApiData>(`pdb/entry/polymer_coverage/${pdbId}`);
+    async authChainCoverages(pdbId: string, signal?: AbortSignal): Promise<{ [chainId: string]: number }> {
+        const json = await this.get<PolymerCoverageApiData>('pdb/entry/polymer_coverage', pdbId, signal);
         const coverages: { [authAsymId: string]: number } = {};
         for (const entity of json?.[pdbId]?.molecules ?? []) {
             for (const chain of entity.chains ?? []) {
@@ -203,8 +390,8 @@ export class ApiDataProvider implements IDataProvider {
     }
 
     /** Get list of experimental methods for a PDB entry. */
-    async experimentalMethods(pdbId: string): Promise<string[]> {
-        const json = await this.get<SummaryApiData>(`pdb/entry/summary/${pdbId}`);
+    async experimentalMethods(pdbId: string, signal?: AbortSignal): Promise<string[]> {
+        const json = await this.get<SummaryApiData>('pdb/entry/summary', pdbId, signal);
         const methods: string[] = [];
         for (const record of json?.[pdbId] ?? []) {
             for (const method of record.experimental_method ?? []) {
@@ -215,18 +402,18 @@ export class ApiDataProvider implements IDataProvider {
     }
 
     /** Get PDBe Structure Quality Report */
-    async pdbeStructureQualityReport(pdbId: string) {
-        const json = await this.get<ValidationApiData>(`validation/residuewise_outlier_summary/entry/${pdbId}`);
+    async pdbeStructureQualityReport(pdbId: string, signal?: AbortSignal) {
+        const json = await this.get<ValidationApiData>('validation/residuewise_outlier_summary/entry', pdbId, signal);
         return json?.[pdbId];
     }
 
-    async atomInteractions(pdbId: string, authAsymId: string, authSeqId: number) {
-        const json = await this.get<InteractionsApiData>(`pdb/bound_ligand_interactions/${pdbId}/${authAsymId}/${authSeqId}?preserve_case=true`);
+    async atomInteractions(pdbId: string, authAsymId: string, authSeqId: number, signal?: AbortSignal) {
+        const json = await this.get<InteractionsApiData>('pdb/bound_ligand_interactions', pdbId, signal, `/${authAsymId}/${authSeqId}?preserve_case=true`);
         return json?.[pdbId] ?? [];
     }
 
-    async llmAnnotations(pdbId: string) {
-        const json = await this.get<LlmSummaryApiData>(`pdb/entry/llm_annotations/summary/${pdbId}`);
+    async llmAnnotations(pdbId: string, signal?: AbortSignal) {
+        const json = await this.get<LlmSummaryApiData>('pdb/entry/llm_annotations/summary', pdbId, signal);
         const out: LlmAnnotations = {};
         for (const provider of json?.[pdbId]?.data ?? []) {
             for (const residue of provider.residueList) {
@@ -244,6 +431,26 @@ export class ApiDataProvider implements IDataProvider {
 }
 
 
+/** Wraps another `IDataProvider` and passes `signal` to all calls, so that all data requests within one task (e.g. creating one snapshot) can be cancelled at once. */
+export class SignalBoundDataProvider implements IDataProvider {
+    constructor(private readonly provider: IDataProvider, private readonly signal: AbortSignal) { }
+
+    assemblies(entryId: string) { return this.provider.assemblies(entryId, this.signal); }
+    entities(pdbId: string) { return this.provider.entities(pdbId, this.signal); }
+    ligands(pdbId: string) { return this.provider.ligands(pdbId, this.signal); }
+    modifiedResidues(pdbId: string) { return this.provider.modifiedResidues(pdbId, this.signal); }
+    entitiesInAssemblies(pdbId: string) { return this.provider.entitiesInAssemblies(pdbId, this.signal); }
+    chainsInAssemblies(pdbId: string) { return this.provider.chainsInAssemblies(pdbId, this.signal); }
+    siftsMappings(pdbId: string) { return this.provider.siftsMappings(pdbId, this.signal); }
+    siftsMappingsByEntity(pdbId: string) { return this.provider.siftsMappingsByEntity(pdbId, this.signal); }
+    authChainCoverages(pdbId: string) { return this.provider.authChainCoverages(pdbId, this.signal); }
+    experimentalMethods(pdbId: string) { return this.provider.experimentalMethods(pdbId, this.signal); }
+    pdbeStructureQualityReport(pdbId: string) { return this.provider.pdbeStructureQualityReport(pdbId, this.signal); }
+    atomInteractions(pdbId: string, authAsymId: string, authSeqId: number) { return this.provider.atomInteractions(pdbId, authAsymId, authSeqId, this.signal); }
+    llmAnnotations(pdbId: string) { return this.provider.llmAnnotations(pdbId, this.signal); }
+}
+
+
 /** Helper function to convert a domain mapping (describes one domain) from PDBeAPI format to a `DomainRecord`. */
 function extractDomainMappings(mappings: MappingsApiData[string][string][string]['mappings'], source: string, family: string, familyName: string): DomainRecord[] {
     const result: { [domainId: string]: DomainRecord } = {};
@@ -264,9 +471,6 @@ function extractDomainMappings(mappings: MappingsApiData[string][string][string]
             endResidue: mapping.end?.residue_number,
             segment: existingDomain ? existingDomain.chunks.length + 1 : 1,
         };
-        if (chunk.startResidue !== undefined && chunk.endResidue !== undefined && chunk.startResidue > chunk.endResidue) {
-            [chunk.startResidue, chunk.endResidue] = [chunk.endResidue, chunk.startResidue]; // you never know with the PDBe API, LOL
-        }
         if (existingDomain) {
             existingDomain.chunks.push(chunk);
         } else {
@@ -560,7 +764,7 @@ export interface ValidationApiData {
                     model_id: number,
                     residues: Array<{
                         residue_number: number,
-                        author_residue_number: number | string, // this hurts but yes, sometimes it's a string (e.g. 8eiu entity 6 chain F [auth A])
+                        author_residue_number: number, // sometimes served as string (e.g. 8eiu entity 6 chain F [auth A]), coerced to number by validation
                         author_insertion_code: string,
                         alt_code: string,
                         outlier_types: string[],
@@ -0,0 +1,81 @@
+import { type ColorTheme, ColorThemes } from './colors';
+import type { DomainRecord, EntityRecord } from './data-provider';
+import { getDomainColors, getDomainFamilyColors, getEntityColors, getSnfgColors, getSnfgMonosaccharides } from './helpers';
+
+
+function entity(id: string, type: string): EntityRecord {
+    return { id, name: `Entity ${id}`, type, compIds: [], chains: [] };
+}
+
+function domain(id: string, source: string, family: string, entityId: string): DomainRecord {
+    return { id, source, family, familyName: family, chunks: [{ entityId, chainId: 'A', authChainId: 'A', startResidue: 1, endResidue: 10, segment: 1 }] };
+}
+
+test('entity colors do not depend on other entities', () => {
+    const all = getEntityColors({ 1: entity('1', 'polypeptide(L)'), 2: entity('2', 'polypeptide(L)'), 3: entity('3', 'bound'), 4: entity('4', 'water') });
+    const some = getEntityColors({ 2: entity('2', 'polypeptide(L)'), 3: entity('3', 'bound') });
+    expect(some).toEqual({ 2: all[2], 3: all[3] });
+    expect(new Set(Object.values(all)).size).toBe(4);
+    expect(all[4]).toBe(ColorThemes.light.water);
+
+    // Same protein, same color, regardless of entity ID
+    const byAccession1 = getEntityColors({ 1: entity('1', 'polypeptide(L)') }, undefined, { uniprotAccessions: { 1: 'P69905' } });
+    const byAccession2 = getEntityColors({ 1: entity('1', 'polypeptide(L)'), 5: entity('5', 'polypeptide(L)') }, undefined, { uniprotAccessions: { 5: 'P69905' } });
+    expect(byAccession2[5]).toBe(byAccession1[1]);
+    expect(byAccession2[1]).not.toBe(byAccession2[5]);
+});
+
+test('domain colors match family colors', () => {
+    const domains = {
+        CATH: {
+            '1.10.10.10': { 1: [domain('d1', 'CATH', '1.10.10.10', '1'), domain('d2', 'CATH', '1.10.10.10', '1')] },
+            '3.40.50.300': { 2: [domain('d3', 'CATH', '3.40.50.300', '2')] },
+        },
+    };
+    const familyColors = getDomainFamilyColors(domains);
+    expect(getDomainFamilyColors({ CATH: { '3.40.50.300': domains.CATH['3.40.50.300'] } })['3.40.50.300']).toBe(familyColors['3.40.50.300']);
+    const domainColors = getDomainColors(domains);
+    expect(domainColors.d1).toBe(familyColors['1.10.10.10']);
+    expect(domainColors.d2).not.toBe(domainColors.d1);
+    expect(domainColors.d3).toBe(familyColors['3.40.50.300']);
+});
+
+test('fixed colors for ions and frequent ligands', () => {
+    const ligand = (id: string, compId: string) => ({ ...entity(id, 'bound'), compIds: [compId] });
+    const colors = getEntityColors({ 1: entity('1', 'polypeptide(L)'), 2: ligand('2', 'ZN'), 3: ligand('3', 'HEM'), 4: ligand('4', 'FE2'), 5: ligand('5', 'ACT') });
+    expect(colors[2]).toBe('#7d80b0');
+    expect(colors[3]).toBe(ColorThemes.light.fixedLigand.HEM);
+    expect(colors[4]).toBe(ColorThemes.light.ion.FE);
+    expect(colors[5]).toBe(getEntityColors({ 5: ligand('5', 'ACT') })[5]);
+
+    const theme: ColorTheme = { ...ColorThemes.light, ion: { ...ColorThemes.light.ion, ZN: '#123456' } };
+    expect(getEntityColors({ 2: ligand('2', 'ZN') }, theme)[2]).toBe('#123456');
+});
+
+test('SNFG monosaccharides', () => {
+    const monosaccharides = getSnfgMonosaccharides(['NAG', 'MAN', 'BMA', 'ALA']);
+    expect(Object.keys(monosaccharides)).toEqual(['NAG', 'MAN', 'BMA']);
+    expect(monosaccharides.NAG).toEqual({ abbr: 'GlcNAc', color: '#0090bc' });
+    expect(monosaccharides.BMA).toEqual(monosaccharides.MAN);
+});
+
+/** SNFG colours (https://www.ncbi.nlm.nih.gov/glycans/snfg.html) */
+const SNFG = { blue: '#0090bc', green: '#00a651', yellow: '#ffd400', orange: '#f47920', pink: '#f69ea1', purple: '#a54399', brown: '#a17a4d', red: '#ed1c24' };
+
+test.each([
+    ['GLC', 'Glc', SNFG.blue], ['BGC', 'Glc', SNFG.blue],
+    ['NAG', 'GlcNAc', SNFG.blue], ['NDG', 'GlcNAc', SNFG.blue],
+    ['GCU', 'GlcA', SNFG.blue], ['BDP', 'GlcA', SNFG.blue],
+    ['MAN', 'Man', SNFG.green], ['BMA', 'Man', SNFG.green],
+    ['RAM', 'Rha', SNFG.green], ['FRU', 'Fru', SNFG.green], ['ARA', 'Ara', SNFG.green], ['KDN', 'Kdn', SNFG.green],
+    ['GAL', 'Gal', SNFG.yellow], ['GLA', 'Gal', SNFG.yellow],
+    ['NGA', 'GalNAc', SNFG.yellow], ['A2G', 'GalNAc', SNFG.yellow], ['LDY', 'Lyx', SNFG.yellow],
+    ['XYS', 'Xyl', SNFG.orange], ['XYP', 'Xyl', SNFG.orange], ['GL0', 'Gul', SNFG.orange],
+    ['RIB', 'Rib', SNFG.pink],
+    ['SIA', 'Neu5Ac', SNFG.purple], ['SLB', 'Neu5Ac', SNFG.purple], ['ALL', 'All', SNFG.purple],
+    ['IDR', 'IdoA', SNFG.brown],
+    ['FUC', 'Fuc', SNFG.red], ['FUL', 'Fuc', SNFG.red],
+])('SNFG colour of %s (%s)', (compId, abbr, color) => {
+    expect(getSnfgMonosaccharides([compId])).toEqual({ [compId]: { abbr, color } });
+    expect(getSnfgColors([compId, 'ASN'])).toEqual({ [compId]: color });
+});
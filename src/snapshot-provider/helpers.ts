@@ -1,8 +1,12 @@
+import { decodeColor } from 'molstar/lib/extensions/mvs/helpers/utils';
 import type * as Builder from 'molstar/lib/extensions/mvs/tree/mvs/mvs-builder';
 import type { ColorT, HexColorT } from 'molstar/lib/extensions/mvs/tree/mvs/param-types';
+import { murmurHash3_32 } from 'molstar/lib/mol-data/util/hash-functions';
 import { IonNames } from 'molstar/lib/mol-model/structure/model/types/ions';
 import { SaccharideNames } from 'molstar/lib/mol-model/structure/model/types/saccharides';
-import { ANNOTATION_COLORS, cycleIterator, ENTITY_COLORS, LIGAND_COLORS, MODRES_COLORS, WATER_COLOR } from './colors';
+import { SaccharideCompIdMap } from 'molstar/lib/mol-model/structure/structure/carbohydrates/constants';
+import { Color } from 'molstar/lib/mol-util/color';
+import { type ColorTheme, ColorThemes, cycleIterator, ION_COLORS, lightnessVariant } from './colors';
 import type { AssemblyRecord, DomainRecord, EntityRecord, ResidueRecord } from './data-provider';
 import type { ChainInfo, ChainInstancesInfo } from './structure-info';
 
@@ -49,6 +53,8 @@ export interface StandardRepresentationsOptions {
     sizeFactor?: number,
     custom?: Record<string, unknown>,
     refPrefix?: string,
+    /** Colours of carbohydrate symbols by compound (e.g. SNFG colours from `getSnfgMonosaccharides`), compounds not listed keep their colour */
+    carbohydrateColors?: { [compId: string]: ColorT },
 }
 
 export type StandardRepresentationCollection = { [type in StandardRepresentationType]?: Builder.Representation };
@@ -60,8 +66,10 @@ export const StandardRepresentations: { [type in StandardComponentType]?: (comp:
         };
     },
     branched(component: Builder.Component, options: StandardRepresentationsOptions) {
+        const branchedCarbohydrate = applyOpacity(component.representation({ type: 'carbohydrate', size_factor: options.sizeFactor, custom: options.custom, ref: makeRef(options.refPrefix, 'branchedCarbohydrate') }), options.opacityFactor);
+        if (options.carbohydrateColors) applyCompoundColors(branchedCarbohydrate, options.carbohydrateColors);
         return {
-            branchedCarbohydrate: applyOpacity(component.representation({ type: 'carbohydrate', size_factor: options.sizeFactor, custom: options.custom, ref: makeRef(options.refPrefix, 'branchedCarbohydrate') }), options.opacityFactor),
+            branchedCarbohydrate,
             branchedSticks: applyOpacity(component.representation({ type: 'ball_and_stick', size_factor: options.sizeFactor, custom: options.custom, ref: makeRef(options.refPrefix, 'branchedSticks') }), 0.3 * (options.opacityFactor ?? 1)),
         };
     },
@@ -183,6 +191,11 @@ export function applyEntityColors(repr: Builder.Representation, colors: { [entit
     repr.colorFromSource({ schema: 'all_atomic', category_name: 'entity', field_remapping: { label_entity_id: 'id' }, field_name: 'id', palette: { kind: 'categorical', colors: colors } });
 }
 
+/** Colour by compound (label_comp_id), compounds not listed in `colors` keep their colour */
+export function applyCompoundColors(repr: Builder.Representation, colors: { [compId: string]: ColorT }) {
+    repr.colorFromSource({ schema: 'all_atomic', category_name: 'atom_site', field_name: 'label_comp_id', palette: { kind: 'categorical', colors: colors } });
+}
+
 export function applyElementColors(repr: Builder.Representation) {
     repr.colorFromSource({ schema: 'all_atomic', category_name: 'atom_site', field_name: 'type_symbol', palette: { kind: 'categorical', colors: 'ElementSymbol' } });
 }
@@ -192,50 +205,123 @@ export function applyOpacity(repr: Builder.Representation, opacity: number | und
     else return repr;
 }
 
-export function getEntityColors(entities: { [entityId: string]: EntityRecord }): { [entityId: string]: ColorT } {
-    const polymerColorIterator = cycleIterator(ENTITY_COLORS);
-    const ligandColorIterator = cycleIterator(LIGAND_COLORS);
+/** Assign colors from `palette` deterministically. Each key gets the color at its preferred index (modulo palette length),
+ * unless that color is already taken by a preceding key, in which case the next free color is used
+ * (when all colors are taken, a new cycle starts). So the color of a key only depends on its identity and on colliding preceding keys. */
+export function assignStableColors(keys: { key: string, preferredIndex: number }[], palette: ColorT[]): { [key: string]: ColorT } {
+    const taken = new Set<number>();
+    const out: { [key: string]: ColorT } = {};
+    for (const { key, preferredIndex } of keys) {
+        if (taken.size >= palette.length) taken.clear();
+        let index = preferredIndex % palette.length;
+        while (taken.has(index)) index = (index + 1) % palette.length;
+        taken.add(index);
+        out[key] = palette[index];
+    }
+    return out;
+}
+
+/** Preferred palette index for `key`, stable across entries and sessions (for `assignStableColors`) */
+export function stableColorIndex(key: string): number {
+    return murmurHash3_32(key, 0) >>> 0;
+}
+
+export interface EntityColorsOptions {
+    /** UniProt accession of protein entities; entities with an accession are colored by it (same protein gets the same color in different entries) */
+    uniprotAccessions?: { [entityId: string]: string },
+}
 
+/** Assign colors to entities by entity type and entity ID (or UniProt accession, see `options`), independent of the other entities where possible */
+export function getEntityColors(entities: { [entityId: string]: EntityRecord }, theme: ColorTheme = ColorThemes.light, options?: EntityColorsOptions): { [entityId: string]: ColorT } {
+    const polymerKeys: { key: string, preferredIndex: number }[] = [];
+    const ligandKeys: { key: string, preferredIndex: number }[] = [];
     const out: { [entityId: string]: ColorT } = {};
 
     for (const entityId of Object.keys(entities)) {
         const entity = entities[entityId];
-        const color = entity.type === 'water' ? WATER_COLOR : entityIsLigand(entity) ? ligandColorIterator.next().value! : polymerColorIterator.next().value!;
-        out[entityId] = color;
-        // TODO assign fixed colors to single-element ligands? (like in PDBImages)
+        if (entity.type === 'water') {
+            out[entityId] = theme.water;
+            continue;
+        }
+        const fixedColor = entityIsLigand(entity) ? getFixedLigandColor(entity, theme) : undefined;
+        if (fixedColor !== undefined) {
+            out[entityId] = fixedColor;
+            continue;
+        }
+        const accession = options?.uniprotAccessions?.[entityId];
+        const numericId = Number(entityId);
+        const preferredIndex = accession !== undefined ? stableColorIndex(accession)
+            : Number.isInteger(numericId) && numericId > 0 ? numericId - 1
+                : stableColorIndex(entityId);
+        (entityIsLigand(entity) ? ligandKeys : polymerKeys).push({ key: entityId, preferredIndex });
     }
+    Object.assign(out, assignStableColors(polymerKeys, theme.entity), assignStableColors(ligandKeys, theme.ligand));
     return out;
 }
 
-export function getDomainColors(domains: { [source: string]: { [family: string]: { [entity: string]: DomainRecord[] } } }) {
-    const colorIterator = cycleIterator(ANNOTATION_COLORS);
+/** Fixed color for a ligand entity consisting of one frequent compound or a single-element ion (undefined for other entities) */
+export function getFixedLigandColor(entity: EntityRecord, theme: ColorTheme = ColorThemes.light): ColorT | undefined {
+    if (entity.compIds.length !== 1) return undefined;
+    const compId = entity.compIds[0];
+    const element = getIonElement(compId);
+    return theme.fixedLigand[compId] ?? (element !== undefined ? theme.ion[element] : undefined);
+}
+
+/** Compound IDs of single-element ions which differ from the element symbol */
+const ION_ELEMENT_ALIASES: Record<string, string> = {
+    IOD: 'I', FE2: 'FE', CU1: 'CU', CU3: 'CU', MN3: 'MN', AU3: 'AU', EU3: 'EU', GD3: 'GD', ER3: 'ER', IR3: 'IR', RH3: 'RH', YB2: 'YB', YT3: 'Y',
+};
+
+/** Element symbol of a single-element ion with compound ID `compId` (undefined if not a single-element ion) */
+export function getIonElement(compId: string): string | undefined {
+    if (!IonNames.has(compId)) return undefined;
+    if (compId in ION_ELEMENT_ALIASES) return ION_ELEMENT_ALIASES[compId];
+    return compId in ION_COLORS ? compId : undefined;
+}
+
+/** Source of UniProt mappings in SIFTS mappings (families are UniProt accessions) */
+const UNIPROT_SOURCE = 'UniProt';
+
+/** Get UniProt accession for each entity mapped to UniProt (if mapped to more, take the first accession in alphabetical order) */
+export function getUniprotAccessions(domains: { [source: string]: { [family: string]: { [entity: string]: DomainRecord[] } } }): { [entityId: string]: string } {
+    const out: { [entityId: string]: string } = {};
+    for (const accession of Object.keys(domains[UNIPROT_SOURCE] ?? {}).sort()) {
+        for (const entityId in domains[UNIPROT_SOURCE][accession]) {
+            out[entityId] ??= accession;
+        }
+    }
+    return out;
+}
+
+/** Assign colors to domains: the first domain of a family (by domain ID) gets the family color (`getDomainFamilyColors`), other domains lightness variants of it */
+export function getDomainColors(domains: { [source: string]: { [family: string]: { [entity: string]: DomainRecord[] } } }, theme: ColorTheme = ColorThemes.light) {
+    const familyColors = getDomainFamilyColors(domains, theme);
     const out: { [domainId: string]: ColorT } = {};
-    for (const [src, srcDomains] of Object.entries(domains)) {
-        for (const [fam, famDomains] of Object.entries(srcDomains)) {
-            for (const [entity, entityDomains] of Object.entries(famDomains)) {
-                for (const domain of entityDomains) {
-                    out[domain.id] = colorIterator.next().value!;
-                }
-            }
+    for (const srcDomains of Object.values(domains)) {
+        for (const [familyId, famDomains] of Object.entries(srcDomains)) {
+            const familyColor = decodeColor(familyColors[familyId])!;
+            const domainIds = unique(Object.values(famDomains).flatMap(entityDomains => entityDomains.map(domain => domain.id))).sort();
+            domainIds.forEach((domainId, i) => {
+                out[domainId] ??= i === 0 ? familyColors[familyId] : Color.toHexStyle(lightnessVariant([familyColor], i)[0]) as ColorT;
+            });
         }
     }
     return out;
 }
 
-export function getDomainFamilyColors(domains: { [source: string]: { [family: string]: { [entity: string]: DomainRecord[] } } }) {
+/** Assign colors to domain families by family ID, independent of the other families where possible (within each source, families do not share colors) */
+export function getDomainFamilyColors(domains: { [source: string]: { [family: string]: { [entity: string]: DomainRecord[] } } }, theme: ColorTheme = ColorThemes.light) {
     // Ignoring the possibility of families from different sources having the same ID (e.g. CATH and CATH-B)
-    const colorIterator = cycleIterator(ANNOTATION_COLORS);
     const out: { [familyId: string]: ColorT } = {};
-    for (const [src, srcDomains] of Object.entries(domains)) {
-        for (const familyId in srcDomains) {
-            out[familyId] = colorIterator.next().value!;
-        }
+    for (const srcDomains of Object.values(domains)) {
+        const familyIds = Object.keys(srcDomains).sort().filter(familyId => out[familyId] === undefined);
+        Object.assign(out, assignStableColors(familyIds.map(familyId => ({ key: familyId, preferredIndex: stableColorIndex(familyId) })), theme.annotation));
     }
     return out;
 }
 
-export function getModresColors(modifiedResidues: ResidueRecord[]) {
-    const colorIterator = cycleIterator(MODRES_COLORS);
+export function getModresColors(modifiedResidues: ResidueRecord[], theme: ColorTheme = ColorThemes.light) {
+    const colorIterator = cycleIterator(theme.modres);
     const out: { [compId: string]: HexColorT } = {};
     for (const modres of uniqueModresCompIds(modifiedResidues)) {
         out[modres] = colorIterator.next().value! as HexColorT;
@@ -243,6 +329,31 @@ export function getModresColors(modifiedResidues: ResidueRecord[]) {
     return out;
 }
 
+/** Monosaccharide in Symbol Nomenclature for Glycans (SNFG) */
+export interface SnfgMonosaccharide {
+    /** SNFG abbreviation (e.g. 'GlcNAc') */
+    abbr: string,
+    color: HexColorT,
+}
+
+/** Return SNFG monosaccharides for those of `compIds` which are known saccharides (other compounds are skipped) */
+export function getSnfgMonosaccharides(compIds: string[]) {
+    const out: { [compId: string]: SnfgMonosaccharide } = {};
+    for (const compId of compIds) {
+        const saccharide = SaccharideCompIdMap.get(compId);
+        if (saccharide !== undefined) out[compId] = { abbr: saccharide.abbr, color: Color.toHexStyle(saccharide.color) as HexColorT };
+    }
+    return out;
+}
+
+/** Return SNFG colours for those of `compIds` which are known saccharides */
+export function getSnfgColors(compIds: string[]) {
+    const monosaccharides = getSnfgMonosaccharides(compIds);
+    const out: { [compId: string]: HexColorT } = {};
+    for (const compId in monosaccharides) out[compId] = monosaccharides[compId].color;
+    return out;
+}
+
 export function uniqueModresCompIds(modifiedResidues: ResidueRecord[]) {
     return Array.from(new Set(modifiedResidues.map(r => r.compoundId))).sort();
 }
@@ -0,0 +1,42 @@
+/**
+ * @jest-environment node
+ */
+
+import path from 'path';
+import { FixtureDataProvider, FixtureModelProvider } from '../node/fixture-provider';
+import { ModelDataProvider } from './model-data-provider';
+
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+const apiDataProvider = new FixtureDataProvider(FIXTURES_DIR);
+const modelDataProvider = new ModelDataProvider(new FixtureModelProvider(FIXTURES_DIR));
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { }); // lenient validation warnings
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+
+test.each([
+    'assemblies',
+    'entities',
+    'ligands',
+    'modifiedResidues',
+    'entitiesInAssemblies',
+    'chainsInAssemblies',
+    'authChainCoverages',
+] as const)('%s computed from model match API', async method => {
+    const fromModel = await modelDataProvider[method]('0fix');
+    const fromApi = await apiDataProvider[method]('0fix');
+    expect(fromModel).toEqual(fromApi);
+});
+
+test('data not available in model', async () => {
+    expect(await modelDataProvider.siftsMappings('0fix')).toEqual({});
+    expect(await modelDataProvider.pdbeStructureQualityReport('0fix')).toBeUndefined();
+    expect(await modelDataProvider.experimentalMethods('0fix')).toEqual(['X-RAY DIFFRACTION']); // as stated in mmCIF, unlike the API
+});
@@ -0,0 +1,232 @@
+import { MmcifFormat } from 'molstar/lib/mol-model-formats/structure/mmcif';
+import type { Model } from 'molstar/lib/mol-model/structure';
+import type { AssemblyRecord, EntityRecord, IDataProvider, LlmAnnotations, ResidueRecord } from './data-provider';
+import { unique } from './helpers';
+import type { IModelProvider } from './model-provider';
+import { getChainInfo, getChainInstancesInAssemblies } from './structure-info';
+
+
+/** Residue names that are not considered modified residues when found in a polymer chain */
+const StandardResidueNames = new Set([
+    'ALA', 'ARG', 'ASN', 'ASP', 'CYS', 'GLN', 'GLU', 'GLY', 'HIS', 'ILE', 'LEU', 'LYS', 'MET', 'PHE', 'PRO', 'SER', 'THR', 'TRP', 'TYR', 'VAL',
+    'SEC', 'PYL', 'UNK',
+    'A', 'C', 'G', 'U', 'N',
+    'DA', 'DC', 'DG', 'DT', 'DN',
+]);
+
+/** Mapping of mmCIF `_entity.type` (and `_entity_poly.type` for polymers) to `molecule_type` as served by the `molecules` API */
+const EntityTypeNames: Record<string, string> = {
+    'non-polymer': 'bound',
+    'macrolide': 'bound',
+    'branched': 'carbohydrate polymer',
+    'water': 'water',
+};
+
+
+/** `IDataProvider` that computes everything from the structure file itself, without any PDBe API.
+ * Useful for unreleased or in-house structures and computed models.
+ *
+ * Limitations:
+ * - no SIFTS mappings, validation report, atom interactions, or LLM annotations (empty results)
+ * - the first assembly in the file is considered preferred (there is no such information in mmCIF)
+ * - modified residues are all non-standard residues in polymer chains, plus those listed in `pdbx_struct_mod_residue`
+ *   (unlike the API, this includes residues with `mon_nstd_flag=.`, e.g. LOV in 1gkt)
+ * - experimental methods are reported as stated in mmCIF (e.g. 'X-RAY DIFFRACTION' instead of 'X-ray diffraction') */
+export class ModelDataProvider implements IDataProvider {
+    constructor(private readonly modelProvider: IModelProvider) { }
+
+    private async getDb(entryId: string, signal: AbortSignal | undefined) {
+        const model = await this.modelProvider.getModel(entryId, signal);
+        if (!MmcifFormat.is(model.sourceData)) throw new Error(`Model for ${entryId} does not come from mmCIF`);
+        return { model, db: model.sourceData.data.db };
+    }
+
+    async assemblies(entryId: string, signal?: AbortSignal): Promise<AssemblyRecord[]> {
+        const { model, db } = await this.getDb(entryId, signal);
+        const chainInfo = getChainInfo(model);
+        const entities = await this.entities(entryId, signal);
+        const chainsInAssemblies = getChainInstancesInAssemblies(model);
+        const out: AssemblyRecord[] = [];
+        const { id, oligomeric_details } = db.pdbx_struct_assembly;
+        for (let i = 0; i < db.pdbx_struct_assembly._rowCount; i++) {
+            const assemblyId = id.value(i);
+            const chains = Object.keys(chainsInAssemblies[assemblyId]?.operatorsPerChain ?? {});
+            const polymerEntities = unique(chains.map(c => chainInfo[c]?.entityId).filter(e => e !== undefined && entities[e]?.type !== 'bound' && entities[e]?.type !== 'water'));
+            out.push({
+                assemblyId,
+                form: polymerEntities.length > 1 ? 'hetero' : 'homo',
+                preferred: i === 0,
+                name: oligomeric_details.value(i).replace(/ic$/, ''), // 'dimeric' -> 'dimer'
+            });
+        }
+        return out;
+    }
+
+    async entities(entryId: string, signal?: AbortSignal): Promise<{ [entityId: string]: EntityRecord }> {
+        const { model, db } = await this.getDb(entryId, signal);
+        const polymerTypes: { [entityId: string]: string } = {};
+        for (let i = 0; i < db.entity_poly._rowCount; i++) {
+            polymerTypes[db.entity_poly.entity_id.value(i)] = db.entity_poly.type.value(i);
+        }
+        const compIds: { [entityId: string]: string[] } = {};
+        for (let i = 0; i < db.pdbx_entity_nonpoly._rowCount; i++) {
+            (compIds[db.pdbx_entity_nonpoly.entity_id.value(i)] ??= []).push(db.pdbx_entity_nonpoly.comp_id.value(i));
+        }
+        for (let i = 0; i < db.pdbx_entity_branch_list._rowCount; i++) {
+            (compIds[db.pdbx_entity_branch_list.entity_id.value(i)] ??= []).push(db.pdbx_entity_branch_list.comp_id.value(i));
+        }
+        const chainInfo = getChainInfo(model);
+
+        const out: { [entityId: string]: EntityRecord } = {};
+        const { id, type, pdbx_description } = db.entity;
+        for (let i = 0; i < db.entity._rowCount; i++) {
+            const entityId = id.value(i);
+            const entityType = type.value(i);
+            out[entityId] = {
+                id: entityId,
+                name: pdbx_description.value(i).join(' / '),
+                type: entityType === 'polymer' ? (polymerTypes[entityId] || 'other') : (EntityTypeNames[entityType] ?? entityType),
+                compIds: entityType === 'polymer' ? [] : unique(compIds[entityId] ?? []),
+                chains: Object.keys(chainInfo).filter(c => chainInfo[c].entityId === entityId),
+            };
+        }
+        return out;
+    }
+
+    async ligands(entryId: string, signal?: AbortSignal): Promise<ResidueRecord[]> {
+        const { model } = await this.getDb(entryId, signal);
+        const entities = await this.entities(entryId, signal);
+        return listResidues(model, (entityId, compId) => entities[entityId]?.type === 'bound');
+    }
+
+    async modifiedResidues(entryId: string, signal?: AbortSignal): Promise<ResidueRecord[]> {
+        const { model, db } = await this.getDb(entryId, signal);
+        const entities = await this.entities(entryId, signal);
+        const listedInFile = new Set<string>();
+        for (let i = 0; i < db.pdbx_struct_mod_residue._rowCount; i++) {
+            listedInFile.add(`${db.pdbx_struct_mod_residue.label_asym_id.value(i)}:${db.pdbx_struct_mod_residue.label_seq_id.value(i)}`);
+        }
+        return listResidues(model, (entityId, compId, labelAsymId, labelSeqId) => {
+            if (listedInFile.has(`${labelAsymId}:${labelSeqId}`)) return true;
+            const entityType = entities[entityId]?.type;
+            return entityType !== undefined && entityType !== 'bound' && entityType !== 'water' && entityType !== 'carbohydrate polymer' && !StandardResidueNames.has(compId);
+        });
+    }
+
+    async entitiesInAssemblies(entryId: string, signal?: AbortSignal) {
+        const { model } = await this.getDb(entryId, signal);
+        const chainInfo = getChainInfo(model);
+        const chainsInAssemblies = await this.chainsInAssemblies(entryId, signal);
+        const out: Awaited<ReturnType<IDataProvider['entitiesInAssemblies']>> = {};
+        for (const labelAsymId in chainsInAssemblies) {
+            const entityId = chainInfo[labelAsymId]?.entityId;
+            if (entityId === undefined) continue;
+            out[entityId] ??= { assemblies: [] };
+            out[entityId].assemblies = unique([...out[entityId].assemblies, ...chainsInAssemblies[labelAsymId].assemblies]);
+        }
+        return out;
+    }
+
+    async chainsInAssemblies(entryId: string, signal?: AbortSignal) {
+        const { model } = await this.getDb(entryId, signal);
+        const chainInfo = getChainInfo(model);
+        const entities = await this.entities(entryId, signal);
+        const chainInstancesInfo = getChainInstancesInAssemblies(model);
+        const out: Awaited<ReturnType<IDataProvider['chainsInAssemblies']>> = {};
+        for (const assemblyId in chainInstancesInfo) {
+            for (const labelAsymId in chainInstancesInfo[assemblyId].operatorsPerChain) {
+                if (entities[chainInfo[labelAsymId]?.entityId]?.type === 'water') continue; // not listed by the API either
+                out[labelAsymId] ??= { assemblies: [] };
+                out[labelAsymId].assemblies.push(assemblyId);
+            }
+        }
+        return out;
+    }
+
+    async siftsMappings(entryId: string, signal?: AbortSignal) {
+        return {};
+    }
+
+    async siftsMappingsByEntity(entryId: string, signal?: AbortSignal) {
+        return {};
+    }
+
+    /** Get absolute number of modelled residues in each chain (only polymer chains) */
+    async authChainCoverages(entryId: string, signal?: AbortSignal): Promise<{ [authAsymId: string]: number }> {
+        const { model } = await this.getDb(entryId, signal);
+        const entities = await this.entities(entryId, signal);
+        const h = model.atomicHierarchy;
+        const out: { [authAsymId: string]: number } = {};
+        for (let iChain = 0; iChain < h.chains._rowCount; iChain++) {
+            const entityType = entities[h.chains.label_entity_id.value(iChain)]?.type;
+            if (entityType === undefined || entityType === 'bound' || entityType === 'water') continue;
+            const authAsymId = h.chains.auth_asym_id.value(iChain);
+            const fromAtom = h.chainAtomSegments.offsets[iChain];
+            const toAtom = h.chainAtomSegments.offsets[iChain + 1];
+            const nResidues = h.residueAtomSegments.index[toAtom - 1] - h.residueAtomSegments.index[fromAtom] + 1;
+            out[authAsymId] = (out[authAsymId] ?? 0) + nResidues;
+        }
+        return out;
+    }
+
+    /** Get list of experimental methods (as stated in `exptl.method`, e.g. 'X-RAY DIFFRACTION') */
+    async experimentalMethods(entryId: string, signal?: AbortSignal): Promise<string[]> {
+        const { db } = await this.getDb(entryId, signal);
+        return unique(Array.from(db.exptl.method.toArray()));
+    }
+
+    async pdbeStructureQualityReport(entryId: string, signal?: AbortSignal) {
+        return undefined;
+    }
+
+    async atomInteractions(entryId: string, authAsymId: string, authSeqId: number, signal?: AbortSignal) {
+        return [];
+    }
+
+    async llmAnnotations(entryId: string, signal?: AbortSignal): Promise<LlmAnnotations> {
+        return {};
+    }
+}
+
+
+/** List residues in the model for which `filter` returns true, in the order as they appear in the model */
+function listResidues(model: Model, filter: (entityId: string, compId: string, labelAsymId: string, labelSeqId: number) => boolean): ResidueRecord[] {
+    const h = model.atomicHierarchy;
+    const compNames = getCompoundNames(model);
+    const out: ResidueRecord[] = [];
+    for (let iChain = 0; iChain < h.chains._rowCount; iChain++) {
+        const entityId = h.chains.label_entity_id.value(iChain);
+        const labelAsymId = h.chains.label_asym_id.value(iChain);
+        const authAsymId = h.chains.auth_asym_id.value(iChain);
+        const fromRes = h.residueAtomSegments.index[h.chainAtomSegments.offsets[iChain]];
+        const toRes = h.residueAtomSegments.index[h.chainAtomSegments.offsets[iChain + 1] - 1] + 1;
+        for (let iRes = fromRes; iRes < toRes; iRes++) {
+            const compId = h.atoms.label_comp_id.value(h.residueAtomSegments.offsets[iRes]);
+            // label_seq_id is not defined for non-polymers, counting from 1 within chain then (like pdbx_nonpoly_scheme.ndb_seq_num)
+            const labelSeqId = h.residues.label_seq_id.value(iRes) || (iRes - fromRes + 1);
+            if (!filter(entityId, compId, labelAsymId, labelSeqId)) continue;
+            out.push({
+                entityId,
+                labelAsymId,
+                labelSeqId,
+                authAsymId,
+                authSeqId: h.residues.auth_seq_id.value(iRes),
+                authInsCode: h.residues.pdbx_PDB_ins_code.value(iRes),
+                compoundId: compId,
+                compoundName: compNames[compId] ?? '',
+            });
+        }
+    }
+    return out;
+}
+
+/** Get full compound names from `chem_comp` category, mapped by compound ID */
+function getCompoundNames(model: Model): { [compId: string]: string } {
+    const out: { [compId: string]: string } = {};
+    if (!MmcifFormat.is(model.sourceData)) return out;
+    const { id, name } = model.sourceData.data.db.chem_comp;
+    for (let i = 0; i < id.rowCount; i++) {
+        out[id.value(i)] = name.value(i);
+    }
+    return out;
+}
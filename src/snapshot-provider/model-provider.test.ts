@@ -0,0 +1,119 @@
+/**
+ * @jest-environment node
+ */
+
+import { gzipSync } from 'zlib';
+import { MolstarModelProvider, type ModelFetcher } from './model-provider';
+
+
+/** Minimal mmCIF file with one atom, `entryId` is used as the data block name */
+function miniCif(entryId: string): string {
+    return `data_${entryId}
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_entity_id
+_atom_site.label_seq_id
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.auth_seq_id
+_atom_site.auth_asym_id
+_atom_site.pdbx_PDB_model_num
+HETATM 1 ZN ZN ZN A 1 . 1.000 2.000 3.000 1 A 1
+`;
+}
+
+const MINI_PDB = 'HETATM    1 ZN    ZN A   1       1.000   2.000   3.000  1.00  0.00          ZN  \nEND\n';
+
+/** Fetcher serving `miniCif` for any URL, with entry ID taken from the file name */
+const cifFetcher: ModelFetcher = url => {
+    const entryId = url.split('/').pop()!.split('.')[0];
+    return Promise.resolve(Buffer.from(miniCif(entryId)));
+};
+
+/** Wait until pending timers and promise callbacks have run */
+function flush() {
+    return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+
+test('url template and formats', async () => {
+    const fetcher = jest.fn(cifFetcher);
+    const cifProvider = new MolstarModelProvider({ urlTemplate: 'https://files.test/{pdb}/{pdb}.cif', format: 'mmcif', fetcher });
+    const model = await cifProvider.getModel('1abc');
+    expect(fetcher).toHaveBeenCalledWith('https://files.test/1abc/1abc.cif', expect.anything());
+    expect(model.entryId.toLowerCase()).toBe('1abc');
+    expect(model.atomicHierarchy.atoms._rowCount).toBe(1);
+
+    const gzProvider = new MolstarModelProvider({ format: 'mmcif', fetcher: async url => gzipSync(await cifFetcher(url)) });
+    expect((await gzProvider.getModel('2abc')).atomicHierarchy.atoms._rowCount).toBe(1);
+
+    const pdbProvider = new MolstarModelProvider({ format: 'pdb', fetcher: async () => Buffer.from(MINI_PDB) });
+    const pdbModel = await pdbProvider.getModel('3abc');
+    expect(pdbModel.atomicConformation.x[0]).toBeCloseTo(1);
+    expect(pdbModel.atomicConformation.z[0]).toBeCloseTo(3);
+});
+
+test('loading is shared by concurrent callers', async () => {
+    const fetcher = jest.fn(cifFetcher);
+    const provider = new MolstarModelProvider({ format: 'mmcif', fetcher });
+    const [model1, model2] = await Promise.all([provider.getModel('1abc'), provider.getModel('1abc')]);
+    expect(model1).toBe(model2);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+});
+
+test('least recently used models are evicted', async () => {
+    const fetcher = jest.fn(cifFetcher);
+    const provider = new MolstarModelProvider({ format: 'mmcif', cacheSize: 2, fetcher });
+    const model1 = await provider.getModel('1abc');
+    await provider.getModel('2abc');
+    expect(await provider.getModel('1abc')).toBe(model1); // 1abc is now most recently used
+    await provider.getModel('3abc'); // evicts 2abc
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(await provider.getModel('1abc')).toBe(model1);
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    await provider.getModel('2abc');
+    expect(fetcher).toHaveBeenCalledTimes(4);
+});
+
+test('failed loading is not cached', async () => {
+    const fetcher = jest.fn(cifFetcher).mockRejectedValueOnce(new Error('Network error'));
+    const provider = new MolstarModelProvider({ format: 'mmcif', fetcher });
+    await expect(provider.getModel('1abc')).rejects.toThrow('Network error');
+    await expect(provider.getModel('1abc')).resolves.toBeDefined();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+});
+
+test('loading aborted by all callers is not rejoined', async () => {
+    // First fetch ignores the abort signal, so the aborted loading never settles
+    const fetcher = jest.fn(cifFetcher).mockReturnValueOnce(new Promise(() => { }));
+    const provider = new MolstarModelProvider({ format: 'mmcif', fetcher });
+
+    const first = new AbortController();
+    const firstResult = provider.getModel('1abc', first.signal);
+    await flush();
+    first.abort();
+    await expect(firstResult).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetcher.mock.calls[0][1]?.aborted).toBe(true);
+
+    await expect(provider.getModel('1abc', new AbortController().signal)).resolves.toBeDefined();
+    expect(fetcher).toHaveBeenCalledTimes(2);
+});
+
+test('loading is not aborted while another caller is waiting', async () => {
+    const fetcher = jest.fn(cifFetcher);
+    const provider = new MolstarModelProvider({ format: 'mmcif', fetcher });
+    const first = new AbortController();
+    const firstResult = provider.getModel('1abc', first.signal);
+    const secondResult = provider.getModel('1abc');
+    first.abort();
+    await expect(firstResult).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(secondResult).resolves.toBeDefined();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][1]?.aborted).toBe(false);
+});
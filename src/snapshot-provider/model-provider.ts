@@ -1,44 +1,129 @@
 import { CIF } from 'molstar/lib/mol-io/reader/cif';
+import { parsePDB } from 'molstar/lib/mol-io/reader/pdb/parser';
 import { trajectoryFromMmCIF } from 'molstar/lib/mol-model-formats/structure/mmcif';
+import { trajectoryFromPDB } from 'molstar/lib/mol-model-formats/structure/pdb';
 import { type Model } from 'molstar/lib/mol-model/structure';
 import { Task } from 'molstar/lib/mol-task';
+import { ungzip } from 'molstar/lib/mol-util/zip/zip';
+import { abortReason, SharedOperation, throwIfAborted } from './abort';
 
 
 export interface IModelProvider {
-    getModel(entryId: string): Promise<Model>,
+    /** Get the first model of an entry. Reject if `signal` is aborted before the model is available. */
+    getModel(entryId: string, signal?: AbortSignal): Promise<Model>,
 }
 
 
+export interface MolstarModelProviderOptions {
+    /** URL template for structure files, '{pdb}' will be replaced by actual PDB ID (same as `MVSSnapshotProviderConfig.PdbStructureUrlTemplate`) */
+    urlTemplate: string,
+    /** Format of structure files, same as `MVSSnapshotProviderConfig.PdbStructureFormat` (gzipped files are detected automatically) */
+    format: 'bcif' | 'mmcif' | 'pdb',
+    /** Maximum number of parsed models kept in memory (least recently used are evicted first) */
+    cacheSize: number,
+    /** Function retrieving raw file content from URL (can be replaced to use local files or a mock server) */
+    fetcher: ModelFetcher,
+}
+
+/** Retrieves raw file content from `url` */
+export type ModelFetcher = (url: string, signal?: AbortSignal) => Promise<Uint8Array>;
+
+/** Default `ModelFetcher`, using `fetch` */
+export async function fetchModelData(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+        throw new Error(`Failed to fetch ${url}: status code ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+}
+
+export const DefaultMolstarModelProviderOptions: MolstarModelProviderOptions = {
+    urlTemplate: 'https://www.ebi.ac.uk/pdbe/entry-files/{pdb}.bcif',
+    format: 'bcif',
+    cacheSize: 5,
+    fetcher: fetchModelData,
+};
+
+
 export class MolstarModelProvider implements IModelProvider {
-    // Expecting that this will be used for one entry only, so this 1-model caching should be sufficient
-    private _cachedEntryId?: string;
-    private _cachedModel?: Model;
+    private readonly options: MolstarModelProviderOptions;
+    /** Models being loaded or loaded, Map iteration order is used for LRU (the least recently used entry is first) */
+    private readonly cache = new Map<string, SharedOperation<Model>>();
+
+    constructor(options?: Partial<MolstarModelProviderOptions>) {
+        this.options = { ...DefaultMolstarModelProviderOptions, ...options };
+    }
 
-    async getModel(entryId: string): Promise<Model> {
-        if (entryId === this._cachedEntryId && this._cachedModel) {
-            return this._cachedModel;
+    getModel(entryId: string, signal?: AbortSignal): Promise<Model> {
+        if (signal?.aborted) return Promise.reject(abortReason(signal));
+        let operation = this.cache.get(entryId);
+        if (operation && !operation.aborted) { // don't join a loading aborted by all its previous callers
+            this.cache.delete(entryId); // will be re-inserted at the end (most recently used)
+        } else {
+            const newOperation = new SharedOperation(loadSignal => this._getModel(entryId, loadSignal));
+            newOperation.promise.catch(() => {
+                if (this.cache.get(entryId) === newOperation) this.cache.delete(entryId); // don't cache failures
+            });
+            operation = newOperation;
         }
-        const model = await this._getModel(entryId);
-        this._cachedEntryId = entryId;
-        this._cachedModel = model;
-        return model;
+        this.cache.set(entryId, operation);
+        while (this.cache.size > this.options.cacheSize) {
+            const oldestEntryId = this.cache.keys().next().value as string;
+            this.cache.delete(oldestEntryId);
+        }
+        return operation.join(signal);
     }
 
-    private async _getModel(entryId: string): Promise<Model> {
-        const url = `https://www.ebi.ac.uk/pdbe/entry-files/${entryId}.bcif`
-        const response = await fetch(url);
-        if (!response.ok) {
-            throw new Error(`Failed to fetch model for ${entryId}: status code ${response.status}, URL ${url}`);
+    private async _getModel(entryId: string, signal: AbortSignal): Promise<Model> {
+        const url = this.options.urlTemplate.replaceAll('{pdb}', entryId);
+        let data = await this.options.fetcher(url, signal);
+        throwIfAborted(signal);
+        if (isGzipped(data)) {
+            data = await Task.create('Ungzip', ctx => ungzip(ctx, data)).run();
         }
-        const buffer = await response.arrayBuffer();
-        const data = new Uint8Array(buffer);
-        const parsed = await CIF.parseBinary(data).run();
-        if (parsed.isError) {
-            throw new Error(`Failed to parse model for ${entryId}: line ${parsed.line}: ${parsed.message}`);
+        switch (this.options.format) {
+            case 'bcif': return await parseModel(data, entryId);
+            case 'mmcif': return await parseModel(new TextDecoder().decode(data), entryId);
+            case 'pdb': return await parsePdbModel(new TextDecoder().decode(data), entryId);
         }
-        const file = parsed.result;
-        const trajectory = await trajectoryFromMmCIF(file.blocks[0]).run();
-        const model = await Task.resolveInContext(trajectory.getFrameAtIndex(0));
-        return model;
     }
 }
+
+
+/** Wraps another `IModelProvider` and passes `signal` to all calls (see `SignalBoundDataProvider`). */
+export class SignalBoundModelProvider implements IModelProvider {
+    constructor(private readonly provider: IModelProvider, private readonly signal: AbortSignal) { }
+
+    getModel(entryId: string): Promise<Model> {
+        return this.provider.getModel(entryId, this.signal);
+    }
+}
+
+
+/** Parse the first model from PDB format data. `entryId` is only used in error messages. */
+export async function parsePdbModel(data: string, entryId: string): Promise<Model> {
+    const parsed = await parsePDB(data, entryId).run();
+    if (parsed.isError) {
+        throw new Error(`Failed to parse model for ${entryId}: line ${parsed.line}: ${parsed.message}`);
+    }
+    const trajectory = await trajectoryFromPDB(parsed.result).run();
+    const model = await Task.resolveInContext(trajectory.getFrameAtIndex(0));
+    return model;
+}
+
+/** Decide if `data` starts with gzip magic number */
+function isGzipped(data: Uint8Array): boolean {
+    return data.length >= 2 && data[0] === 0x1f && data[1] === 0x8b;
+}
+
+/** Parse the first model from mmCIF data (`data` is string for text CIF, Uint8Array for BinaryCIF). `entryId` is only used in error messages. */
+export async function parseModel(data: string | Uint8Array, entryId: string): Promise<Model> {
+    const parsed = typeof data === 'string' ? await CIF.parseText(data).run() : await CIF.parseBinary(data).run();
+    if (parsed.isError) {
+        throw new Error(`Failed to parse model for ${entryId}: line ${parsed.line}: ${parsed.message}`);
+    }
+    const file = parsed.result;
+    const trajectory = await trajectoryFromMmCIF(file.blocks[0]).run();
+    const model = await Task.resolveInContext(trajectory.getFrameAtIndex(0));
+    return model;
+}
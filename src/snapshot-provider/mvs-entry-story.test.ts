@@ -0,0 +1,66 @@
+/**
+ * @jest-environment node
+ */
+
+import path from 'path';
+import { FixtureDataProvider, FixtureModelProvider } from '../node/fixture-provider';
+import { createEntryStorySteps } from './mvs-entry-story';
+import { MVSSnapshotListProvider } from './mvs-snapshot-list-provider';
+
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+const listProvider = new MVSSnapshotListProvider(new FixtureDataProvider(FIXTURES_DIR), new FixtureModelProvider(FIXTURES_DIR));
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { }); // lenient validation warnings
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+
+test('story covers all available parts of the entry', async () => {
+    const steps = await createEntryStorySteps(listProvider, '0fix');
+    expect(steps.map(step => [step.title, step.spec.kind])).toEqual([
+        ['Overview', 'pdbconnect_complex'],
+        ['Test protein', 'pdbconnect_macromolecule'],
+        ['Domains', 'pdbconnect_domains_default'],
+        ['Ligands', 'pdbconnect_all_ligands'],
+        ['ACETATE ION', 'pdbconnect_ligand'],
+        ['ZINC ION', 'pdbconnect_ligand'],
+        ['Modified residues', 'pdbconnect_all_modifications'],
+        ['Residues in literature', 'pdbconnect_text_annotation'],
+        ['Structure quality', 'pdbconnect_quality'],
+    ]);
+    expect(steps[0].spec.params).toEqual({ entry: '0fix', assemblyId: 'preferred' });
+    expect(steps[1].spec.params).toEqual({ entry: '0fix', assemblyId: 'preferred', entityId: '1', labelAsymId: 'A', instanceId: 'ASM-1' }); // only first copy of the entity
+    expect(steps[8].spec.params).toEqual({ entry: '0fix', assemblyId: 'model', validation_type: 'issue_count' });
+});
+
+test('story narrative', async () => {
+    const narratives = Object.fromEntries((await createEntryStorySteps(listProvider, '0fix')).map(step => [step.title, step.narrative]));
+    expect(narratives).toEqual({
+        'Overview': '**0FIX** is a structure determined by x-ray diffraction. It contains 1 macromolecule (Test protein) and 2 kinds of bound small molecules. '
+            + 'The complex shown here is assembly 1, a homo dimer, which is believed to be the biologically relevant form.',
+        'Test protein': '**Test protein** is a protein chain, present in 2 copies in the complex.',
+        'Domains': 'The macromolecules can be divided into structural and functional domains. Here, 2 domain families from CATH and Pfam are highlighted.',
+        'Ligands': 'The complex binds 2 kinds of small molecules: ACETATE ION (ACT) and ZINC ION (ZN).',
+        'ACETATE ION': 'A closer look at the ion **ACETATE ION** (ACT) and its surroundings.',
+        'ZINC ION': 'A closer look at the ion **ZINC ION** (ZN) and its surroundings.',
+        'Modified residues': 'Some residues are chemically modified: 1 modified residue of 1 type (MSE).',
+        'Residues in literature': 'Scientific literature mentions 2 residues in chain A. The highlighted residues have text annotations extracted from publications.',
+        'Structure quality': 'Finally, the quality of the model: 3 residues have some geometric or fit-to-data issues, coloured by the number of issue types.',
+    });
+});
+
+test('story is shortened to the most important steps', async () => {
+    const short = await createEntryStorySteps(listProvider, '0fix', { maxStates: 3 });
+    expect(short.map(step => step.title)).toEqual(['Overview', 'Test protein', 'Ligands']); // ties are resolved by order in the story
+
+    const fewEntities = await createEntryStorySteps(listProvider, '0fix', { maxIndividualEntities: 1 });
+    expect(fewEntities.map(step => step.title)).toEqual(['Overview', 'Test protein', 'Domains', 'Ligands', 'ACETATE ION', 'Modified residues', 'Residues in literature', 'Structure quality']);
+
+    expect(await createEntryStorySteps(listProvider, '0fix', { maxStates: 0 })).toEqual([]);
+});
@@ -0,0 +1,161 @@
+import type { EntityRecord } from './data-provider';
+import { decideEntityType, entityIsLigand, entityIsMacromolecule, uniqueModresCompIds } from './helpers';
+import type { ListSnapshotsOptions, MVSSnapshotListProvider } from './mvs-snapshot-list-provider';
+import { MODEL, PREFERRED } from './mvs-snapshot-types';
+import type { TourStep } from './mvs-tour';
+
+
+export interface EntryStoryOptions {
+    /** Maximum number of states in the story (less important states are left out first) */
+    maxStates: number,
+    /** Maximum number of macromolecules and ligands shown individually */
+    maxIndividualEntities: number,
+}
+
+export const DefaultEntryStoryOptions: EntryStoryOptions = {
+    maxStates: 10,
+    maxIndividualEntities: 3,
+};
+
+/** Story step with importance (lower number = more important) */
+interface CandidateStep extends TourStep {
+    priority: number,
+}
+
+
+/** Inspect an entry and compose a narrative sequence of snapshots with automatically written descriptions:
+ * the complex, its macromolecules, domains, ligands, modified residues, text annotations, and structure quality
+ * (only the parts that are available for the entry, limited to `maxStates` states). */
+export async function createEntryStorySteps(listProvider: MVSSnapshotListProvider, entryId: string, options?: Partial<EntryStoryOptions>, listOptions?: ListSnapshotsOptions): Promise<TourStep[]> {
+    const { maxStates, maxIndividualEntities } = { ...DefaultEntryStoryOptions, ...options };
+    const data = listProvider.dataProvider;
+    const signal = listOptions?.signal;
+    const [assemblies, entities, experimentalMethods] = await Promise.all([data.assemblies(entryId, signal), data.entities(entryId, signal), data.experimentalMethods(entryId, signal)]);
+    const macromolecules = Object.values(entities).filter(entityIsMacromolecule);
+    const ligands = Object.values(entities).filter(entityIsLigand);
+    const preferred = assemblies.find(ass => ass.preferred);
+    const candidates: CandidateStep[] = [];
+
+    // Overview
+    const complexes = await listProvider.listSnapshots(entryId, 'pdbconnect_complex', listOptions);
+    const complex = complexes.find(spec => spec.params.assemblyId === PREFERRED) ?? complexes.find(spec => spec.params.assemblyId === MODEL);
+    if (complex) {
+        const overview = [`**${entryId.toUpperCase()}** is a structure determined by ${formatList(experimentalMethods.map(m => m.toLowerCase())) || 'an unknown method'}.`];
+        overview.push(`It contains ${countNoun(macromolecules.length, 'macromolecule')}${macromolecules.length > 0 ? ` (${formatList(macromolecules.map(ent => ent.name))})` : ''}${ligands.length > 0 ? ` and ${countNoun(ligands.length, 'kind')} of bound small molecules` : ''}.`);
+        if (preferred) overview.push(`The complex shown here is assembly ${preferred.assemblyId}, a ${preferred.form}${preferred.name ? ` ${preferred.name}` : ''}, which is believed to be the biologically relevant form.`);
+        candidates.push({ spec: complex, title: 'Overview', narrative: overview.join(' '), priority: 0 });
+    }
+
+    // Macromolecules
+    const macromoleculeSpecs = await listProvider.listSnapshots(entryId, 'pdbconnect_macromolecule', listOptions);
+    const shownMacromolecules = firstPerEntity(macromoleculeSpecs, spec => spec.params.entityId).slice(0, maxIndividualEntities);
+    shownMacromolecules.forEach((spec, i) => {
+        const entity = entities[spec.params.entityId];
+        const copies = macromoleculeSpecs.filter(s => s.params.entityId === spec.params.entityId).length;
+        const narrative = `**${entity.name}** is a ${describeEntityType(entity)}, present in ${countNoun(copies, 'copy', 'copies')} in the complex.`;
+        candidates.push({ spec, title: entity.name, narrative, priority: i === 0 ? 1 : 4 });
+    });
+
+    // Domains
+    const domains = await data.siftsMappingsByEntity(entryId, signal);
+    const domainSources = Object.keys(domains);
+    if (domainSources.length > 0) {
+        const [domainsSpec] = await listProvider.listSnapshots(entryId, 'pdbconnect_domains_default', listOptions);
+        const nFamilies = domainSources.reduce((sum, source) => sum + Object.keys(domains[source]).length, 0);
+        const narrative = `The macromolecules can be divided into structural and functional domains. Here, ${countNoun(nFamilies, 'domain family', 'domain families')} from ${formatList(domainSources)} are highlighted.`;
+        if (domainsSpec) candidates.push({ spec: domainsSpec, title: 'Domains', narrative, priority: 3 });
+    }
+
+    // Ligands
+    if (ligands.length > 0) {
+        const [allLigandsSpec] = await listProvider.listSnapshots(entryId, 'pdbconnect_all_ligands', listOptions);
+        const narrative = `The complex binds ${countNoun(ligands.length, 'kind')} of small molecules: ${formatList(ligands.map(ent => `${ent.name} (${ent.compIds[0]})`))}.`;
+        if (allLigandsSpec) candidates.push({ spec: allLigandsSpec, title: 'Ligands', narrative, priority: 2 });
+        const ligandSpecs = await listProvider.listSnapshots(entryId, 'pdbconnect_ligand', listOptions);
+        // Prefer ligands over ions, as ions are usually less interesting
+        const orderedLigandSpecs = firstPerEntity(ligandSpecs, spec => spec.params.entityId)
+            .sort((a, b) => Number(decideEntityType(entities[a.params.entityId]) === 'ion') - Number(decideEntityType(entities[b.params.entityId]) === 'ion'));
+        for (const spec of orderedLigandSpecs.slice(0, maxIndividualEntities)) {
+            const entity = entities[spec.params.entityId];
+            const isIon = decideEntityType(entity) === 'ion';
+            const narrative = `A closer look at ${isIon ? 'the ion' : 'the ligand'} **${entity.name}** (${entity.compIds[0]}) and its surroundings.`;
+            candidates.push({ spec, title: entity.name, narrative, priority: isIon ? 5 : 4 });
+        }
+    }
+
+    // Modified residues
+    const modifiedResidues = await data.modifiedResidues(entryId, signal);
+    if (modifiedResidues.length > 0) {
+        const [modificationsSpec] = await listProvider.listSnapshots(entryId, 'pdbconnect_all_modifications', listOptions);
+        const compIds = uniqueModresCompIds(modifiedResidues);
+        const narrative = `Some residues are chemically modified: ${countNoun(modifiedResidues.length, 'modified residue')} of ${countNoun(compIds.length, 'type')} (${formatList(compIds)}).`;
+        if (modificationsSpec) candidates.push({ spec: modificationsSpec, title: 'Modified residues', narrative, priority: 3 });
+    }
+
+    // Text annotations
+    const annotations = await data.llmAnnotations(entryId, signal);
+    if (Object.keys(annotations).length > 0) {
+        const annotationSpecs = await listProvider.listSnapshots(entryId, 'pdbconnect_text_annotation', listOptions);
+        const chainSpec = annotationSpecs.find(spec => spec.params.labelSeqId === undefined);
+        if (chainSpec) {
+            const nResidues = Object.values(annotations[chainSpec.params.entityId]?.[chainSpec.params.labelAsymId] ?? {}).length;
+            const narrative = `Scientific literature mentions ${countNoun(nResidues, 'residue')} in chain ${chainSpec.params.labelAsymId}. The highlighted residues have text annotations extracted from publications.`;
+            candidates.push({ spec: chainSpec, title: 'Residues in literature', narrative, priority: 3 });
+        }
+    }
+
+    // Quality
+    const qualityReport = await data.pdbeStructureQualityReport(entryId, signal);
+    if (qualityReport !== undefined) {
+        const qualitySpecs = await listProvider.listSnapshots(entryId, 'pdbconnect_quality', listOptions);
+        const issueCountSpec = qualitySpecs.find(spec => spec.params.validation_type === 'issue_count');
+        let nOutliers = 0;
+        for (const molecule of qualityReport.molecules) {
+            for (const chain of molecule.chains) nOutliers += chain.models[0]?.residues.length ?? 0;
+        }
+        const narrative = nOutliers > 0
+            ? `Finally, the quality of the model: ${countNoun(nOutliers, 'residue')} ${nOutliers === 1 ? 'has' : 'have'} some geometric or fit-to-data issues, coloured by the number of issue types.`
+            : 'Finally, the quality of the model: no residues with geometric or fit-to-data issues were reported.';
+        if (issueCountSpec) candidates.push({ spec: issueCountSpec, title: 'Structure quality', narrative, priority: 2 });
+    }
+
+    return selectSteps(candidates, maxStates).map(({ priority, ...step }) => step);
+}
+
+
+/** Keep the `maxStates` most important steps, in the original order */
+function selectSteps(candidates: CandidateStep[], maxStates: number): CandidateStep[] {
+    const selected = new Set(candidates.map((step, i) => ({ step, i })).sort((a, b) => a.step.priority - b.step.priority || a.i - b.i).slice(0, maxStates).map(({ step }) => step));
+    return candidates.filter(step => selected.has(step));
+}
+
+/** Keep only the first spec for each entity */
+function firstPerEntity<T>(specs: T[], getEntityId: (spec: T) => string): T[] {
+    const seen = new Set<string>();
+    return specs.filter(spec => {
+        const entityId = getEntityId(spec);
+        if (seen.has(entityId)) return false;
+        seen.add(entityId);
+        return true;
+    });
+}
+
+function describeEntityType(entity: EntityRecord): string {
+    const type = entity.type.toLowerCase();
+    if (type.includes('polypeptide')) return 'protein chain';
+    if (type.includes('polyribonucleotide') && !type.includes('deoxy')) return 'RNA chain';
+    if (type.includes('polydeoxyribonucleotide')) return 'DNA chain';
+    if (type.includes('saccharide') || type === 'branched') return 'carbohydrate';
+    return entity.type;
+}
+
+/** E.g. 1 -> '1 macromolecule', 2 -> '2 macromolecules' */
+function countNoun(count: number, singular: string, plural: string = singular + 's'): string {
+    return `${count} ${count === 1 ? singular : plural}`;
+}
+
+/** E.g. ['a', 'b', 'c'] -> 'a, b and c' */
+function formatList(items: string[]): string {
+    if (items.length <= 1) return items.join('');
+    return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
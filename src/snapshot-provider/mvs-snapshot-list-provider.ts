@@ -1,8 +1,15 @@
-import type { IDataProvider } from './data-provider';
+import { throwIfAborted } from './abort';
+import { type IDataProvider, SignalBoundDataProvider } from './data-provider';
 import { entityIsLigand, entityIsMacromolecule, getPreferredAssembly, listEntityInstancesInAssembly, listEntityInstancesInModel, uniqueModresCompIds } from './helpers';
-import type { IModelProvider } from './model-provider';
+import { type IModelProvider, SignalBoundModelProvider } from './model-provider';
 import { MODEL, PREFERRED, type SnapshotKind, SnapshotKinds, type SnapshotSpec, ValidationTypes } from './mvs-snapshot-types';
-import { getChainInstancesInAssemblies } from './structure-info';
+import { type ChainInstance, getChainInstancesInAssemblies, getGlycosylationSites, listInterfacingChainInstances } from './structure-info';
+
+
+export interface ListSnapshotsOptions {
+    /** Cancels listing, including all pending data and model requests */
+    signal?: AbortSignal,
+}
 
 
 export class MVSSnapshotListProvider {
@@ -15,7 +22,16 @@ export class MVSSnapshotListProvider {
         return SnapshotKinds;
     }
 
-    async listSnapshots(entryId: string, kind?: SnapshotKind): Promise<SnapshotSpec[]> {
+    listSnapshots<K extends SnapshotKind>(entryId: string, kind: K, options?: ListSnapshotsOptions): Promise<SnapshotSpec<K>[]>;
+    listSnapshots(entryId: string, kind?: SnapshotKind, options?: ListSnapshotsOptions): Promise<SnapshotSpec[]>;
+    async listSnapshots(entryId: string, kind?: SnapshotKind, options?: ListSnapshotsOptions): Promise<SnapshotSpec[]> {
+        if (options?.signal) {
+            throwIfAborted(options.signal);
+            const provider = new MVSSnapshotListProvider(new SignalBoundDataProvider(this.dataProvider, options.signal), new SignalBoundModelProvider(this.modelProvider, options.signal));
+            const specs = await provider.listSnapshots(entryId, kind);
+            throwIfAborted(options.signal);
+            return specs;
+        }
         if (kind === undefined) return this.listAllSnapshots(entryId);
         const out: SnapshotSpec[] = [];
         switch (kind) {
@@ -288,6 +304,49 @@ export class MVSSnapshotListProvider {
                 }
                 break;
             }
+            case 'pdbconnect_interface': {
+                const assemblies = await this.dataProvider.assemblies(entryId);
+                const preferredAssembly = getPreferredAssembly(assemblies).assemblyId;
+                const modelData = await this.modelProvider.getModel(entryId);
+                const formatInstance = (instance: ChainInstance) => `(label_asym_id ${instance.labelAsymId}, ${instance.instanceId ? `instance_id ${instance.instanceId}` : 'model'})`;
+                for (const [partner1, partner2] of listInterfacingChainInstances(modelData, preferredAssembly)) {
+                    out.push({
+                        kind: 'pdbconnect_interface',
+                        name: `Interface between ${formatInstance(partner1)} and ${formatInstance(partner2)}`,
+                        params: { entry: entryId, assemblyId: PREFERRED, labelAsymId: partner1.labelAsymId, instanceId: partner1.instanceId, partnerLabelAsymId: partner2.labelAsymId, partnerInstanceId: partner2.instanceId },
+                    });
+                }
+                break;
+            }
+            case 'pdbconnect_symmetry': {
+                const assemblies = await this.dataProvider.assemblies(entryId);
+                if (assemblies.some(ass => ass.preferred)) {
+                    out.push({ kind: 'pdbconnect_symmetry', name: `Symmetry of preferred complex`, params: { entry: entryId, assemblyId: PREFERRED } });
+                }
+                for (const ass of assemblies) {
+                    out.push({ kind: 'pdbconnect_symmetry', name: `Symmetry of complex ${ass.assemblyId}`, params: { entry: entryId, assemblyId: ass.assemblyId } });
+                }
+                break;
+            }
+            case 'pdbconnect_glycosylation': {
+                const assemblies = await this.dataProvider.assemblies(entryId);
+                const preferredAssembly = getPreferredAssembly(assemblies).assemblyId;
+                const modelData = await this.modelProvider.getModel(entryId);
+                const chainInstancesInfo = getChainInstancesInAssemblies(modelData);
+                for (const site of getGlycosylationSites(modelData)) {
+                    const { label_asym_id: labelAsymId, label_seq_id: labelSeqId, label_comp_id: compId } = site.residue;
+                    let instances: (string | undefined)[] = chainInstancesInfo[preferredAssembly].operatorsPerChain[labelAsymId];
+                    if (instances === undefined || instances.length === 0) instances = [undefined];
+                    for (const instanceId of instances) {
+                        out.push({
+                            kind: 'pdbconnect_glycosylation',
+                            name: `Glycan ${site.glycanLabelAsymId} on ${compId} ${labelSeqId} (label_asym_id ${labelAsymId}, ${instanceId ? `instance_id ${instanceId}` : 'model'})`,
+                            params: { entry: entryId, assemblyId: PREFERRED, labelAsymId, labelSeqId, glycanLabelAsymId: site.glycanLabelAsymId, instanceId },
+                        });
+                    }
+                }
+                break;
+            }
             default:
                 throw new Error(`Invalid snapshot kind: ${kind}`);
         }
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+/** Golden-file regression tests: generate all snapshots for fixture entries and compare them to checked-in MVSJ files.
+ * After an intended change in snapshot generation, regenerate golden files by running
+ * `UPDATE_GOLDEN=1 yarn test --watchAll=false mvs-snapshot-provider` and review the changes with `git diff`. */
+
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import path from 'path';
+import { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import { FixtureDataProvider, FixtureModelProvider } from '../node/fixture-provider';
+import { MVSSnapshotListProvider } from './mvs-snapshot-list-provider';
+import { DefaultMVSSnapshotProviderConfig, MVSSnapshotProvider } from './mvs-snapshot-provider';
+import { PREFERRED, SnapshotKinds, type SnapshotSpec } from './mvs-snapshot-types';
+import { SnapshotSpecError } from './mvs-snapshot-validation';
+
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+const GOLDEN_DIR = path.join(__dirname, '__golden__');
+/** Entries with data in `FIXTURES_DIR` (synthetic entries: 0fix is a protein dimer with a modified residue, ligand, ion, and water;
+ * 0gly is a protein chain with an N-glycan) */
+const ENTRIES = ['0fix', '0gly'];
+/** Snapshots with non-default options, which are not listed by the snapshot list provider */
+const EXTRA_SPECS: { [entryId: string]: SnapshotSpec[] } = {
+    '0gly': [
+        { kind: 'pdbconnect_complex', name: 'Preferred complex (SNFG colors)', params: { entry: '0gly', assemblyId: PREFERRED, carbohydrateColors: 'snfg' } },
+    ],
+};
+const UPDATE_GOLDEN = !!process.env.UPDATE_GOLDEN;
+/** Replaces the creation timestamp, so that the output is reproducible */
+const FIXED_TIMESTAMP = '2000-01-01T00:00:00.000Z';
+
+const dataProvider = new FixtureDataProvider(FIXTURES_DIR);
+const modelProvider = new FixtureModelProvider(FIXTURES_DIR);
+const snapshotListProvider = new MVSSnapshotListProvider(dataProvider, modelProvider);
+const snapshotProvider = new MVSSnapshotProvider(MVSData, dataProvider, modelProvider, DefaultMVSSnapshotProviderConfig);
+
+
+describe.each(ENTRIES)('entry %s', entryId => {
+    /** Golden files checked so far (relative to entry directory), to detect orphaned files at the end */
+    const checkedFiles = new Set<string>();
+
+    test('snapshot list', async () => {
+        const specs = await snapshotListProvider.listSnapshots(entryId);
+        expectGolden(entryId, 'snapshots.json', JSON.stringify(specs, undefined, 1) + '\n', checkedFiles);
+    });
+
+    test.each(SnapshotKinds)('snapshots of kind %s', async kind => {
+        const specs = await snapshotListProvider.listSnapshots(entryId, kind);
+        const fileNames = specs.map(spec => `${kind}/${snapshotFileName(spec)}`);
+        expect(new Set(fileNames).size).toBe(fileNames.length); // snapshot names must be unique within kind
+        for (let i = 0; i < specs.length; i++) {
+            const snapshot = await snapshotProvider.getSnapshot(specs[i]);
+            expectGolden(entryId, fileNames[i], serializeSnapshot(snapshot), checkedFiles);
+        }
+    });
+
+    test('extra snapshots', async () => {
+        for (const spec of EXTRA_SPECS[entryId] ?? []) {
+            const snapshot = await snapshotProvider.getSnapshot(spec);
+            expectGolden(entryId, `extra/${snapshotFileName(spec)}`, serializeSnapshot(snapshot), checkedFiles);
+        }
+    });
+
+    test('no orphaned golden files', () => {
+        const entryDir = path.join(GOLDEN_DIR, entryId);
+        const orphans = listFilesRecursively(entryDir).filter(file => !checkedFiles.has(file));
+        if (UPDATE_GOLDEN) {
+            for (const file of orphans) rmSync(path.join(entryDir, file));
+            return;
+        }
+        expect(orphans).toEqual([]);
+    });
+});
+
+test('missing glycosylation site is reported as spec error', async () => {
+    const spec: SnapshotSpec = { kind: 'pdbconnect_glycosylation', name: 'Glycan', params: { entry: '0gly', assemblyId: PREFERRED, labelAsymId: 'A', labelSeqId: 3, glycanLabelAsymId: 'B', instanceId: 'ASM-1' } };
+    await expect(snapshotProvider.getSnapshot(spec)).rejects.toThrow('Residue A 3 is not glycosylated');
+    const unvalidated = snapshotProvider.getSnapshot(spec, { validate: false });
+    await expect(unvalidated).rejects.toThrow(SnapshotSpecError);
+    await expect(unvalidated).rejects.toThrow('Chain B is not a glycan attached to residue A 3');
+});
+
+
+/** Compare `actual` to the content of golden file (or overwrite the golden file if UPDATE_GOLDEN is set) */
+function expectGolden(entryId: string, fileName: string, actual: string, checkedFiles: Set<string>) {
+    checkedFiles.add(fileName);
+    const filePath = path.join(GOLDEN_DIR, entryId, fileName);
+    if (UPDATE_GOLDEN) {
+        mkdirSync(path.dirname(filePath), { recursive: true });
+        writeFileSync(filePath, actual, 'utf8');
+        return;
+    }
+    if (!existsSync(filePath)) {
+        throw new Error(`Golden file ${filePath} does not exist (run with UPDATE_GOLDEN=1 to create it)`);
+    }
+    const expected = readFileSync(filePath, 'utf8');
+    // Comparing multi-line strings gives line-by-line diff in the test report
+    expect(actual).toEqual(expected);
+}
+
+function serializeSnapshot(snapshot: MVSData): string {
+    const normalized = { ...snapshot, metadata: { ...snapshot.metadata, timestamp: FIXED_TIMESTAMP } } as MVSData;
+    return MVSData.toMVSJ(normalized, 1) + '\n';
+}
+
+/** Make a file name from snapshot name, e.g. 'Entity 1 (label_asym_id A, instance_id ASM-1)' -> 'Entity_1_label_asym_id_A_instance_id_ASM-1.mvsj' */
+function snapshotFileName(spec: SnapshotSpec): string {
+    const slug = spec.name.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '');
+    return `${slug}.mvsj`;
+}
+
+function listFilesRecursively(dir: string, prefix: string = ''): string[] {
+    if (!existsSync(dir)) return [];
+    const out: string[] = [];
+    for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) out.push(...listFilesRecursively(path.join(dir, entry.name), relPath));
+        else out.push(relPath);
+    }
+    return out;
+}
@@ -1,13 +1,18 @@
-import type { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import type { MVSData, Snapshot } from 'molstar/lib/extensions/mvs/mvs-data';
 import type { MVSAnimationNodeParams } from 'molstar/lib/extensions/mvs/tree/animation/animation-tree';
 import type * as Builder from 'molstar/lib/extensions/mvs/tree/mvs/mvs-builder';
-import type { ComponentExpressionT } from 'molstar/lib/extensions/mvs/tree/mvs/param-types';
-import { ANNOTATION_COLORS, ATOM_INTERACTION_COLORS, CHAIN_ANNOTATED_COLOR, MODRES_COLORS, RESIDUE_ANNOTATED_COLOR, RESIDUE_HIGHLIGHT_COLOR, VALIDATION_COLORS } from './colors';
-import type { IDataProvider } from './data-provider';
-import { applyElementColors, applyEntityColors, applyStandardComponents, applyStandardComponentsForChains, applyStandardComponentsForEntity, applyStandardRepresentations, atomicRepresentations, decideEntityType, entityIsLigand, getDomainColors, getDomainFamilyColors, getEntityColors, getModresColors, getPreferredAssembly, max, normalizeInsertionCode, smartFadedOpacity, StandardRepresentationType, unique } from './helpers';
-import type { IModelProvider } from './model-provider';
-import { MODEL, PREFERRED, type SnapshotSpec, type SnapshotSpecParams } from './mvs-snapshot-types';
-import { chainSurroundings, getChainInfo, structurePolymerResidueCount } from './structure-info';
+import type { ColorT, ComponentExpressionT } from 'molstar/lib/extensions/mvs/tree/mvs/param-types';
+import { Vec3 } from 'molstar/lib/mol-math/linear-algebra';
+import { type ColorTheme, type ColorThemeName, resolveColorTheme } from './colors';
+import { throwIfAborted } from './abort';
+import { type EntityRecord, type IDataProvider, SignalBoundDataProvider } from './data-provider';
+import { applyCompoundColors, applyElementColors, applyEntityColors, applyStandardComponents, applyStandardComponentsForChains, applyStandardComponentsForEntity, applyStandardRepresentations, atomicRepresentations, decideEntityType, entityIsLigand, getDomainColors, getDomainFamilyColors, getEntityColors, getModresColors, getSnfgColors, getSnfgMonosaccharides, getUniprotAccessions, getPreferredAssembly, max, normalizeInsertionCode, smartFadedOpacity, type SnfgMonosaccharide, StandardRepresentationType, unique } from './helpers';
+import { type IModelProvider, SignalBoundModelProvider } from './model-provider';
+import { type CarbohydrateColoring, MODEL, PREFERRED, type SnapshotSpec, type SnapshotSpecParams } from './mvs-snapshot-types';
+import { SnapshotSpecError, validateSnapshotSpec } from './mvs-snapshot-validation';
+import { DefaultTourStepDurations, type Tour } from './mvs-tour';
+import { addEntityLegend, addLegendEntry, createSnapshotInfo, RecordingDataProvider, SNAPSHOT_INFO_CUSTOM_KEY, type SnapshotInfo } from './snapshot-info';
+import { chainSurroundingsInAssembly, type ChainInstance, getAssemblySymmetry, getChainInfo, getChainInstancesInAssemblies, getChainInterface, getGlycosylationSites, INTERFACE_CONTACT_DISTANCE, residueSurroundingsInAssembly, structurePolymerResidueCount } from './structure-info';
 
 
 /** Level of opacity used for domain and ligand images */
@@ -16,10 +21,18 @@ const FADED_OPACITY = 0.5;
 const FOCUS_RADIUS_FACTOR = 1;
 /** Radius extent for focusing ligands and modified residues (radius = (bounding sphere radius) * factor + extent) */
 const FOCUS_RADIUS_EXTENT = 2.5;
+/** Opacity of the surface over interface residues */
+const INTERFACE_SURFACE_OPACITY = 0.4;
+/** Length of drawn symmetry axes, relative to assembly radius (half-length = radius * factor) */
+const SYMMETRY_AXIS_LENGTH_FACTOR = 1.2;
+/** Radius of ligand and residue environments (residues with any atom within this distance in Angstroms) */
+const ENVIRONMENT_RADIUS = 5;
 /** Tube radius for atom interactions */
 const INTERACTION_TUBE_RADIUS = 0.075;
 /** Tube dash length for atom interactions */
 const INTERACTION_TUBE_DASH_LENGTH = 0.1;
+/** Description sentence for views with carbohydrates in SNFG colours */
+const SNFG_DESCRIPTION = 'Carbohydrates are coloured by monosaccharide type, following the Symbol Nomenclature for Glycans (SNFG).';
 /** Nice names for atom interaction types */
 export const INTERACTION_NICE_NAMES: Record<string, string> = {
     clash: 'Covalent clash',
@@ -48,6 +61,16 @@ export const INTERACTION_NICE_NAMES: Record<string, string> = {
 };
 
 
+export interface GetSnapshotOptions {
+    /** Cancels creating the snapshot, including all pending data and model requests */
+    signal?: AbortSignal,
+    /** Check the spec against the entry data before creating the snapshot and throw `SnapshotSpecError` if invalid (default true) */
+    validate?: boolean,
+    /** Override `ColorTheme` from the provider config for this request */
+    colorTheme?: ColorTheme | ColorThemeName,
+}
+
+
 export class MVSSnapshotProvider {
     constructor(
         /** MVSData library object (from molstar/lib/extensions/mvs/mvs-data) */
@@ -57,14 +80,90 @@ export class MVSSnapshotProvider {
         public readonly config: MVSSnapshotProviderConfig,
     ) { }
 
-    async getSnapshot(spec: SnapshotSpec): Promise<MVSData> {
-        const ctx = await this.loadSnapshotSpec(spec);
-        const description = ctx.description;
+    /** Colors for creating snapshots */
+    private get theme(): ColorTheme {
+        return resolveColorTheme(this.config.ColorTheme);
+    }
+
+    async getSnapshot(spec: SnapshotSpec, options?: GetSnapshotOptions): Promise<MVSData> {
+        if (options?.signal) {
+            throwIfAborted(options.signal);
+            const snapshot = await this.withSignal(options.signal).getSnapshot(spec, { ...options, signal: undefined });
+            throwIfAborted(options.signal);
+            return snapshot;
+        }
+        if (options?.colorTheme !== undefined) {
+            return await this.withColorTheme(options.colorTheme).getSnapshot(spec, { ...options, colorTheme: undefined });
+        }
+        const snapshot = await this.createState(spec, { title: spec.name, lingerDurationMs: 10_000, transitionDurationMs: 500 }, options?.validate ?? true);
+        return this.MVSDataLib.createMultistate([snapshot], { title: spec.name, description: snapshot.metadata.description });
+    }
+
+    /** Create one multistate MVS with a state for each step of `tour`.
+     * Consecutive states showing the same entry reuse the loaded structure, and the camera is animated from one state to the next (over `transitionDurationMs`). */
+    async getTour(tour: Tour, options?: GetSnapshotOptions): Promise<MVSData> {
+        if (options?.signal) {
+            throwIfAborted(options.signal);
+            const data = await this.withSignal(options.signal).getTour(tour, { ...options, signal: undefined });
+            throwIfAborted(options.signal);
+            return data;
+        }
+        if (options?.colorTheme !== undefined) {
+            return await this.withColorTheme(options.colorTheme).getTour(tour, { ...options, colorTheme: undefined });
+        }
+        if (tour.steps.length === 0) throw new Error(`Tour "${tour.title}" has no steps`);
+        const snapshots: Snapshot[] = [];
+        for (let i = 0; i < tour.steps.length; i++) {
+            const step = tour.steps[i];
+            const snapshot = await this.createState(step.spec, {
+                title: step.title ?? step.spec.name,
+                narrative: step.narrative,
+                lingerDurationMs: step.lingerDurationMs ?? DefaultTourStepDurations.lingerDurationMs,
+                transitionDurationMs: step.transitionDurationMs ?? DefaultTourStepDurations.transitionDurationMs,
+            }, options?.validate ?? true);
+            snapshot.metadata.key = `step-${i + 1}`;
+            snapshots.push(snapshot);
+        }
+        const description = [
+            ...(tour.description ? [tour.description] : []),
+            tour.steps.map((step, i) => `${i + 1}. ${step.title ?? step.spec.name}`).join('\n'),
+        ];
+        return this.MVSDataLib.createMultistate(snapshots, { title: tour.title, description: description.join('\n\n') });
+    }
+
+    /** Create one MVS state for `spec`, with `narrative` (if any) preceding the generated description.
+     * The state carries `SnapshotInfo` in the custom state of its root node (see `getSnapshotInfo`). */
+    private async createState(spec: SnapshotSpec, metadata: { title: string, narrative?: string, lingerDurationMs: number, transitionDurationMs: number }, validate: boolean): Promise<Snapshot> {
+        if (validate) {
+            const validation = await validateSnapshotSpec(spec, this.dataProvider, this.modelProvider);
+            if (!validation.valid) throw new SnapshotSpecError(validation.issues);
+            spec = validation.spec;
+        }
+        const recordingDataProvider = new RecordingDataProvider(this.dataProvider);
+        const ctx = await new MVSSnapshotProvider(this.MVSDataLib, recordingDataProvider, this.modelProvider, this.config).loadSnapshotSpec(spec);
+        ctx.info.dataSources.push(...Array.from(recordingDataProvider.used));
+        ctx.root.extendRootCustomState({ [SNAPSHOT_INFO_CUSTOM_KEY]: ctx.info });
+        const description = metadata.narrative ? [metadata.narrative, ...ctx.description] : ctx.description;
         description.push('---');
         description.push(`- **View kind:** ${spec.kind}`);
         description.push(`- **View params:** ${JSON.stringify(spec.params, undefined, 1)}`);
-        const snapshot = ctx.root.getSnapshot({ title: spec.name, description: description.join('\n\n'), linger_duration_ms: 10_000, transition_duration_ms: 500 });
-        return this.MVSDataLib.createMultistate([snapshot], { title: spec.name, description: description.join('\n\n') });
+        return ctx.root.getSnapshot({ title: metadata.title, description: description.join('\n\n'), linger_duration_ms: metadata.lingerDurationMs, transition_duration_ms: metadata.transitionDurationMs });
+    }
+
+    /** Return a provider which passes `signal` to all data and model requests */
+    private withSignal(signal: AbortSignal): MVSSnapshotProvider {
+        return new MVSSnapshotProvider(this.MVSDataLib, new SignalBoundDataProvider(this.dataProvider, signal), new SignalBoundModelProvider(this.modelProvider, signal), this.config);
+    }
+
+    /** Return a provider using `colorTheme` instead of the configured one */
+    private withColorTheme(colorTheme: ColorTheme | ColorThemeName): MVSSnapshotProvider {
+        return new MVSSnapshotProvider(this.MVSDataLib, this.dataProvider, this.modelProvider, { ...this.config, ColorTheme: resolveColorTheme(colorTheme) });
+    }
+
+    /** Colors for entities of `entry` (protein entities colored by UniProt accession if `config.ProteinColorsByUniprot`) */
+    private async getEntityColors(entry: string, entities: { [entityId: string]: EntityRecord }): Promise<{ [entityId: string]: ColorT }> {
+        const uniprotAccessions = this.config.ProteinColorsByUniprot ? getUniprotAccessions(await this.dataProvider.siftsMappingsByEntity(entry)) : undefined;
+        return getEntityColors(entities, this.theme, { uniprotAccessions });
     }
 
     private async loadSnapshotSpec(spec: SnapshotSpec) {
@@ -89,12 +188,19 @@ export class MVSSnapshotProvider {
             case 'pdbconnect_quality': return await this.loadPdbconnectQuality(spec.params);
             case 'pdbconnect_environment': return await this.loadPdbconnectEnvironment(spec.params);
             case 'pdbconnect_text_annotation': return await this.loadPdbconnectTextAnnotation(spec.params);
+            case 'pdbconnect_interface': return await this.loadPdbconnectInterface(spec.params);
+            case 'pdbconnect_symmetry': return await this.loadPdbconnectSymmetry(spec.params);
+            case 'pdbconnect_glycosylation': return await this.loadPdbconnectGlycosylation(spec.params);
         }
     }
 
-    private _loadRoot(): { root: Builder.Root } {
+    private _loadRoot(): { root: Builder.Root, info: SnapshotInfo } {
+        const root = this.MVSDataLib.createBuilder();
+        const { canvasBackground } = this.theme;
+        if (canvasBackground !== undefined) root.canvas({ background_color: canvasBackground });
         return {
-            root: this.MVSDataLib.createBuilder(),
+            root,
+            info: createSnapshotInfo(),
         };
     }
 
@@ -120,11 +226,13 @@ export class MVSSnapshotProvider {
         const representations = applyStandardRepresentations(components, { opacityFactor: 1, skipComponents: ['water'] });
 
         const entities = await this.dataProvider.entities(params.entry);
-        const entityColors = getEntityColors(entities);
+        const entityColors = await this.getEntityColors(params.entry, entities);
         for (const repr of Object.values(representations)) {
             applyEntityColors(repr, entityColors);
         }
 
+        addEntityLegend(ctx.info, entities, entityColors);
+
         const description: string[] = [];
         description.push('## Deposited model');
         return { ...ctx, description };
@@ -143,11 +251,14 @@ export class MVSSnapshotProvider {
         const representations = applyStandardRepresentations(components, { opacityFactor: 1, skipComponents: ['water'] });
 
         const entities = await this.dataProvider.entities(params.entry);
-        const entityColors = getEntityColors(entities);
+        const entityColors = await this.getEntityColors(params.entry, entities);
         for (const repr of Object.values(representations)) {
             applyEntityColors(repr, entityColors);
         }
 
+        ctx.info.displayedAssembly = params.assemblyId;
+        addEntityLegend(ctx.info, entities, entityColors);
+
         const description: string[] = [];
         description.push(`## Assembly ${params.assemblyId}`);
         description.push(`This assembly is a ${assInfo?.form}-${assInfo?.name}.`);
@@ -184,11 +295,11 @@ export class MVSSnapshotProvider {
         const representations = applyStandardRepresentations(components, { opacityFactor: bgOpacity, skipComponents: ['water'] });
 
         for (const repr of Object.values(representations)) {
-            repr.color({ color: 'gray' });
+            repr.color({ color: this.theme.context });
         }
 
         const entities = await this.dataProvider.entities(params.entry);
-        const entityColors = getEntityColors(entities);
+        const entityColors = await this.getEntityColors(params.entry, entities);
         const entityType = decideEntityType(entities[params.entityId]);
 
         const entityComponents = applyStandardComponentsForEntity(struct, params.entityId, entityType, { modifiedResidues });
@@ -197,9 +308,13 @@ export class MVSSnapshotProvider {
             repr.color({ color: entityColors[params.entityId] });
         }
 
+        const entityName = entities[params.entityId].name;
+        ctx.info.displayedAssembly = theAssembly ?? MODEL;
+        ctx.info.highlights.push({ label: entityName || `Entity ${params.entityId}`, selector: { label_entity_id: params.entityId }, color: entityColors[params.entityId] });
+        addEntityLegend(ctx.info, entities, entityColors, [params.entityId]);
+
         const description: string[] = [];
         description.push(`## Entity ${params.entityId}`);
-        const entityName = entities[params.entityId].name;
         description.push((entityName ? `__${entityName}__` : '*Entity name not available*') + ` (${entityType})`);
         if (theAssembly === preferredAssembly) {
             description.push(`Showing in assembly ${theAssembly} (preferred).`);
@@ -218,7 +333,7 @@ export class MVSSnapshotProvider {
 
         const coverages = await this.dataProvider.authChainCoverages(params.entry);
         const domainInfo = await this.dataProvider.siftsMappingsByEntity(params.entry);
-        const domainColors = getDomainColors(domainInfo); // TODO cache? (incl. many things that need to be computed just once, e.g. getChainInfo)
+        const domainColors = getDomainColors(domainInfo, this.theme); // TODO cache? (incl. many things that need to be computed just once, e.g. getChainInfo)
 
         const domainsInEntity = domainInfo[params.source][params.familyId][params.entityId];
         const shownAuthChain = max(domainsInEntity.map(dom => dom.chunks[0].authChainId), chain => coverages[chain]);
@@ -235,15 +350,18 @@ export class MVSSnapshotProvider {
         const components = applyStandardComponentsForChains(struct, chainsToShow, chainInfo, entitiesInfo, { modifiedResidues });
         const representations = applyStandardRepresentations(components, { opacityFactor: FADED_OPACITY, skipComponents: ['water'] })
         for (const repr of Object.values(representations)) {
-            repr.color({ color: 'gray' });
+            repr.color({ color: this.theme.context });
         }
         for (const domain of domainsInChain) {
             const domainComp = struct.component({ selector: domain.chunks.map(chunk => ({ label_asym_id: chunk.chainId, beg_label_seq_id: chunk.startResidue, end_label_seq_id: chunk.endResidue })) });
             const modresInDomain = modifiedResidues.filter(r => r.labelAsymId === domain.chunks[0].chainId && domain.chunks.some(dom => (dom.startResidue ?? Infinity) <= r.labelSeqId && r.labelSeqId <= (dom.endResidue ?? -Infinity)));
             const modresComp = struct.component({ selector: modresInDomain.map(r => ({ label_asym_id: r.labelAsymId, label_seq_id: r.labelSeqId })) });
-            const color = (domainColors[domain.id] ?? ANNOTATION_COLORS[0]);
+            const color = (domainColors[domain.id] ?? this.theme.annotation[0]);
             domainComp.representation({ type: 'cartoon' }).color({ color });
             modresComp.representation({ type: 'ball_and_stick' }).color({ color });
+            const label = `${params.source} ${params.familyId} domain ${domain.id}`;
+            ctx.info.highlights.push({ label, selector: domain.chunks.map(chunk => ({ label_asym_id: chunk.chainId, beg_label_seq_id: chunk.startResidue, end_label_seq_id: chunk.endResidue })), color });
+            addLegendEntry(ctx.info, label, color);
         }
 
         const description: string[] = [];
@@ -263,50 +381,73 @@ export class MVSSnapshotProvider {
         const entityRecord = Object.values(entities).find(ent => ent.compIds.length === 1 && ent.compIds[0] === params.compId);
         const description: string[] = [];
         if (entityRecord === undefined) {
+            ctx.info.warnings.push(`Ligand ${params.compId} not found`);
             description.push(`Ligand ${params.compId} not found`);
             return { ...ctx, description };
         }
+        const modelData = await this.modelProvider.getModel(params.entry);
+        const instancesInAssembly = params.assemblyId !== undefined ? getChainInstancesInAssemblies(modelData)[params.assemblyId]?.operatorsPerChain ?? {} : undefined;
         let labelAsymId: string;
         if (params.labelAsymId) {
             if (!entityRecord.chains.includes(params.labelAsymId)) {
+                ctx.info.warnings.push(`Ligand ${params.compId} not found in chain ${params.labelAsymId}`);
                 description.push(`Ligand ${params.compId} not found in chain ${params.labelAsymId}`);
                 return { ...ctx, description };
             }
             labelAsymId = params.labelAsymId;
         } else {
-            labelAsymId = entityRecord.chains[0];
+            labelAsymId = entityRecord.chains.find(chain => instancesInAssembly?.[chain] !== undefined) ?? entityRecord.chains[0];
         }
+        // Show the ligand in the assembly if requested, including symmetry mates in its surroundings
+        const assemblyId = instancesInAssembly?.[labelAsymId] !== undefined ? params.assemblyId : undefined;
+        const instanceId = assemblyId !== undefined ? params.instanceId ?? instancesInAssembly?.[labelAsymId][0] : undefined;
 
-        const struct = ctx.model.modelStructure();
+        const struct = assemblyId !== undefined ? ctx.model.assemblyStructure({ assembly_id: assemblyId }) : ctx.model.modelStructure();
 
         const modifiedResidues = await this.dataProvider.modifiedResidues(params.entry);
         const components = applyStandardComponents(struct, { modifiedResidues });
 
-        const modelData = await this.modelProvider.getModel(params.entry);
-        const bgOpacity = smartFadedOpacity(structurePolymerResidueCount(modelData, undefined));
+        const bgOpacity = smartFadedOpacity(structurePolymerResidueCount(modelData, assemblyId));
         const representations = applyStandardRepresentations(components, { opacityFactor: bgOpacity, skipComponents: ['water'] });
 
         for (const repr of Object.values(representations)) {
-            repr.color({ color: 'gray' });
+            repr.color({ color: this.theme.context });
         }
-        const ligandComp = struct.component({ selector: { label_asym_id: labelAsymId } });
+        const ligandComp = struct.component({ selector: { label_asym_id: labelAsymId, instance_id: instanceId } });
 
-        const entityColors = getEntityColors(entities);
+        const entityColors = await this.getEntityColors(params.entry, entities);
         const ligandRepr = ligandComp.representation({ type: 'ball_and_stick' }).color({ color: entityColors[entityRecord.id] });
         applyElementColors(ligandRepr);
 
-        const LIGAND_ENVIRONMENT_RADIUS = 5;
-        const environmentSelector = chainSurroundings(modelData, labelAsymId, LIGAND_ENVIRONMENT_RADIUS);
+        const environmentSelector = chainSurroundingsInAssembly(modelData, assemblyId, { labelAsymId, instanceId }, ENVIRONMENT_RADIUS);
         const environmentComp = struct.component({ selector: environmentSelector });
-        const environmentRepr = environmentComp.representation({ type: 'ball_and_stick', size_factor: 0.5 }).color({ color: 'gray' });
+        const environmentRepr = environmentComp.representation({ type: 'ball_and_stick', size_factor: 0.5 }).color({ color: this.theme.context });
         applyElementColors(environmentRepr);
         environmentComp.focus();
 
+        ctx.info.displayedAssembly = assemblyId ?? MODEL;
+        ctx.info.highlights.push(
+            { label: `Ligand ${params.compId}`, selector: { label_asym_id: labelAsymId, instance_id: instanceId }, color: entityColors[entityRecord.id] },
+            { label: `Surroundings of ligand ${params.compId}`, selector: environmentSelector },
+        );
+        addEntityLegend(ctx.info, entities, entityColors, [entityRecord.id]);
+
         const chainInfo = getChainInfo(modelData);
         const authAsymId = chainInfo[labelAsymId].authChainId;
 
         description.push(`## Ligand ${params.compId}`);
-        description.push(`Showing ligand **${entityRecord.name}** (${params.compId}) in chain ${labelAsymId} [auth ${authAsymId}] in the deposited model.`);
+        if (assemblyId !== undefined) {
+            description.push(`Showing ligand **${entityRecord.name}** (${params.compId}) in chain ${labelAsymId} [auth ${authAsymId}] instance ${instanceId} in assembly ${assemblyId}.`);
+            const nMates = new Set(environmentSelector.filter(r => r.instance_id !== instanceId).map(r => r.instance_id)).size;
+            if (nMates > 0) description.push(`The surroundings include residues from ${nMates} other symmetry ${nMates === 1 ? 'instance' : 'instances'}.`);
+        } else {
+            description.push(`Showing ligand **${entityRecord.name}** (${params.compId}) in chain ${labelAsymId} [auth ${authAsymId}] in the deposited model.`);
+            if (params.assemblyId !== undefined) {
+                const message = `Chain ${labelAsymId} (label_asym_id) is not present in the requested assembly (${params.assemblyId}), displaying the deposited model instead.`;
+                ctx.info.fallback = { reason: 'chain_not_in_assembly', requestedAssembly: params.assemblyId, message };
+                description.push(`*\u26A0 ${message}*`);
+            }
+        }
         return { ...ctx, description };
     }
 
@@ -327,15 +468,18 @@ export class MVSSnapshotProvider {
         const representations = applyStandardRepresentations(components, { opacityFactor: bgOpacity, skipComponents: ['water'] });
 
         for (const repr of Object.values(representations)) {
-            repr.color({ color: 'gray' });
+            repr.color({ color: this.theme.context });
         }
 
         const modresComp = struct.component({
             selector: modifiedResidues.filter(r => r.compoundId === params.compId).map(r => ({ label_asym_id: r.labelAsymId, label_seq_id: r.labelSeqId })),
         });
         const modresRepr = modresComp.representation({ type: 'ball_and_stick' });
-        const modresColors = getModresColors(modifiedResidues);
-        modresRepr.color({ color: modresColors[params.compId] ?? MODRES_COLORS[0] });
+        const modresColors = getModresColors(modifiedResidues, this.theme);
+        modresRepr.color({ color: modresColors[params.compId] ?? this.theme.modres[0] });
+        ctx.info.displayedAssembly = preferredAssembly ?? MODEL;
+        ctx.info.highlights.push({ label: `Modified residue ${params.compId}`, selector: modifiedResidues.filter(r => r.compoundId === params.compId).map(r => ({ label_asym_id: r.labelAsymId, label_seq_id: r.labelSeqId })), color: modresColors[params.compId] ?? this.theme.modres[0] });
+        addLegendEntry(ctx.info, params.compId, modresColors[params.compId] ?? this.theme.modres[0]);
 
         const description: string[] = [];
         const modresName = modifiedResidues.find(r => r.compoundId === params.compId)?.compoundName;
@@ -360,23 +504,26 @@ export class MVSSnapshotProvider {
         const representations = applyStandardRepresentations(components, { skipComponents: ['polymer', 'water'] });
         representations.polymerCartoon = components.polymer?.representation({ type: 'cartoon' }); // TODO Molstar: make this putty with size "uncertainty" (low prio)
 
+        const { bfactor } = this.theme;
         for (const repr of Object.values(representations)) {
             repr.colorFromSource({
                 schema: 'all_atomic', category_name: 'atom_site', field_name: 'B_iso_or_equiv',
                 palette: {
                     kind: 'continuous',
-                    colors: 'Plasma',
+                    colors: bfactor.colors,
                     value_domain: [0, 120], // TODO ask about reasonable cutoff for Bfactor
-                    overflow_color: '#eff821', // last color from Plasma
+                    overflow_color: bfactor.high,
                 },
             });
         }
         struct.component().tooltip({ text: '<hr>B-factor:' });
         struct.tooltipFromSource({ schema: 'all_atomic', category_name: 'atom_site', field_name: 'B_iso_or_equiv' });
+        addLegendEntry(ctx.info, 'B-factor 0', bfactor.low);
+        addLegendEntry(ctx.info, 'B-factor 120 or more', bfactor.high);
 
         const description: string[] = [];
         description.push(`## B-factor`);
-        description.push(`Showing B-factor for the deposited model, colored by Plasma color scheme (0 = blue, 120 = yellow). Values above 120 are clipped.`);
+        description.push(`Showing B-factor for the deposited model, colored by ${bfactor.description}. Values above 120 are clipped.`);
         return { ...ctx, description };
     }
 
@@ -416,31 +563,30 @@ export class MVSSnapshotProvider {
             }
             const annotationUri = annotationHeader + annotationRows.join(' ');
             for (const repr of Object.values(representations)) {
-                repr.color({ color: VALIDATION_COLORS[0] }); // base color for residues without issues (not listed in the report)
+                repr.color({ color: this.theme.validation[0] }); // base color for residues without issues (not listed in the report)
             }
             representations.polymerCartoon?.colorFromUri({
                 uri: annotationUri, format: 'cif', schema: 'all_atomic', category_name: 'annot', field_name: 'class',
-                palette: { kind: 'categorical', colors: { '0': VALIDATION_COLORS[0], '1': VALIDATION_COLORS[1], '2': VALIDATION_COLORS[2], '3': VALIDATION_COLORS[3], 'y': VALIDATION_COLORS.HAS_ISSUE } },
+                palette: { kind: 'categorical', colors: { '0': this.theme.validation[0], '1': this.theme.validation[1], '2': this.theme.validation[2], '3': this.theme.validation[3], 'y': this.theme.validation.HAS_ISSUE } },
             });
             struct.component().tooltip({ text: '<hr>Validation:' });
             struct.tooltipFromUri({ uri: annotationUri, format: 'cif', schema: 'all_atomic', category_name: 'annot', field_name: 'tooltip' });
-            if (params.validation_type === 'issue_count') {
-                description.push(`**PDBe Structure Quality Report:** Residues are coloured by the number of geometry validation issue types. White - no issues, yellow - one issue type, orange - two issue types, red - three or more issue types.`);
-            } else {
-                description.push(`**PDBe Structure Quality Report:** Residues are coloured by presence of "${params.validation_type}" validation issues. White - no issue, red - has issues.`);
-            }
+            addValidationLegend(ctx.info, params.validation_type, this.theme.validation);
+            description.push(describeValidationColoring(params.validation_type));
         } else {
             for (const repr of Object.values(representations)) {
-                repr.color({ color: VALIDATION_COLORS.NOT_APPLICABLE });
+                repr.color({ color: this.theme.validation.NOT_APPLICABLE });
             }
             struct.component().tooltip({ text: '<hr>Validation: Not available' });
+            addLegendEntry(ctx.info, 'Validation not available', this.theme.validation.NOT_APPLICABLE);
+            ctx.info.warnings.push('PDBe Structure Quality Report not available for this entry.');
             description.push(`PDBe Structure Quality Report not available for this entry.`);
         }
         return { ...ctx, description };
     }
 
     /** Create base for all PDBconnect views */
-    private async _loadPdbconnectBase(params: { entry: string, assemblyId: string, ensureChain?: string }) {
+    private async _loadPdbconnectBase(params: { entry: string, assemblyId: string, ensureChain?: string, carbohydrateColors?: CarbohydrateColoring }) {
         const ctx = this._loadModel(params);
 
         let displayedAssembly = params.assemblyId === PREFERRED ?
@@ -452,14 +598,27 @@ export class MVSSnapshotProvider {
             // Find out if the assembly contains this chain entity and potentially fall back to deposited model
             const chainPresent = chainsInAssemblies[params.ensureChain]?.assemblies.includes(displayedAssembly);
             if (!chainPresent) {
+                ctx.info.fallback = {
+                    reason: 'chain_not_in_assembly',
+                    requestedAssembly: params.assemblyId,
+                    message: `Chain ${params.ensureChain} (label_asym_id) is not present in the requested assembly (${params.assemblyId}), displaying the deposited model instead.`,
+                };
                 displayedAssembly = MODEL;
             }
         }
+        ctx.info.displayedAssembly = displayedAssembly;
 
         const structure = displayedAssembly === MODEL ? ctx.model.modelStructure() : ctx.model.assemblyStructure({ assembly_id: displayedAssembly });
         const modifiedResidues = await this.dataProvider.modifiedResidues(params.entry);
         const components = applyStandardComponents(structure, { modifiedResidues });
-        const representations = applyStandardRepresentations(components, { opacityFactor: 1 });
+        let snfg: { [compId: string]: SnfgMonosaccharide } | undefined = undefined;
+        if (params.carbohydrateColors === 'snfg') {
+            const compIds = unique(Object.values(await this.dataProvider.entities(params.entry)).flatMap(ent => ent.compIds));
+            const monosaccharides = getSnfgMonosaccharides(compIds);
+            if (Object.keys(monosaccharides).length > 0) snfg = monosaccharides;
+            addSnfgLegend(ctx.info, monosaccharides);
+        }
+        const representations = applyStandardRepresentations(components, { opacityFactor: 1, carbohydrateColors: snfg && getSnfgColors(Object.keys(snfg)) });
         // TODO Molstar: ball_and_stick size theme physical?
         // TODO compute PCA to orient camera?
 
@@ -468,7 +627,7 @@ export class MVSSnapshotProvider {
             structure,
             components,
             representations,
-            metadata: { displayedAssembly, modifiedResidues },
+            metadata: { displayedAssembly, modifiedResidues, snfg },
         };
     }
 
@@ -476,13 +635,15 @@ export class MVSSnapshotProvider {
     private async loadPdbconnectComplex(params: SnapshotSpecParams['pdbconnect_complex'] & { ensureChain?: string }) {
         const ctx = await this._loadPdbconnectBase(params);
         const entities = await this.dataProvider.entities(params.entry);
-        const entityColors = getEntityColors(entities);
-        for (const repr of Object.values(ctx.representations)) {
+        const entityColors = await this.getEntityColors(params.entry, entities);
+        for (const [reprName, repr] of Object.entries(ctx.representations)) {
+            if (reprName as StandardRepresentationType === 'branchedCarbohydrate' && ctx.metadata.snfg) continue; // keep SNFG colours
             applyEntityColors(repr, entityColors);
         }
         for (const repr of atomicRepresentations(ctx.representations)) {
             applyElementColors(repr);
         }
+        addEntityLegend(ctx.info, entities, entityColors);
         // TODO ensure default Molstar show-environment behavior uses either entity colors or all-gray -> PDBeMolstar does it somehow but now idea how (+ ideally increase bubble size)
 
         const description: string[] = [];
@@ -492,6 +653,7 @@ export class MVSSnapshotProvider {
             description.push(`## Complex ${ctx.metadata.displayedAssembly}`);
         }
         description.push(`This is complex (assembly) ${ctx.metadata.displayedAssembly}.`);
+        if (ctx.metadata.snfg) description.push(SNFG_DESCRIPTION);
         return {
             ...ctx,
             metadata: {
@@ -505,7 +667,7 @@ export class MVSSnapshotProvider {
 
     /** Create MVS view for PDBconnect Summary tab > Macromolecules (macromolecule selected), Macromolecules tab */
     private async loadPdbconnectMacromolecule(params: SnapshotSpecParams['pdbconnect_macromolecule']) {
-        const ctx = await this._loadPdbconnectBase({ entry: params.entry, assemblyId: params.assemblyId, ensureChain: params.labelAsymId });
+        const ctx = await this._loadPdbconnectBase({ entry: params.entry, assemblyId: params.assemblyId, ensureChain: params.labelAsymId, carbohydrateColors: params.carbohydrateColors });
         const { displayedAssembly } = ctx.metadata;
 
         // const modelData = await this.modelProvider.getModel(params.entry);
@@ -515,10 +677,11 @@ export class MVSSnapshotProvider {
         // }
 
         const entities = await this.dataProvider.entities(params.entry);
-        const entityColors = getEntityColors(entities);
+        const entityColors = await this.getEntityColors(params.entry, entities);
         const entityInstanceSelector: ComponentExpressionT = { label_entity_id: params.entityId, label_asym_id: params.labelAsymId, instance_id: params.instanceId };
 
-        for (const repr of Object.values(ctx.representations)) {
+        for (const [reprName, repr] of Object.entries(ctx.representations)) {
+            if (reprName as StandardRepresentationType === 'branchedCarbohydrate' && ctx.metadata.snfg) continue; // keep SNFG colours
             repr.color({ selector: entityInstanceSelector, color: entityColors[params.entityId] });
         }
         // TODO use coloring by element within selection (entity) (once Molstar >=5.5.1 available)
@@ -526,6 +689,8 @@ export class MVSSnapshotProvider {
         //     applyElementColors(repr);
         // }
         ctx.structure.component({ selector: entityInstanceSelector }).focus();
+        ctx.info.highlights.push({ label: entities[params.entityId].name || `Entity ${params.entityId}`, selector: entityInstanceSelector, color: entityColors[params.entityId] });
+        addEntityLegend(ctx.info, entities, entityColors, [params.entityId]);
 
         // const entityType = decideEntityType(entities[params.entityId]);
         // const entityComponents = applyStandardComponentsForChain(base.structure, params.labelAsymId, params.instanceId, entityType, { modifiedResidues });
@@ -547,6 +712,7 @@ export class MVSSnapshotProvider {
         description.push(`## Macromolecule ${params.entityId}`);
         const assemblyText = displayedAssembly === MODEL ? 'the deposited model' : `complex (assembly) ${displayedAssembly}`;
         description.push(`This is macromolecule ${params.entityId} **${entities[params.entityId].name}** in chain ${params.labelAsymId} (label_asym_id) in ${assemblyText}.`);
+        if (ctx.metadata.snfg) description.push(SNFG_DESCRIPTION);
         if (displayedAssembly === MODEL && params.assemblyId !== MODEL) {
             description.push(`*\u26A0 Chain ${params.labelAsymId} (label_asym_id) is not present in the requested assembly (${params.assemblyId}), displaying the deposited model instead.*`);
         }
@@ -562,7 +728,7 @@ export class MVSSnapshotProvider {
         const { displayedAssembly } = ctx.metadata;
 
         const entities = await this.dataProvider.entities(params.entry);
-        const entityColors = getEntityColors(entities);
+        const entityColors = await this.getEntityColors(params.entry, entities);
         for (const entityId in entities) {
             const entity = entities[entityId];
             const entityColor = entityColors[entityId];
@@ -571,6 +737,8 @@ export class MVSSnapshotProvider {
                     .component({ selector: { label_entity_id: entity.id } })
                     .representation({ type: 'spacefill' })
                     .color({ color: entityColor });
+                ctx.info.highlights.push({ label: `${entity.compIds[0]}: ${entity.name}`, selector: { label_entity_id: entity.id }, color: entityColor });
+                addEntityLegend(ctx.info, entities, entityColors, [entityId]);
             }
         }
 
@@ -586,17 +754,19 @@ export class MVSSnapshotProvider {
 
     /** Create MVS view for PDBconnect Summary tab > Ligands (ligand selected) */
     private async loadPdbconnectLigand(params: SnapshotSpecParams['pdbconnect_ligand']) {
-        const ctx = await this.loadPdbconnectComplex({ entry: params.entry, assemblyId: params.assemblyId, ensureChain: params.labelAsymId });
+        const ctx = await this.loadPdbconnectComplex({ entry: params.entry, assemblyId: params.assemblyId, ensureChain: params.labelAsymId, carbohydrateColors: params.carbohydrateColors });
         const { displayedAssembly, entities } = ctx.metadata;
 
         ctx.structure
             .component({ selector: { label_asym_id: params.labelAsymId, instance_id: params.instanceId } })
             .focus({ radius_factor: FOCUS_RADIUS_FACTOR, radius_extent: FOCUS_RADIUS_EXTENT });
+        ctx.info.highlights.push({ label: `Ligand ${entities[params.entityId].compIds[0]}`, selector: { label_asym_id: params.labelAsymId, instance_id: params.instanceId }, color: ctx.metadata.entityColors[params.entityId] });
 
         const description: string[] = [];
         description.push(`## Ligand entity ${params.entityId}`);
         const assemblyText = displayedAssembly === MODEL ? 'the deposited model' : `complex (assembly) ${displayedAssembly}`;
         description.push(`This is ligand entity ${params.entityId} **${entities[params.entityId].compIds[0]}** in chain ${params.labelAsymId} (label_asym_id) in ${assemblyText}.`);
+        if (ctx.metadata.snfg) description.push(SNFG_DESCRIPTION);
         if (displayedAssembly === MODEL && params.assemblyId !== MODEL) {
             description.push(`*\u26A0 Chain ${params.labelAsymId} (label_asym_id) is not present in the requested assembly (${params.assemblyId}), displaying the deposited model instead.*`);
         }
@@ -626,12 +796,13 @@ export class MVSSnapshotProvider {
         const { displayedAssembly } = ctx.metadata;
 
         const domainInfo = await this.dataProvider.siftsMappingsByEntity(params.entry);
-        const domainFamilyColors = getDomainFamilyColors(domainInfo); // TODO cache?
+        const domainFamilyColors = getDomainFamilyColors(domainInfo, this.theme); // TODO cache?
 
         const srcDomains = domainInfo[params.source];
         for (const familyId in srcDomains) {
             const famDomains = srcDomains[familyId];
             const color = domainFamilyColors[familyId];
+            addLegendEntry(ctx.info, `${params.source} ${familyId}`, color);
             for (const entityId in famDomains) {
                 const entDomains = famDomains[entityId];
                 for (const domain of entDomains) {
@@ -657,7 +828,7 @@ export class MVSSnapshotProvider {
     /** Create MVS view for PDBconnect Summary tab > Domains (domain selected), Domains tab */
     private async loadPdbconnectDomain(params: SnapshotSpecParams['pdbconnect_domain']) {
         const domainInfo = await this.dataProvider.siftsMappingsByEntity(params.entry);
-        const domainFamilyColors = getDomainFamilyColors(domainInfo);
+        const domainFamilyColors = getDomainFamilyColors(domainInfo, this.theme);
         const domain = domainInfo[params.source][params.familyId][params.entityId].find(dom => dom.id === params.domainId);
         const labelAsymId = domain?.chunks[0].chainId;
 
@@ -672,6 +843,10 @@ export class MVSSnapshotProvider {
             ctx.representations.polymerCartoon?.color({ selector, color });
             ctx.representations.nonstandardSticks?.color({ selector, color });
             ctx.structure.component({ selector }).focus();
+            ctx.info.highlights.push({ label: `${params.source} ${params.familyId} domain ${params.domainId}`, selector, color });
+            addLegendEntry(ctx.info, `${params.source} ${params.familyId}`, color);
+        } else {
+            ctx.info.warnings.push(`Domain ${params.domainId} not found`);
         }
         for (const repr of atomicRepresentations(ctx.representations)) {
             applyElementColors(repr);
@@ -693,10 +868,11 @@ export class MVSSnapshotProvider {
         const { displayedAssembly } = ctx.metadata;
 
         if (ctx.components.nonstandard) {
-            const modresColors = getModresColors(ctx.metadata.modifiedResidues);
+            const modresColors = getModresColors(ctx.metadata.modifiedResidues, this.theme);
             const modresSpacefill = ctx.components.nonstandard.representation({ type: 'spacefill' });
             for (const compId in modresColors) {
                 modresSpacefill.color({ selector: { label_comp_id: compId }, color: modresColors[compId] });
+                addLegendEntry(ctx.info, compId, modresColors[compId]);
             }
         }
 
@@ -715,8 +891,8 @@ export class MVSSnapshotProvider {
         const ctx = await this._loadPdbconnectBase({ entry: params.entry, assemblyId: params.assemblyId, ensureChain: params.labelAsymId });
         const { displayedAssembly } = ctx.metadata;
         const entities = await this.dataProvider.entities(params.entry);
-        const entityColors = getEntityColors(entities);
-        const modresColors = getModresColors(ctx.metadata.modifiedResidues);
+        const entityColors = await this.getEntityColors(params.entry, entities);
+        const modresColors = getModresColors(ctx.metadata.modifiedResidues, this.theme);
         for (const [reprName, repr] of Object.entries(ctx.representations)) {
             if (reprName as StandardRepresentationType === 'nonstandardSticks') {
                 for (const compId in modresColors) {
@@ -732,6 +908,9 @@ export class MVSSnapshotProvider {
         ctx.structure
             .component({ selector: { label_asym_id: params.labelAsymId, label_seq_id: params.labelSeqId, instance_id: params.instanceId } })
             .focus({ radius_factor: FOCUS_RADIUS_FACTOR, radius_extent: FOCUS_RADIUS_EXTENT });
+        ctx.info.highlights.push({ label: `Modified residue ${params.compId} ${params.labelSeqId}`, selector: { label_asym_id: params.labelAsymId, label_seq_id: params.labelSeqId, instance_id: params.instanceId }, color: modresColors[params.compId] });
+        addEntityLegend(ctx.info, entities, entityColors);
+        for (const compId in modresColors) addLegendEntry(ctx.info, compId, modresColors[compId]);
 
         const description: string[] = [];
         description.push(`## Modified residue ${params.compId}`);
@@ -777,25 +956,24 @@ export class MVSSnapshotProvider {
             }
             const annotationUri = 'data:text/plain, ' + annotationCif.join(' ');
             for (const repr of Object.values(ctx.representations)) {
-                repr.color({ color: VALIDATION_COLORS[0] }); // base color for residues without issues (not listed in the report)
+                repr.color({ color: this.theme.validation[0] }); // base color for residues without issues (not listed in the report)
             }
             ctx.representations.polymerCartoon?.colorFromUri({
                 uri: annotationUri, format: 'cif', schema: 'all_atomic', category_name: 'validation', field_name: 'class',
-                palette: { kind: 'categorical', colors: { '0': VALIDATION_COLORS[0], '1': VALIDATION_COLORS[1], '2': VALIDATION_COLORS[2], '3': VALIDATION_COLORS[3], 'y': VALIDATION_COLORS.HAS_ISSUE } },
+                palette: { kind: 'categorical', colors: { '0': this.theme.validation[0], '1': this.theme.validation[1], '2': this.theme.validation[2], '3': this.theme.validation[3], 'y': this.theme.validation.HAS_ISSUE } },
             });
             ctx.structure.component().tooltip({ text: '<hr>Validation:' });
             ctx.structure.tooltipFromUri({ uri: annotationUri, format: 'cif', schema: 'all_atomic', category_name: 'validation', field_name: 'tooltip' });
-            if (params.validation_type === 'issue_count') {
-                description.push(`**PDBe Structure Quality Report:** Residues are coloured by the number of geometry validation issue types. White - no issues, yellow - one issue type, orange - two issue types, red - three or more issue types.`);
-            } else {
-                description.push(`**PDBe Structure Quality Report:** Residues are coloured by presence of "${params.validation_type}" validation issues. White - no issue, red - has issues.`);
-            }
+            addValidationLegend(ctx.info, params.validation_type, this.theme.validation);
+            description.push(describeValidationColoring(params.validation_type));
             description.push(`Displaying ${assemblyText}.`);
         } else {
             for (const repr of Object.values(ctx.representations)) {
-                repr.color({ color: VALIDATION_COLORS.NOT_APPLICABLE });
+                repr.color({ color: this.theme.validation.NOT_APPLICABLE });
             }
             ctx.structure.component().tooltip({ text: '<hr>Validation: Not available' });
+            addLegendEntry(ctx.info, 'Validation not available', this.theme.validation.NOT_APPLICABLE);
+            ctx.info.warnings.push('PDBe Structure Quality Report not available for this entry.');
             description.push(`PDBe Structure Quality Report not available for this entry.`);
             description.push(`Displaying ${assemblyText}.`);
         }
@@ -810,12 +988,32 @@ export class MVSSnapshotProvider {
         const ctx = await this.loadPdbconnectComplex({ entry: params.entry, assemblyId: params.assemblyId, ensureChain: params.labelAsymId });
         const { displayedAssembly, entityColors } = ctx.metadata;
 
+        // Show the environment of one instance of the residue (the first one if not specified), including symmetry mates
+        const modelData = await this.modelProvider.getModel(params.entry);
+        const assemblyId = displayedAssembly === MODEL ? undefined : displayedAssembly;
+        const instanceId = assemblyId !== undefined ? params.instanceId ?? getChainInstancesInAssemblies(modelData)[assemblyId]?.operatorsPerChain[params.labelAsymId]?.[0] : undefined;
+        const residueSelector: ComponentExpressionT = { auth_asym_id: params.authAsymId, auth_seq_id: params.authSeqId, pdbx_PDB_ins_code: params.authInsCode, instance_id: instanceId };
+
         ctx.structure
             .component({
-                selector: { auth_asym_id: params.authAsymId, auth_seq_id: params.authSeqId, pdbx_PDB_ins_code: params.authInsCode, instance_id: params.instanceId },
+                selector: residueSelector,
                 custom: { molstar_show_non_covalent_interactions: params.atomInteractions === 'builtin' },
             })
             .focus({ radius_factor: FOCUS_RADIUS_FACTOR, radius_extent: FOCUS_RADIUS_EXTENT });
+        ctx.info.highlights.push({
+            label: `Residue auth ${params.authAsymId} ${params.authSeqId}${params.authInsCode}`,
+            selector: residueSelector,
+        });
+
+        const environmentSelector = residueSurroundingsInAssembly(modelData, assemblyId, { labelAsymId: params.labelAsymId, instanceId }, params.authSeqId, params.authInsCode, ENVIRONMENT_RADIUS);
+        if (environmentSelector.length > 0) {
+            const environmentRepr = ctx.structure
+                .component({ selector: environmentSelector })
+                .representation({ type: 'ball_and_stick', size_factor: 0.5 });
+            applyEntityColors(environmentRepr, entityColors);
+            applyElementColors(environmentRepr);
+            ctx.info.highlights.push({ label: `Surroundings of residue auth ${params.authAsymId} ${params.authSeqId}${params.authInsCode}`, selector: environmentSelector });
+        }
 
         if (params.atomInteractions === 'api') {
             const atomInteractions = await this.dataProvider.atomInteractions(params.entry, params.authAsymId, params.authSeqId);
@@ -824,9 +1022,9 @@ export class MVSSnapshotProvider {
             for (const { interactions, ligand } of atomInteractions) {
                 for (const int of interactions) {
                     const details = int.interaction_details;
-                    const color = details.length === 1 ? (ATOM_INTERACTION_COLORS[details[0]] ?? ATOM_INTERACTION_COLORS._DEFAULT_) : ATOM_INTERACTION_COLORS._MIXED_;
-                    // TODO pass colors from frontend (also for entities, domains etc)
+                    const color = details.length === 1 ? (this.theme.atomInteraction[details[0]] ?? this.theme.atomInteraction._DEFAULT_) : this.theme.atomInteraction._MIXED_;
                     const formatInteractionType = (type: string) => INTERACTION_NICE_NAMES[type] ?? type;
+                    addLegendEntry(ctx.info, details.length === 1 ? `${formatInteractionType(details[0])} interaction` : 'Mixed interaction', color);
                     const tooltipHeader = details.length === 1 ?
                         `<strong>${formatInteractionType(details[0])} interaction</strong>`
                         : `<strong>Mixed interaction</strong><br>${details.map(formatInteractionType).join(', ')}`;
@@ -838,14 +1036,14 @@ export class MVSSnapshotProvider {
                         auth_seq_id: ligand.author_residue_number,
                         pdbx_PDB_ins_code: normalizeInsertionCode(ligand.author_insertion_code),
                         auth_atom_id: atom,
-                        instance_id: params.instanceId,
+                        instance_id: instanceId,
                     }));
                     const partnerSelector: ComponentExpressionT[] = int.end.atom_names.map(atom => ({
                         auth_asym_id: int.end.chain_id,
                         auth_seq_id: int.end.author_residue_number,
                         pdbx_PDB_ins_code: normalizeInsertionCode(int.end.author_insertion_code),
                         auth_atom_id: atom,
-                        instance_id: params.instanceId,
+                        instance_id: instanceId,
                     }));
                     primitives.tube({
                         start: { expressions: ligandSelector },
@@ -859,13 +1057,15 @@ export class MVSSnapshotProvider {
                         auth_asym_id: int.end.chain_id,
                         auth_seq_id: int.end.author_residue_number,
                         pdbx_PDB_ins_code: normalizeInsertionCode(int.end.author_insertion_code),
-                        instance_id: params.instanceId,
+                        instance_id: instanceId,
                     });
                 }
             }
+            const partnerResiduesSelector = unique(partnerResidues, r => `${r.auth_asym_id}:${r.auth_seq_id}:${r.pdbx_PDB_ins_code ?? ''}:${r.instance_id ?? ''}`);
             const partnerResiduesRepr = ctx.structure
-                .component({ selector: unique(partnerResidues, r => `${r.auth_asym_id}:${r.auth_seq_id}:${r.pdbx_PDB_ins_code ?? ''}:${r.instance_id ?? ''}`) })
+                .component({ selector: partnerResiduesSelector })
                 .representation({ type: 'ball_and_stick', size_factor: 0.5 });
+            if (partnerResiduesSelector.length > 0) ctx.info.highlights.push({ label: 'Interacting residues', selector: partnerResiduesSelector });
             applyEntityColors(partnerResiduesRepr, entityColors);
             applyElementColors(partnerResiduesRepr);
         }
@@ -879,6 +1079,8 @@ export class MVSSnapshotProvider {
         if (displayedAssembly === MODEL && params.assemblyId !== MODEL) {
             description.push(`*\u26A0 Residue is not present in the requested assembly(${params.assemblyId}), displaying the deposited model instead.* `);
         }
+        const nMates = new Set(environmentSelector.filter(r => r.instance_id !== instanceId).map(r => r.instance_id)).size;
+        if (nMates > 0) description.push(`The surroundings include residues from ${nMates} other symmetry ${nMates === 1 ? 'instance' : 'instances'}.`);
         return {
             ...ctx,
             description,
@@ -893,15 +1095,18 @@ export class MVSSnapshotProvider {
         const chainSelector: ComponentExpressionT = { label_asym_id: params.labelAsymId, instance_id: params.instanceId };
         const residueSelector: ComponentExpressionT = { ...chainSelector, label_seq_id: params.labelSeqId };
 
-        const chainHighlightColor = CHAIN_ANNOTATED_COLOR;
+        const chainHighlightColor = this.theme.chainAnnotated;
         ctx.representations.polymerCartoon?.color({ selector: chainSelector, color: chainHighlightColor });
         ctx.representations.nonstandardSticks?.color({ selector: chainSelector, color: chainHighlightColor });
 
         const annots = await this.dataProvider.llmAnnotations(params.entry);
         const chainAnnots = annots[params.entityId][params.labelAsymId];
         const annotResiduesSelector: ComponentExpressionT[] = Object.keys(chainAnnots).map(labelSeqId => ({ ...chainSelector, label_seq_id: Number(labelSeqId) }));
-        ctx.representations.polymerCartoon?.color({ selector: annotResiduesSelector, color: RESIDUE_ANNOTATED_COLOR });
-        ctx.representations.nonstandardSticks?.color({ selector: annotResiduesSelector, color: RESIDUE_ANNOTATED_COLOR });
+        addLegendEntry(ctx.info, 'Chain with text annotations', chainHighlightColor);
+        addLegendEntry(ctx.info, 'Residues with text annotations', this.theme.residueAnnotated);
+        ctx.info.highlights.push({ label: 'Residues with text annotations', selector: annotResiduesSelector, color: this.theme.residueAnnotated });
+        ctx.representations.polymerCartoon?.color({ selector: annotResiduesSelector, color: this.theme.residueAnnotated });
+        ctx.representations.nonstandardSticks?.color({ selector: annotResiduesSelector, color: this.theme.residueAnnotated });
         for (const labelSeqId in chainAnnots) {
             const nAnnots = chainAnnots[labelSeqId].length;
             const bestScore = max(chainAnnots[labelSeqId].map(a => a.aiScore));
@@ -912,14 +1117,16 @@ export class MVSSnapshotProvider {
         }
 
         if (params.labelSeqId !== undefined) {
-            ctx.representations.polymerCartoon?.color({ selector: residueSelector, color: RESIDUE_HIGHLIGHT_COLOR });
-            ctx.representations.nonstandardSticks?.color({ selector: residueSelector, color: RESIDUE_HIGHLIGHT_COLOR });
+            ctx.representations.polymerCartoon?.color({ selector: residueSelector, color: this.theme.residueHighlight });
+            ctx.representations.nonstandardSticks?.color({ selector: residueSelector, color: this.theme.residueHighlight });
             const residueSticks = ctx.structure
                 .component({ selector: residueSelector })
                 .representation({ type: 'ball_and_stick', size_factor: 1.05 })
-                .color({ color: RESIDUE_HIGHLIGHT_COLOR });
+                .color({ color: this.theme.residueHighlight });
             applyElementColors(residueSticks);
             ctx.structure.component({ selector: residueSelector, custom: { molstar_show_non_covalent_interactions: true } });
+            addLegendEntry(ctx.info, 'Selected residue', this.theme.residueHighlight);
+            ctx.info.highlights.push({ label: `Residue ${params.labelSeqId}`, selector: residueSelector, color: this.theme.residueHighlight });
         }
 
         for (const repr of atomicRepresentations(ctx.representations)) {
@@ -942,9 +1149,226 @@ export class MVSSnapshotProvider {
             description,
         };
     }
+
+    /** Create MVS view for interface between two protein chain instances */
+    private async loadPdbconnectInterface(params: SnapshotSpecParams['pdbconnect_interface']) {
+        const ctx = await this._loadPdbconnectBase({ entry: params.entry, assemblyId: params.assemblyId });
+        const { displayedAssembly } = ctx.metadata;
+
+        const partners: [ChainInstance, ChainInstance] = [
+            { labelAsymId: params.labelAsymId, instanceId: params.instanceId },
+            { labelAsymId: params.partnerLabelAsymId, instanceId: params.partnerInstanceId },
+        ];
+        const modelData = await this.modelProvider.getModel(params.entry);
+        const chainInterface = getChainInterface(modelData, displayedAssembly === MODEL ? undefined : displayedAssembly, ...partners);
+
+        for (const repr of Object.values(ctx.representations)) {
+            repr.color({ color: this.theme.interfaceBackground });
+        }
+        const interfaceSelector: ComponentExpressionT[] = [];
+        partners.forEach((partner, i) => {
+            const color = this.theme.interfacePartners[i];
+            const chainSelector: ComponentExpressionT = { label_asym_id: partner.labelAsymId, instance_id: partner.instanceId };
+            ctx.representations.polymerCartoon?.color({ selector: chainSelector, color });
+            ctx.representations.nonstandardSticks?.color({ selector: chainSelector, color });
+            const residueSelector: ComponentExpressionT[] = chainInterface.residues[i].map(r => ({ label_asym_id: r.label_asym_id, label_seq_id: r.label_seq_id, instance_id: partner.instanceId }));
+            const partnerLabel = `Chain ${partner.labelAsymId}${partner.instanceId ? ` [${partner.instanceId}]` : ''}`;
+            addLegendEntry(ctx.info, partnerLabel, color);
+            if (residueSelector.length === 0) return;
+            ctx.info.highlights.push({ label: `Interface residues of ${partnerLabel}`, selector: residueSelector, color });
+            const residueComp = ctx.structure.component({ selector: residueSelector });
+            applyElementColors(residueComp.representation({ type: 'ball_and_stick' }).color({ color }));
+            residueComp.representation({ type: 'surface' }).color({ color }).opacity({ opacity: INTERFACE_SURFACE_OPACITY });
+            interfaceSelector.push(...residueSelector);
+        });
+        for (const repr of atomicRepresentations(ctx.representations)) {
+            applyElementColors(repr);
+        }
+        if (interfaceSelector.length > 0) {
+            ctx.structure.component({ selector: interfaceSelector }).focus();
+        } else {
+            ctx.structure.component({ selector: partners.map(p => ({ label_asym_id: p.labelAsymId, instance_id: p.instanceId })) }).focus();
+        }
+
+        const entities = await this.dataProvider.entities(params.entry);
+        const chainInfo = getChainInfo(modelData);
+        const formatPartner = (partner: ChainInstance) => `chain ${partner.labelAsymId}${partner.instanceId ? ` instance ${partner.instanceId}` : ''}`;
+        const description: string[] = [];
+        description.push(`## Interface ${partners.map(p => `${p.labelAsymId}${p.instanceId ? ` [${p.instanceId}]` : ''}`).join(' \u2013 ')}`);
+        const assemblyText = displayedAssembly === MODEL ? 'the deposited model' : `complex (assembly) ${displayedAssembly}`;
+        const partnerTexts = partners.map(p => `**${entities[chainInfo[p.labelAsymId]?.entityId]?.name ?? 'unknown'}** (${formatPartner(p)})`);
+        description.push(`This is the interface between ${partnerTexts[0]} and ${partnerTexts[1]} in ${assemblyText}.`);
+        const [n1, n2] = chainInterface.residues.map(residues => residues.length);
+        if (n1 + n2 > 0) {
+            description.push(`The interface is formed by ${n1} residue${n1 === 1 ? '' : 's'} of ${formatPartner(partners[0])} and ${n2} residue${n2 === 1 ? '' : 's'} of ${formatPartner(partners[1])} (with any heavy atom within ${INTERFACE_CONTACT_DISTANCE} \u212B from the other chain).`);
+            description.push(`Buried solvent-accessible surface area: ${Math.round(chainInterface.buriedArea)} \u212B\u00B2 (both chains together).`);
+        } else {
+            ctx.info.warnings.push('The chains are not in contact.');
+            description.push(`*\u26A0 The chains are not in contact.*`);
+        }
+        return {
+            ...ctx,
+            description,
+        };
+    }
+
+    /** Create MVS view for assembly symmetry (coloured by symmetry operator, with symmetry axes) */
+    private async loadPdbconnectSymmetry(params: SnapshotSpecParams['pdbconnect_symmetry']) {
+        const ctx = await this._loadPdbconnectBase(params);
+        const { displayedAssembly } = ctx.metadata;
+        const modelData = await this.modelProvider.getModel(params.entry);
+        const assemblyInfo = getChainInstancesInAssemblies(modelData)[displayedAssembly];
+        const symmetry = getAssemblySymmetry(modelData, assemblyInfo);
+
+        // One color node per color (selecting all operators with that color), to keep the tree small for large assemblies
+        const operatorSelectors: { [color: string]: ComponentExpressionT[] } = {};
+        assemblyInfo.allOperators.forEach((instanceId, i) => {
+            (operatorSelectors[this.theme.annotation[i % this.theme.annotation.length]] ??= []).push({ instance_id: instanceId });
+        });
+        for (const repr of Object.values(ctx.representations)) {
+            for (const color in operatorSelectors) {
+                repr.color({ selector: operatorSelectors[color], color: color as ColorT });
+            }
+        }
+        for (const repr of atomicRepresentations(ctx.representations)) {
+            applyElementColors(repr);
+        }
+
+        const primitives = ctx.structure.primitives();
+        const axisHalfLength = symmetry.radius * SYMMETRY_AXIS_LENGTH_FACTOR;
+        const axisRadius = Math.max(0.5, 0.01 * symmetry.radius);
+        const labelSize = Math.max(3, 0.08 * symmetry.radius);
+        const pointOnAxis = (direction: Vec3, distance: number) => roundVector(Vec3.scaleAndAdd(Vec3(), symmetry.center, direction, distance));
+        for (const axis of symmetry.axes) {
+            const color = this.theme.symmetryAxis[axis.order] ?? this.theme.symmetryAxis._DEFAULT_;
+            primitives.tube({
+                start: pointOnAxis(axis.direction, -axisHalfLength),
+                end: pointOnAxis(axis.direction, axisHalfLength),
+                radius: axisRadius,
+                color,
+                tooltip: `${formatFold(axis.order)} symmetry axis`,
+            });
+            primitives.label({ position: pointOnAxis(axis.direction, axisHalfLength + labelSize), text: `${axis.order}`, label_size: labelSize, label_color: color });
+            addLegendEntry(ctx.info, `${formatFold(axis.order)} symmetry axis`, color);
+        }
+        const principalDirection = symmetry.axes[0]?.direction ?? Vec3.create(0, 1, 0);
+        primitives.label({ position: pointOnAxis(principalDirection, -axisHalfLength - labelSize), text: `Point group ${symmetry.pointGroup}`, label_size: labelSize, label_color: this.theme.label });
+
+        const description: string[] = [];
+        description.push(params.assemblyId === PREFERRED ? `## Symmetry of preferred complex` : `## Symmetry of complex ${displayedAssembly}`);
+        const nOperators = assemblyInfo.allOperators.length;
+        description.push(`This is complex (assembly) ${displayedAssembly}, coloured by symmetry operator (${nOperators} operator${nOperators === 1 ? '' : 's'}, instance_id).`);
+        if (symmetry.pointGroup === 'C1') {
+            description.push(`No rotational symmetry was detected (point group C1).`);
+        } else {
+            const axisCounts = unique(symmetry.axes.map(axis => axis.order)).map(order => {
+                const count = symmetry.axes.filter(axis => axis.order === order).length;
+                return `${count} ${formatFold(order)} ax${count === 1 ? 'is' : 'es'}`;
+            });
+            description.push(`The complex has point group symmetry **${symmetry.pointGroup}** (${symmetry.order} symmetry operations), with ${axisCounts.join(', ')}.`);
+        }
+        return {
+            ...ctx,
+            description,
+        };
+    }
+
+    /** Create MVS view for a glycosylation site (glycan tree next to the Asn/Ser/Thr it is attached to) */
+    private async loadPdbconnectGlycosylation(params: SnapshotSpecParams['pdbconnect_glycosylation']) {
+        const ctx = await this._loadPdbconnectBase({ entry: params.entry, assemblyId: params.assemblyId, ensureChain: params.labelAsymId, carbohydrateColors: 'snfg' });
+        const { displayedAssembly, snfg = {} } = ctx.metadata;
+        const modelData = await this.modelProvider.getModel(params.entry);
+        const site = getGlycosylationSites(modelData).find(s => s.residue.label_asym_id === params.labelAsymId && s.residue.label_seq_id === params.labelSeqId && s.glycanLabelAsymId === params.glycanLabelAsymId);
+        if (site === undefined) {
+            throw new SnapshotSpecError([{ path: 'params.glycanLabelAsymId', message: `Chain ${params.glycanLabelAsymId} is not a glycan attached to residue ${params.labelAsymId} ${params.labelSeqId}` }]);
+        }
+
+        const entities = await this.dataProvider.entities(params.entry);
+        const entityColors = await this.getEntityColors(params.entry, entities);
+        for (const [reprName, repr] of Object.entries(ctx.representations)) {
+            if (reprName as StandardRepresentationType === 'branchedCarbohydrate') continue; // keep SNFG colours
+            applyEntityColors(repr, entityColors);
+        }
+        for (const repr of atomicRepresentations(ctx.representations)) {
+            applyElementColors(repr);
+        }
+
+        const residueSelector: ComponentExpressionT = { label_asym_id: params.labelAsymId, label_seq_id: params.labelSeqId, instance_id: params.instanceId };
+        const glycanSelector: ComponentExpressionT = { label_asym_id: params.glycanLabelAsymId, instance_id: params.instanceId };
+        ctx.representations.polymerCartoon?.color({ selector: residueSelector, color: this.theme.residueHighlight });
+        const residueSticks = ctx.structure
+            .component({ selector: residueSelector })
+            .representation({ type: 'ball_and_stick', size_factor: 1.05 })
+            .color({ color: this.theme.residueHighlight });
+        applyElementColors(residueSticks);
+        const glycanSticks = ctx.structure
+            .component({ selector: glycanSelector })
+            .representation({ type: 'ball_and_stick' });
+        if (ctx.metadata.snfg) applyCompoundColors(glycanSticks, getSnfgColors(Object.keys(snfg)));
+        applyElementColors(glycanSticks);
+        ctx.structure.component({ selector: [residueSelector, glycanSelector] }).focus({ radius_factor: FOCUS_RADIUS_FACTOR, radius_extent: FOCUS_RADIUS_EXTENT });
+        const residueLabel = `${site.residue.label_comp_id} ${params.labelSeqId}`;
+        ctx.info.highlights.push({ label: residueLabel, selector: residueSelector, color: this.theme.residueHighlight });
+        ctx.info.highlights.push({ label: `Glycan ${params.glycanLabelAsymId}`, selector: glycanSelector });
+        addLegendEntry(ctx.info, 'Glycosylated residue', this.theme.residueHighlight);
+        addEntityLegend(ctx.info, entities, entityColors);
+
+        const description: string[] = [];
+        description.push(`## ${site.linkage}-glycosylation site ${residueLabel}`);
+        const assemblyText = displayedAssembly === MODEL ? 'the deposited model' : `complex (assembly) ${displayedAssembly}`;
+        const monosaccharides = site.glycanCompIds.map(compId => snfg[compId]?.abbr ?? compId).join(', ');
+        description.push(`This is the glycan in chain ${params.glycanLabelAsymId} (label_asym_id; ${monosaccharides}) attached to **${residueLabel}** (label_seq_id) in chain ${params.labelAsymId} (label_asym_id) in ${assemblyText}.`);
+        description.push(SNFG_DESCRIPTION);
+        if (displayedAssembly === MODEL && params.assemblyId !== MODEL) {
+            description.push(`*\u26A0 Chain ${params.labelAsymId} (label_asym_id) is not present in the requested assembly (${params.assemblyId}), displaying the deposited model instead.*`);
+        }
+        return {
+            ...ctx,
+            description,
+        };
+    }
 }
 
 
+/** Add legend entries for residues coloured by validation issues */
+function addValidationLegend(info: SnapshotInfo, validationType: SnapshotSpecParams['validation']['validation_type'], colors: ColorTheme['validation']): void {
+    if (validationType === 'issue_count') {
+        addLegendEntry(info, 'No issues', colors[0]);
+        addLegendEntry(info, '1 issue type', colors[1]);
+        addLegendEntry(info, '2 issue types', colors[2]);
+        addLegendEntry(info, '3 or more issue types', colors[3]);
+    } else {
+        addLegendEntry(info, 'No issue', colors[0]);
+        addLegendEntry(info, `Has "${validationType}" issue`, colors.HAS_ISSUE);
+    }
+}
+
+/** Describe residue colouring by validation issues (without naming the colours, which depend on color theme and are listed in the legend) */
+function describeValidationColoring(validationType: SnapshotSpecParams['validation']['validation_type']): string {
+    if (validationType === 'issue_count') {
+        return '**PDBe Structure Quality Report:** Residues are coloured by the number of geometry validation issue types (none, 1, 2, 3 or more), as shown in the legend.';
+    } else {
+        return `**PDBe Structure Quality Report:** Residues are coloured by presence of "${validationType}" validation issues, as shown in the legend.`;
+    }
+}
+
+function addSnfgLegend(info: SnapshotInfo, monosaccharides: { [compId: string]: SnfgMonosaccharide }): void {
+    for (const compId in monosaccharides) {
+        addLegendEntry(info, `${monosaccharides[compId].abbr} (SNFG)`, monosaccharides[compId].color);
+    }
+}
+
+const FOLD_NAMES: Record<number, string> = { 2: 'two-fold', 3: 'three-fold', 4: 'four-fold', 5: 'five-fold', 6: 'six-fold' };
+/** E.g. 2 -> 'two-fold' */
+function formatFold(order: number): string {
+    return FOLD_NAMES[order] ?? `${order}-fold`;
+}
+
+/** Round vector coordinates to 3 decimal places (to keep MVS files readable) */
+function roundVector(v: Vec3): [number, number, number] {
+    return [Math.round(v[0] * 1000) / 1000, Math.round(v[1] * 1000) / 1000, Math.round(v[2] * 1000) / 1000];
+}
+
 const CustomDataForEmissivePulse = { molstar_representation_params: { emissive: 0 } };
 function makeEmissivePulse(representationRef: string, strength: number = 0.33): MVSAnimationNodeParams<"interpolate"> {
     return {
@@ -964,6 +1388,8 @@ export interface MVSSnapshotProviderConfig {
     PdbApiUrlPrefix: string,
     PdbStructureUrlTemplate: string,
     PdbStructureFormat: 'bcif' | 'mmcif' | 'pdb',
+    ColorTheme: ColorTheme | ColorThemeName,
+    ProteinColorsByUniprot: boolean,
 }
 
 export const DefaultMVSSnapshotProviderConfig = {
@@ -972,6 +1398,10 @@ export const DefaultMVSSnapshotProviderConfig = {
     PdbStructureUrlTemplate: 'https://www.ebi.ac.uk/pdbe/entry-files/{pdb}.bcif',
     /** Format for PDB structural data. */
     PdbStructureFormat: 'bcif',
+    /** Colors for snapshots, a built-in theme name (see `ColorThemes`) or a custom theme */
+    ColorTheme: 'light',
+    /** Color protein entities by UniProt accession, so the same protein has the same color in all entries (requires SIFTS mappings) */
+    ProteinColorsByUniprot: false,
 } satisfies MVSSnapshotProviderConfig;
 
 
@@ -990,7 +1420,7 @@ All existing PDBImages states:
 - Validation
   + We will have multiple validation metrics
   + Sameer: use white instead of green, check color code for colorblindness
-- Sugar SNFG color - keep as is (by-chain / by-entity), for the future potentially add option to use SNFG colors
+- Sugar SNFG color - keep as is (by-chain / by-entity) by default, SNFG colors via `carbohydrateColors: 'snfg'`
 
 - Prefer sticks over balls
 
@@ -3,7 +3,7 @@ export type SnapshotSpecParams = {
     assembly: { entry: string, assemblyId: string },
     entity: { entry: string, entityId: string, assemblyId?: string },
     domain: { entry: string, source: string, familyId: string, entityId: string }, // source / family / entity / chain / instance
-    ligand: { entry: string, compId: string, labelAsymId?: string },
+    ligand: { entry: string, compId: string, labelAsymId?: string, assemblyId?: string, instanceId?: string },
     modres: { entry: string, compId: string },
     bfactor: { entry: string },
     validation: { entry: string, validation_type: ValidationType },
@@ -13,6 +13,8 @@ export type SnapshotSpecParams = {
         entry: string,
         /** Assembly ID (or 'preferred' for preferred assembly) */
         assemblyId: string,
+        /** Colouring of carbohydrates in branched entities (default 'entity') */
+        carbohydrateColors?: CarbohydrateColoring,
     },
     /** PDBconnect Summary tab > Macromolecules (macromolecule selected), Macromolecules tab */
     pdbconnect_macromolecule: {
@@ -26,6 +28,8 @@ export type SnapshotSpecParams = {
         labelAsymId: string,
         /** Symmetry instance identifier (e.g. 'ASM-1'), `undefined` for showing all instances */
         instanceId: string | undefined,
+        /** Colouring of carbohydrates in branched entities (default 'entity') */
+        carbohydrateColors?: CarbohydrateColoring,
     },
     /** PDBconnect Summary tab > Ligands (nothing selected) */
     pdbconnect_all_ligands: {
@@ -46,6 +50,8 @@ export type SnapshotSpecParams = {
         labelAsymId: string,
         /** Symmetry instance identifier (e.g. 'ASM-1'), `undefined` for showing all instances */
         instanceId: string | undefined,
+        /** Colouring of carbohydrates in branched entities (default 'entity') */
+        carbohydrateColors?: CarbohydrateColoring,
     },
     /** PDBconnect Summary tab > Domains > All (nothing selected) */
     pdbconnect_domains_default: {
@@ -145,6 +151,43 @@ export type SnapshotSpecParams = {
         /** Symmetry instance identifier (e.g. 'ASM-1'), `undefined` for showing all instances */
         instanceId: string | undefined,
     },
+    /** Interface between two protein chain instances */
+    pdbconnect_interface: {
+        /** PDB ID */
+        entry: string,
+        /** Assembly ID (or 'preferred' for preferred assembly, or 'model' for deposited model) */
+        assemblyId: string,
+        /** Chain identifier (label_asym_id) of the first partner */
+        labelAsymId: string,
+        /** Symmetry instance identifier of the first partner (e.g. 'ASM-1'), `undefined` in deposited model */
+        instanceId: string | undefined,
+        /** Chain identifier (label_asym_id) of the second partner */
+        partnerLabelAsymId: string,
+        /** Symmetry instance identifier of the second partner (e.g. 'ASM-2'), `undefined` in deposited model */
+        partnerInstanceId: string | undefined,
+    },
+    /** Assembly coloured by symmetry operator, with symmetry axes */
+    pdbconnect_symmetry: {
+        /** PDB ID */
+        entry: string,
+        /** Assembly ID (or 'preferred' for preferred assembly) */
+        assemblyId: string,
+    },
+    /** Glycan attached to a protein residue (Asn for N-glycosylation, Ser/Thr for O-glycosylation), in SNFG colours */
+    pdbconnect_glycosylation: {
+        /** PDB ID */
+        entry: string,
+        /** Assembly ID (or 'preferred' for preferred assembly, or 'model' for deposited model) */
+        assemblyId: string,
+        /** Chain identifier (label_asym_id) of the protein chain */
+        labelAsymId: string,
+        /** Residue identifier (label_seq_id) of the glycosylated residue */
+        labelSeqId: number,
+        /** Chain identifier (label_asym_id) of the attached glycan */
+        glycanLabelAsymId: string,
+        /** Symmetry instance identifier (e.g. 'ASM-1'), `undefined` for showing all instances */
+        instanceId: string | undefined,
+    },
 }
 
 export type SnapshotKind = keyof SnapshotSpecParams;
@@ -162,6 +205,9 @@ export const SnapshotKinds = [
     'pdbconnect_quality',
     'pdbconnect_environment',
     'pdbconnect_text_annotation',
+    'pdbconnect_interface',
+    'pdbconnect_symmetry',
+    'pdbconnect_glycosylation',
 ] as const satisfies readonly SnapshotKind[];
 
 export type SnapshotSpec<TKind extends SnapshotKind = SnapshotKind> =
@@ -173,6 +219,10 @@ export type SnapshotSpec<TKind extends SnapshotKind = SnapshotKind> =
 export const ValidationTypes = ['issue_count', 'bond_angles', 'clashes', 'sidechain_outliers', 'symm_clashes', 'planes', 'RSRZ'] as const;
 export type ValidationType = (typeof ValidationTypes)[number];
 
+/** Colouring of carbohydrates ('entity' = same as the rest of the entity, 'snfg' = by monosaccharide, following Symbol Nomenclature for Glycans) */
+export const CarbohydrateColorings = ['entity', 'snfg'] as const;
+export type CarbohydrateColoring = (typeof CarbohydrateColorings)[number];
+
 /** Special value for `assemblyId` meaning that the preferred assembly should be used. */
 export const PREFERRED = 'preferred';
 
@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+
+import path from 'path';
+import { FixtureDataProvider, FixtureModelProvider } from '../node/fixture-provider';
+import { PREFERRED } from './mvs-snapshot-types';
+import { validateSnapshotSpec } from './mvs-snapshot-validation';
+
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__');
+
+const dataProvider = new FixtureDataProvider(FIXTURES_DIR);
+const modelProvider = new FixtureModelProvider(FIXTURES_DIR);
+
+function validate(spec: unknown) {
+    return validateSnapshotSpec(spec, dataProvider, modelProvider);
+}
+
+beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => { }); // lenient validation warnings
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+
+test('valid params are normalized', async () => {
+    expect(await validate({
+        kind: 'pdbconnect_modification',
+        name: 'Modified residue',
+        params: { entry: '0FIX', assemblyId: PREFERRED, compId: 'MSE', labelAsymId: 'A', labelSeqId: '3' },
+    })).toEqual({
+        valid: true,
+        spec: {
+            kind: 'pdbconnect_modification',
+            name: 'Modified residue',
+            params: { entry: '0fix', assemblyId: PREFERRED, compId: 'MSE', labelAsymId: 'A', labelSeqId: 3, instanceId: undefined },
+        },
+    });
+    expect(await validate({ kind: 'validation', name: 'Clashes', params: { entry: '0fix', validation_type: 'clashes' } })).toMatchObject({ valid: true });
+});
+
+test('unknown kind', async () => {
+    expect(await validate({ kind: 'pdbconnect_everything', name: 'X', params: { entry: '0fix' } })).toEqual({
+        valid: false,
+        issues: [{ path: 'kind', message: expect.stringMatching(/^Unknown snapshot kind "pdbconnect_everything" \(expected one of: entry, assembly, /) }],
+    });
+});
+
+test('unknown validation type', async () => {
+    expect(await validate({ kind: 'validation', name: 'Clashes', params: { entry: '0fix', validation_type: 'clash' } })).toEqual({
+        valid: false,
+        issues: [{ path: 'params.validation_type', message: expect.stringMatching(/^Unknown validation type "clash" \(expected one of: issue_count, bond_angles, clashes, /) }],
+    });
+});
+
+test('unknown assembly', async () => {
+    expect(await validate({ kind: 'assembly', name: 'Assembly 3', params: { entry: '0fix', assemblyId: '3' } })).toEqual({
+        valid: false,
+        issues: [{ path: 'params.assemblyId', message: 'Assembly "3" not found in entry 0fix (available: 1, 2)' }],
+    });
+    expect(await validate({ kind: 'pdbconnect_complex', name: 'Complex', params: { entry: '0fix', assemblyId: '3' } })).toEqual({
+        valid: false,
+        issues: [{ path: 'params.assemblyId', message: 'Assembly "3" not found in entry 0fix (available: 1, 2, preferred, model)' }],
+    });
+});
+
+test('missing or unknown chain', async () => {
+    expect(await validate({ kind: 'pdbconnect_macromolecule', name: 'Chain', params: { entry: '0fix', assemblyId: '1', entityId: '1' } })).toEqual({
+        valid: false,
+        issues: [{ path: 'params.labelAsymId', message: 'Missing required parameter' }],
+    });
+    expect(await validate({ kind: 'pdbconnect_macromolecule', name: 'Chain', params: { entry: '0fix', assemblyId: '1', entityId: '1', labelAsymId: 'B' } })).toEqual({
+        valid: false,
+        issues: [{ path: 'params.labelAsymId', message: 'Chain (label_asym_id) "B" not found in entity 1' }],
+    });
+});
+
+test('malformed spec', async () => {
+    expect(await validate('entry 0fix')).toEqual({ valid: false, issues: [{ path: '', message: 'Snapshot spec must be an object' }] });
+    expect(await validate({ kind: 'entry', name: 42, params: { entry: '0fix', color: 'red' } })).toEqual({
+        valid: false,
+        issues: [
+            { path: 'name', message: 'Snapshot name must be a string' },
+            { path: 'params.color', message: 'Unknown parameter for snapshot kind entry' },
+        ],
+    });
+    expect(await validate({ kind: 'entry', name: 'Entry', params: { entry: '9zzz' } })).toEqual({
+        valid: false,
+        issues: [{ path: 'params.entry', message: 'Entry 9zzz not found' }],
+    });
+});
@@ -0,0 +1,304 @@
+import type { Model } from 'molstar/lib/mol-model/structure';
+import type { IDataProvider } from './data-provider';
+import { normalizeInsertionCode } from './helpers';
+import type { IModelProvider } from './model-provider';
+import { CarbohydrateColorings, MODEL, PREFERRED, type SnapshotKind, SnapshotKinds, type SnapshotSpec, type SnapshotSpecParams, ValidationTypes } from './mvs-snapshot-types';
+import { getChainInstancesInAssemblies, getGlycosylationSites } from './structure-info';
+
+
+/** One problem found in a snapshot spec */
+export interface SnapshotSpecIssue {
+    /** Path to the problematic field, e.g. 'params.assemblyId' */
+    path: string,
+    message: string,
+}
+
+/** Thrown when trying to create a snapshot from an invalid spec */
+export class SnapshotSpecError extends Error {
+    constructor(readonly issues: SnapshotSpecIssue[]) {
+        super(`Invalid snapshot spec: ${issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`);
+        this.name = 'SnapshotSpecError';
+    }
+}
+
+export type SnapshotSpecValidationResult =
+    | { valid: true, /** Normalized spec */ spec: SnapshotSpec }
+    | { valid: false, issues: SnapshotSpecIssue[] };
+
+
+type ParamType = 'string' | 'optional string' | 'number' | 'optional number' | 'validation type' | 'atom interactions source' | 'optional carbohydrate coloring';
+
+/** Expected types of params for each snapshot kind (must list all params in `SnapshotSpecParams`) */
+const ParamTypes: { [K in SnapshotKind]: { [P in keyof SnapshotSpecParams[K]]-?: ParamType } } = {
+    entry: { entry: 'string' },
+    assembly: { entry: 'string', assemblyId: 'string' },
+    entity: { entry: 'string', entityId: 'string', assemblyId: 'optional string' },
+    domain: { entry: 'string', source: 'string', familyId: 'string', entityId: 'string' },
+    ligand: { entry: 'string', compId: 'string', labelAsymId: 'optional string', assemblyId: 'optional string', instanceId: 'optional string' },
+    modres: { entry: 'string', compId: 'string' },
+    bfactor: { entry: 'string' },
+    validation: { entry: 'string', validation_type: 'validation type' },
+    pdbconnect_complex: { entry: 'string', assemblyId: 'string', carbohydrateColors: 'optional carbohydrate coloring' },
+    pdbconnect_macromolecule: { entry: 'string', assemblyId: 'string', entityId: 'string', labelAsymId: 'string', instanceId: 'optional string', carbohydrateColors: 'optional carbohydrate coloring' },
+    pdbconnect_all_ligands: { entry: 'string', assemblyId: 'string' },
+    pdbconnect_ligand: { entry: 'string', assemblyId: 'string', entityId: 'string', labelAsymId: 'string', instanceId: 'optional string', carbohydrateColors: 'optional carbohydrate coloring' },
+    pdbconnect_domains_default: { entry: 'string', assemblyId: 'string' },
+    pdbconnect_domains_in_source: { entry: 'string', assemblyId: 'string', source: 'string' },
+    pdbconnect_domain: { entry: 'string', assemblyId: 'string', source: 'string', familyId: 'string', entityId: 'string', domainId: 'string', instanceId: 'optional string' },
+    pdbconnect_all_modifications: { entry: 'string', assemblyId: 'string' },
+    pdbconnect_modification: { entry: 'string', assemblyId: 'string', compId: 'string', labelAsymId: 'string', labelSeqId: 'number', instanceId: 'optional string' },
+    pdbconnect_quality: { entry: 'string', assemblyId: 'string', validation_type: 'validation type' },
+    pdbconnect_environment: { entry: 'string', assemblyId: 'string', labelAsymId: 'string', authAsymId: 'string', authSeqId: 'number', authInsCode: 'string', instanceId: 'optional string', atomInteractions: 'atom interactions source' },
+    pdbconnect_text_annotation: { entry: 'string', assemblyId: 'string', entityId: 'string', labelAsymId: 'string', labelSeqId: 'optional number', instanceId: 'optional string' },
+    pdbconnect_interface: { entry: 'string', assemblyId: 'string', labelAsymId: 'string', instanceId: 'optional string', partnerLabelAsymId: 'string', partnerInstanceId: 'optional string' },
+    pdbconnect_symmetry: { entry: 'string', assemblyId: 'string' },
+    pdbconnect_glycosylation: { entry: 'string', assemblyId: 'string', labelAsymId: 'string', labelSeqId: 'number', glycanLabelAsymId: 'string', instanceId: 'optional string' },
+};
+
+const AtomInteractionsSources = ['api', 'builtin', 'none'] as const;
+
+
+/** Check that `spec` is a well-formed snapshot spec and that everything it refers to (assembly, entity, chain...) exists in the entry.
+ * Return normalized spec (lowercase entry ID, numbers instead of numeric strings, missing optional params set to `undefined`) or list of issues. */
+export async function validateSnapshotSpec(spec: unknown, dataProvider: IDataProvider, modelProvider: IModelProvider): Promise<SnapshotSpecValidationResult> {
+    const issues: SnapshotSpecIssue[] = [];
+    const normalized = checkShape(spec, issues);
+    if (normalized === undefined || issues.length > 0) return { valid: false, issues };
+    await checkExistence(normalized, dataProvider, modelProvider, issues);
+    if (issues.length > 0) return { valid: false, issues };
+    return { valid: true, spec: normalized };
+}
+
+
+/** Check types of all fields and return normalized spec (or `undefined` if it cannot be normalized) */
+function checkShape(spec: unknown, issues: SnapshotSpecIssue[]): SnapshotSpec | undefined {
+    if (!isPlainObject(spec)) {
+        issues.push({ path: '', message: 'Snapshot spec must be an object' });
+        return undefined;
+    }
+    const kind = spec.kind as SnapshotKind;
+    if (!SnapshotKinds.includes(kind)) {
+        issues.push({ path: 'kind', message: `Unknown snapshot kind ${JSON.stringify(spec.kind)} (expected one of: ${SnapshotKinds.join(', ')})` });
+        return undefined;
+    }
+    if (typeof spec.name !== 'string') {
+        issues.push({ path: 'name', message: 'Snapshot name must be a string' });
+    }
+    if (!isPlainObject(spec.params)) {
+        issues.push({ path: 'params', message: 'Params must be an object' });
+        return undefined;
+    }
+    const params = spec.params;
+    const paramTypes: { [param: string]: ParamType } = ParamTypes[kind];
+    const outParams: { [param: string]: unknown } = {};
+    for (const param in params) {
+        if (!(param in paramTypes)) issues.push({ path: `params.${param}`, message: `Unknown parameter for snapshot kind ${kind}` });
+    }
+    for (const param in paramTypes) {
+        const path = `params.${param}`;
+        const value = params[param];
+        const type = paramTypes[param];
+        if (value === undefined || value === null) {
+            if (!type.startsWith('optional')) issues.push({ path, message: 'Missing required parameter' });
+            outParams[param] = undefined;
+            continue;
+        }
+        switch (type) {
+            case 'string':
+            case 'optional string':
+                if (typeof value === 'string') outParams[param] = value;
+                else issues.push({ path, message: `Expected string, got ${JSON.stringify(value)}` });
+                break;
+            case 'number':
+            case 'optional number':
+                if (typeof value === 'number' && Number.isInteger(value)) outParams[param] = value;
+                else if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) outParams[param] = Number(value);
+                else issues.push({ path, message: `Expected integer, got ${JSON.stringify(value)}` });
+                break;
+            case 'validation type':
+                if (ValidationTypes.includes(value as any)) outParams[param] = value;
+                else issues.push({ path, message: `Unknown validation type ${JSON.stringify(value)} (expected one of: ${ValidationTypes.join(', ')})` });
+                break;
+            case 'atom interactions source':
+                if (AtomInteractionsSources.includes(value as any)) outParams[param] = value;
+                else issues.push({ path, message: `Unknown atom interactions source ${JSON.stringify(value)} (expected one of: ${AtomInteractionsSources.join(', ')})` });
+                break;
+            case 'optional carbohydrate coloring':
+                if (CarbohydrateColorings.includes(value as any)) outParams[param] = value;
+                else issues.push({ path, message: `Unknown carbohydrate coloring ${JSON.stringify(value)} (expected one of: ${CarbohydrateColorings.join(', ')})` });
+                break;
+        }
+    }
+    if (typeof outParams.entry === 'string') outParams.entry = outParams.entry.toLowerCase();
+    return { kind, name: spec.name, params: outParams } as SnapshotSpec;
+}
+
+
+/** Check that everything referenced by params of a well-formed spec exists in the entry */
+async function checkExistence(spec: SnapshotSpec, dataProvider: IDataProvider, modelProvider: IModelProvider, issues: SnapshotSpecIssue[]): Promise<void> {
+    const params: Partial<UnionToIntersection<SnapshotSpecParams[SnapshotKind]>> = spec.params;
+    const entry = spec.params.entry;
+    const entities = await dataProvider.entities(entry);
+    if (Object.keys(entities).length === 0) {
+        issues.push({ path: 'params.entry', message: `Entry ${entry} not found` });
+        return;
+    }
+    const isPdbconnect = spec.kind.startsWith('pdbconnect_');
+
+    // Assembly
+    let displayedAssembly: string | undefined = undefined;
+    if (params.assemblyId !== undefined) {
+        const assemblies = await dataProvider.assemblies(entry);
+        if (isPdbconnect && params.assemblyId === MODEL && spec.kind === 'pdbconnect_symmetry') {
+            issues.push({ path: 'params.assemblyId', message: `Symmetry can only be shown for an assembly, not for the deposited model` });
+        } else if (isPdbconnect && params.assemblyId === MODEL) {
+            displayedAssembly = MODEL;
+        } else if (isPdbconnect && params.assemblyId === PREFERRED) {
+            displayedAssembly = assemblies.find(ass => ass.preferred)?.assemblyId;
+            if (displayedAssembly === undefined) issues.push({ path: 'params.assemblyId', message: `Entry ${entry} has no preferred assembly` });
+        } else if (assemblies.some(ass => ass.assemblyId === params.assemblyId)) {
+            displayedAssembly = params.assemblyId;
+        } else {
+            const allowed = [...assemblies.map(ass => ass.assemblyId), ...(isPdbconnect ? [PREFERRED, MODEL] : [])];
+            issues.push({ path: 'params.assemblyId', message: `Assembly ${JSON.stringify(params.assemblyId)} not found in entry ${entry} (available: ${allowed.join(', ')})` });
+        }
+    }
+
+    // Entity and chain
+    if (params.entityId !== undefined && entities[params.entityId] === undefined) {
+        issues.push({ path: 'params.entityId', message: `Entity ${JSON.stringify(params.entityId)} not found in entry ${entry} (available: ${Object.keys(entities).join(', ')})` });
+    }
+    if (params.labelAsymId !== undefined) {
+        const allowedChains = params.entityId !== undefined ? entities[params.entityId]?.chains ?? [] : Object.values(entities).flatMap(ent => ent.chains);
+        if (!allowedChains.includes(params.labelAsymId)) {
+            const where = params.entityId !== undefined ? `entity ${params.entityId}` : `entry ${entry}`;
+            issues.push({ path: 'params.labelAsymId', message: `Chain (label_asym_id) ${JSON.stringify(params.labelAsymId)} not found in ${where}` });
+        }
+    }
+
+    // Compound
+    if (params.compId !== undefined) {
+        if (spec.kind === 'ligand') {
+            const ligandEntities = Object.values(entities).filter(ent => ent.compIds.includes(params.compId!));
+            if (ligandEntities.length === 0) {
+                issues.push({ path: 'params.compId', message: `Compound ${JSON.stringify(params.compId)} not found in entry ${entry}` });
+            } else if (spec.params.labelAsymId !== undefined && !ligandEntities.some(ent => ent.chains.includes(spec.params.labelAsymId!))) {
+                issues.push({ path: 'params.labelAsymId', message: `Chain ${spec.params.labelAsymId} does not contain compound ${params.compId}` });
+            }
+            if (spec.params.instanceId !== undefined && (spec.params.assemblyId === undefined || spec.params.labelAsymId === undefined)) {
+                issues.push({ path: 'params.instanceId', message: `Instance can only be specified together with assembly and chain` });
+            }
+        } else {
+            const modifiedResidues = await dataProvider.modifiedResidues(entry);
+            if (!modifiedResidues.some(r => r.compoundId === params.compId)) {
+                issues.push({ path: 'params.compId', message: `Modified residue ${JSON.stringify(params.compId)} not found in entry ${entry}` });
+            } else if (spec.kind === 'pdbconnect_modification' && !modifiedResidues.some(r => r.compoundId === params.compId && r.labelAsymId === params.labelAsymId && r.labelSeqId === params.labelSeqId)) {
+                issues.push({ path: 'params.labelSeqId', message: `Residue ${params.labelAsymId} ${params.labelSeqId} is not modified residue ${params.compId}` });
+            }
+        }
+    }
+
+    // Domains
+    let domainChain: string | undefined = undefined;
+    if (params.source !== undefined) {
+        const domains = await dataProvider.siftsMappingsByEntity(entry);
+        const sourceDomains = domains[params.source];
+        if (sourceDomains === undefined) {
+            issues.push({ path: 'params.source', message: `No domains from source ${JSON.stringify(params.source)} in entry ${entry} (available: ${Object.keys(domains).join(', ')})` });
+        } else if (params.familyId !== undefined && params.entityId !== undefined) {
+            const familyDomains = sourceDomains[params.familyId]?.[params.entityId];
+            if (familyDomains === undefined) {
+                issues.push({ path: 'params.familyId', message: `No domains from ${params.source} family ${JSON.stringify(params.familyId)} in entity ${params.entityId}` });
+            } else if (params.domainId !== undefined) {
+                const domain = familyDomains.find(dom => dom.id === params.domainId);
+                if (domain === undefined) issues.push({ path: 'params.domainId', message: `Domain ${JSON.stringify(params.domainId)} not found in ${params.source} family ${params.familyId} in entity ${params.entityId}` });
+                domainChain = domain?.chunks[0].chainId;
+            }
+        }
+    }
+
+    // Text annotations
+    if (spec.kind === 'pdbconnect_text_annotation') {
+        const annotations = await dataProvider.llmAnnotations(entry);
+        const chainAnnotations = annotations[spec.params.entityId]?.[spec.params.labelAsymId];
+        if (chainAnnotations === undefined) {
+            issues.push({ path: 'params.labelAsymId', message: `No text annotations for chain ${spec.params.labelAsymId} in entity ${spec.params.entityId}` });
+        } else if (spec.params.labelSeqId !== undefined && chainAnnotations[spec.params.labelSeqId] === undefined) {
+            issues.push({ path: 'params.labelSeqId', message: `No text annotations for residue ${spec.params.labelSeqId} in chain ${spec.params.labelAsymId}` });
+        }
+    }
+
+    // Interface
+    if (spec.kind === 'pdbconnect_interface') {
+        const { labelAsymId, instanceId, partnerLabelAsymId, partnerInstanceId } = spec.params;
+        const partnerEntity = Object.values(entities).find(ent => ent.chains.includes(partnerLabelAsymId));
+        if (partnerEntity === undefined) {
+            issues.push({ path: 'params.partnerLabelAsymId', message: `Chain (label_asym_id) ${JSON.stringify(partnerLabelAsymId)} not found in entry ${entry}` });
+        } else if (partnerLabelAsymId === labelAsymId && partnerInstanceId === instanceId) {
+            issues.push({ path: 'params.partnerInstanceId', message: `Interface partners must be different chain instances` });
+        }
+        const chains: [string, string, string | undefined][] = [['labelAsymId', labelAsymId, instanceId], ['partnerLabelAsymId', partnerLabelAsymId, partnerInstanceId]];
+        for (const [param, chain, instance] of chains) {
+            const entity = Object.values(entities).find(ent => ent.chains.includes(chain));
+            if (entity !== undefined && !entity.type.toLowerCase().includes('polypeptide')) {
+                issues.push({ path: `params.${param}`, message: `Chain ${chain} is not a protein chain` });
+            }
+            if (instance === undefined && displayedAssembly !== undefined && displayedAssembly !== MODEL) {
+                const instanceParam = param === 'labelAsymId' ? 'instanceId' : 'partnerInstanceId';
+                issues.push({ path: `params.${instanceParam}`, message: `Instance of chain ${chain} must be specified for interface in assembly ${displayedAssembly}` });
+            }
+        }
+    }
+
+    // Checks requiring the model
+    const chainForInstance = params.labelAsymId ?? domainChain;
+    const needsModel = spec.kind === 'pdbconnect_environment' || spec.kind === 'pdbconnect_interface' || spec.kind === 'pdbconnect_glycosylation' || (params.instanceId !== undefined && chainForInstance !== undefined && displayedAssembly !== undefined);
+    if (!needsModel || issues.length > 0) return;
+    const model = await modelProvider.getModel(entry);
+    if (spec.kind === 'pdbconnect_environment' && !residueExists(model, spec.params.authAsymId, spec.params.authSeqId, spec.params.authInsCode)) {
+        issues.push({ path: 'params.authSeqId', message: `Residue ${spec.params.authAsymId} ${spec.params.authSeqId}${spec.params.authInsCode} (auth) not found in entry ${entry}` });
+    }
+    if (spec.kind === 'pdbconnect_glycosylation') {
+        const { labelAsymId, labelSeqId, glycanLabelAsymId } = spec.params;
+        const sites = getGlycosylationSites(model);
+        if (!sites.some(site => site.residue.label_asym_id === labelAsymId && site.residue.label_seq_id === labelSeqId)) {
+            issues.push({ path: 'params.labelSeqId', message: `Residue ${labelAsymId} ${labelSeqId} is not glycosylated` });
+        } else if (!sites.some(site => site.residue.label_asym_id === labelAsymId && site.residue.label_seq_id === labelSeqId && site.glycanLabelAsymId === glycanLabelAsymId)) {
+            issues.push({ path: 'params.glycanLabelAsymId', message: `Chain ${glycanLabelAsymId} is not a glycan attached to residue ${labelAsymId} ${labelSeqId}` });
+        }
+    }
+    const checkInstance = (path: string, labelAsymId: string, instanceId: string, assemblyId: string) => {
+        const instances = assemblyId === MODEL ? [] : getChainInstancesInAssemblies(model)[assemblyId]?.operatorsPerChain[labelAsymId] ?? [];
+        if (!instances.includes(instanceId)) {
+            const where = assemblyId === MODEL ? 'the deposited model' : `assembly ${assemblyId}`;
+            issues.push({ path, message: `Instance ${JSON.stringify(instanceId)} of chain ${labelAsymId} not found in ${where} (available: ${instances.join(', ') || 'none'})` });
+        }
+    };
+    if (params.instanceId !== undefined && chainForInstance !== undefined && displayedAssembly !== undefined) {
+        checkInstance('params.instanceId', chainForInstance, params.instanceId, displayedAssembly);
+    }
+    if (spec.kind === 'pdbconnect_interface' && spec.params.partnerInstanceId !== undefined && displayedAssembly !== undefined) {
+        checkInstance('params.partnerInstanceId', spec.params.partnerLabelAsymId, spec.params.partnerInstanceId, displayedAssembly);
+    }
+}
+
+/** Decide if a residue with given author identifiers exists in the model */
+function residueExists(model: Model, authAsymId: string, authSeqId: number, authInsCode: string): boolean {
+    const h = model.atomicHierarchy;
+    const insCode = normalizeInsertionCode(authInsCode) ?? '';
+    for (let iChain = 0; iChain < h.chains._rowCount; iChain++) {
+        if (h.chains.auth_asym_id.value(iChain) !== authAsymId) continue;
+        const fromRes = h.residueAtomSegments.index[h.chainAtomSegments.offsets[iChain]];
+        const toRes = h.residueAtomSegments.index[h.chainAtomSegments.offsets[iChain + 1] - 1] + 1;
+        for (let iRes = fromRes; iRes < toRes; iRes++) {
+            if (h.residues.auth_seq_id.value(iRes) === authSeqId && (normalizeInsertionCode(h.residues.pdbx_PDB_ins_code.value(iRes)) ?? '') === insCode) return true;
+        }
+    }
+    return false;
+}
+
+function isPlainObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+type UnionToIntersection<U> = (U extends any ? (x: U) => void : never) extends (x: infer I) => void ? I : never;
@@ -0,0 +1,108 @@
+import { createEntryStorySteps } from './mvs-entry-story';
+import type { ListSnapshotsOptions, MVSSnapshotListProvider } from './mvs-snapshot-list-provider';
+import { MODEL, PREFERRED, type SnapshotSpec } from './mvs-snapshot-types';
+
+
+/** Ordered sequence of snapshots, to be rendered as one multistate MVS (see `MVSSnapshotProvider.getTour`) */
+export interface Tour {
+    title: string,
+    /** Markdown description of the whole tour */
+    description?: string,
+    steps: TourStep[],
+}
+
+export interface TourStep {
+    spec: SnapshotSpec,
+    /** State title (default: `spec.name`) */
+    title?: string,
+    /** Markdown text shown before the generated description of the snapshot */
+    narrative?: string,
+    /** How long the state is shown when playing the tour, in milliseconds */
+    lingerDurationMs?: number,
+    /** Duration of the animation from the previous state, in milliseconds */
+    transitionDurationMs?: number,
+}
+
+export const DefaultTourStepDurations = {
+    lingerDurationMs: 8_000,
+    transitionDurationMs: 1_000,
+};
+
+
+interface TourPreset {
+    title: string,
+    description: string,
+    /** Create tour steps for an entry (can be empty if the entry has nothing to show in this tour) */
+    steps: (listProvider: MVSSnapshotListProvider, entryId: string, options?: ListSnapshotsOptions) => Promise<TourStep[]>,
+}
+
+/** Predefined tours applicable to any entry */
+export const TourPresets = {
+    entry_overview: {
+        title: 'Entry overview',
+        description: 'The complex, then each macromolecule, ligands, and structure quality.',
+        steps: async (listProvider, entryId, options) => {
+            const steps: TourStep[] = [];
+            const complexes = await listProvider.listSnapshots(entryId, 'pdbconnect_complex', options);
+            const complex = complexes.find(spec => spec.params.assemblyId === PREFERRED) ?? complexes.find(spec => spec.params.assemblyId === MODEL);
+            if (complex) {
+                steps.push({ spec: complex, title: 'The complex', narrative: 'We start with the whole complex as it is believed to exist in nature.' });
+            }
+            const macromolecules = await listProvider.listSnapshots(entryId, 'pdbconnect_macromolecule', options);
+            const seenEntities = new Set<string>();
+            for (const spec of macromolecules) {
+                if (seenEntities.has(spec.params.entityId)) continue; // one instance of each entity is enough
+                seenEntities.add(spec.params.entityId);
+                steps.push({ spec, title: `Macromolecule ${spec.params.entityId}` });
+            }
+            const ligands = await listProvider.listSnapshots(entryId, 'pdbconnect_ligand', options);
+            if (ligands.length > 0) {
+                const allLigands = await listProvider.listSnapshots(entryId, 'pdbconnect_all_ligands', options);
+                steps.push(...allLigands.map(spec => ({ spec, title: 'Ligands', narrative: 'Small molecules bound to the complex.' })));
+            }
+            const quality = await listProvider.listSnapshots(entryId, 'pdbconnect_quality', options);
+            const issueCount = quality.find(spec => spec.params.validation_type === 'issue_count');
+            if (issueCount) {
+                steps.push({ spec: issueCount, title: 'Structure quality', narrative: 'Finally, how well the model agrees with geometric expectations.' });
+            }
+            return steps;
+        },
+    },
+    story: {
+        title: 'Entry story',
+        description: 'Automatically composed story of the entry, showing whatever is interesting about it.',
+        steps: (listProvider, entryId, options) => createEntryStorySteps(listProvider, entryId, undefined, options),
+    },
+    ligands: {
+        title: 'Ligands',
+        description: 'All ligands, then each ligand entity in detail.',
+        steps: async (listProvider, entryId, options) => {
+            const ligands = await listProvider.listSnapshots(entryId, 'pdbconnect_ligand', options);
+            if (ligands.length === 0) return [];
+            const allLigands = await listProvider.listSnapshots(entryId, 'pdbconnect_all_ligands', options);
+            const steps: TourStep[] = allLigands.map(spec => ({ spec, title: 'All ligands' }));
+            const seenEntities = new Set<string>();
+            for (const spec of ligands) {
+                if (seenEntities.has(spec.params.entityId)) continue;
+                seenEntities.add(spec.params.entityId);
+                steps.push({ spec, title: `Ligand entity ${spec.params.entityId}`, lingerDurationMs: 6_000 });
+            }
+            return steps;
+        },
+    },
+} satisfies { [name: string]: TourPreset };
+
+export type TourPresetName = keyof typeof TourPresets;
+
+export const TourPresetNames = Object.keys(TourPresets) as TourPresetName[];
+
+
+/** Create a tour for an entry from a preset. The tour has no steps if the entry has nothing to show in this preset. */
+export async function createPresetTour(listProvider: MVSSnapshotListProvider, entryId: string, preset: TourPresetName, options?: ListSnapshotsOptions): Promise<Tour> {
+    const { title, description, steps } = TourPresets[preset] as TourPreset;
+    return {
+        title: `${title} (${entryId})`,
+        description,
+        steps: await steps(listProvider, entryId, options),
+    };
+}
@@ -0,0 +1,103 @@
+/**
+ * @jest-environment node
+ */
+
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import { Task } from 'molstar/lib/mol-task';
+import { unzip } from 'molstar/lib/mol-util/zip/zip';
+import { createSnapshotMvsx, decodeDataUri } from './mvsx-export';
+
+
+/** Golden snapshot with one structure download (in each of its states) and data URI annotations */
+const GOLDEN_FILE = path.join(__dirname, '__golden__', '0fix', 'validation', 'Validation_clashes.mvsj');
+
+async function readMvsx(mvsx: Uint8Array): Promise<{ [name: string]: Uint8Array }> {
+    const files = await Task.create('Unzip', ctx => unzip(ctx, mvsx.buffer.slice(mvsx.byteOffset, mvsx.byteOffset + mvsx.byteLength) as ArrayBuffer)).run();
+    return files as { [name: string]: Uint8Array };
+}
+
+/** Collect values of `key` in params of all nodes in MVS data (nested in trees, in any snapshots) */
+function collectParams(data: unknown, key: string, out: string[] = []): string[] {
+    if (Array.isArray(data)) {
+        for (const item of data) collectParams(item, key, out);
+    } else if (typeof data === 'object' && data !== null) {
+        const params = (data as any).params;
+        if (typeof params?.[key] === 'string') out.push(params[key]);
+        for (const value of Object.values(data)) collectParams(value, key, out);
+    }
+    return out;
+}
+
+function bytes(text: string): Uint8Array {
+    return new TextEncoder().encode(text);
+}
+
+
+test('snapshot is exported with structures and annotations as files', async () => {
+    const snapshot: MVSData = JSON.parse(readFileSync(GOLDEN_FILE, 'utf8'));
+    const originalUrls = collectParams(snapshot, 'url');
+    const originalDataUris = collectParams(snapshot, 'uri').filter(uri => uri.startsWith('data:'));
+    expect(originalUrls).toContain('https://www.ebi.ac.uk/pdbe/entry-files/0fix.bcif');
+    expect(originalDataUris.length).toBeGreaterThan(1);
+
+    const fetcher = jest.fn(async (url: string) => bytes(`content of ${url}`));
+    const files = await readMvsx(await createSnapshotMvsx(snapshot, { fetcher }));
+    const index = JSON.parse(new TextDecoder().decode(files['index.mvsj']));
+
+    // Each file is downloaded and stored only once
+    expect(fetcher).toHaveBeenCalledTimes(new Set(originalUrls).size);
+    expect(new Set(collectParams(index, 'url'))).toEqual(new Set(['structures/0fix.bcif']));
+    expect(new TextDecoder().decode(files['structures/0fix.bcif'])).toBe('content of https://www.ebi.ac.uk/pdbe/entry-files/0fix.bcif');
+
+    const uris = collectParams(index, 'uri');
+    expect(uris.some(uri => uri.startsWith('data:'))).toBe(false);
+    const annotationFiles = Object.keys(files).filter(name => name.startsWith('annotations/'));
+    expect(annotationFiles.length).toBe(new Set(originalDataUris).size);
+    expect(new Set(uris)).toEqual(new Set(annotationFiles));
+    expect(uris.length).toBe(originalDataUris.length);
+    for (let i = 0; i < uris.length; i++) {
+        expect(files[uris[i]]).toEqual(decodeDataUri(originalDataUris[i]));
+    }
+    expect(Object.keys(files).sort()).toEqual(['index.mvsj', 'structures/0fix.bcif', ...annotationFiles].sort());
+});
+
+test('files with the same name get unique paths', async () => {
+    const snapshot = {
+        kind: 'single',
+        metadata: { version: '1' },
+        root: {
+            kind: 'root',
+            children: [
+                { kind: 'download', params: { url: 'https://a.test/1abc.cif' } },
+                { kind: 'download', params: { url: 'https://b.test/1abc.cif?version=2' } },
+                { kind: 'download', params: { url: 'https://a.test/1abc.cif' } },
+            ],
+        },
+    } as unknown as MVSData;
+    const files = await readMvsx(await createSnapshotMvsx(snapshot, { fetcher: async url => bytes(url) }));
+    const index = JSON.parse(new TextDecoder().decode(files['index.mvsj']));
+    expect(collectParams(index, 'url')).toEqual(['structures/1abc.cif', 'structures/1abc-2.cif', 'structures/1abc.cif']);
+    expect(new TextDecoder().decode(files['structures/1abc-2.cif'])).toBe('https://b.test/1abc.cif?version=2');
+});
+
+test('export is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const snapshot = JSON.parse(readFileSync(GOLDEN_FILE, 'utf8'));
+    const fetcher = jest.fn(async () => bytes(''));
+    await expect(createSnapshotMvsx(snapshot, { fetcher, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetcher).not.toHaveBeenCalled();
+});
+
+test('data URIs are decoded', () => {
+    const text = (dataUri: string) => new TextDecoder().decode(decodeDataUri(dataUri));
+    expect(text('data:text/plain,data_annotations%0Aloop_%20x')).toBe('data_annotations\nloop_ x');
+    expect(text('data:,100%25 %ZZ %4')).toBe('100% %ZZ %4'); // invalid escapes are kept
+    expect(text('data:text/plain,Ångström %C3%85')).toBe('Ångström Å'); // non-ASCII characters are encoded as UTF-8
+    expect(text('data:text/plain;charset=utf-8;base64,ZGF0YV9h\nbm5vdGF0aW9ucw==')).toBe('data_annotations');
+    expect(decodeDataUri('data:application/octet-stream;base64,AP+A')).toEqual(new Uint8Array([0, 255, 128]));
+    expect(() => decodeDataUri('https://a.test/annotations.cif')).toThrow('Invalid data URI');
+    expect(() => decodeDataUri('data:text/plain')).toThrow('Invalid data URI');
+});
@@ -0,0 +1,141 @@
+import type { MVSData } from 'molstar/lib/extensions/mvs/mvs-data';
+import { createMVSX } from 'molstar/lib/extensions/mvs/export';
+import { throwIfAborted } from './abort';
+import { fetchModelData, type ModelFetcher } from './model-provider';
+
+
+export interface MvsxExportOptions {
+    /** Function retrieving structure files referenced by `download` nodes (can be replaced to use local files) */
+    fetcher: ModelFetcher,
+    signal?: AbortSignal,
+}
+
+export const DefaultMvsxExportOptions: MvsxExportOptions = {
+    fetcher: fetchModelData,
+};
+
+/** File to be included in MVSX archive, with path relative to the archive root */
+interface MvsxAsset {
+    name: string,
+    content: string | Uint8Array,
+}
+
+/** MVS tree node, only the parts needed for rewriting URIs */
+interface TreeNode {
+    kind: string,
+    params?: { [key: string]: unknown },
+    children?: TreeNode[],
+}
+
+
+/** Create a self-contained MVSX archive (zip) from `snapshot`: structure files from `download` nodes
+ * and annotations embedded as data URIs (in `*_from_uri` nodes) are stored as separate files in the archive
+ * and referenced by relative paths from the state file (`index.mvsj`), so the archive can be opened offline. */
+export async function createSnapshotMvsx(snapshot: MVSData, options?: Partial<MvsxExportOptions>): Promise<Uint8Array> {
+    const { fetcher, signal } = { ...DefaultMvsxExportOptions, ...options };
+    const collector = new AssetCollector(fetcher, signal);
+    let data: MVSData;
+    if (snapshot.kind === 'multiple') {
+        const snapshots = [];
+        for (const s of snapshot.snapshots) {
+            snapshots.push({ ...s, root: await collector.rewriteTree(s.root as TreeNode) });
+        }
+        data = { ...snapshot, snapshots } as MVSData;
+    } else {
+        data = { ...snapshot, root: await collector.rewriteTree(snapshot.root as TreeNode) } as MVSData;
+    }
+    throwIfAborted(signal);
+    return await createMVSX(data, collector.assets);
+}
+
+
+/** Replaces external and data URIs in MVS trees by relative paths and collects the referenced files */
+class AssetCollector {
+    readonly assets: MvsxAsset[] = [];
+    /** Archive path for each original URL or data URI (the same file is only included once) */
+    private readonly paths = new Map<string, string>();
+    private annotationCounter = 0;
+
+    constructor(private readonly fetcher: ModelFetcher, private readonly signal: AbortSignal | undefined) { }
+
+    async rewriteTree(node: TreeNode): Promise<TreeNode> {
+        let params = node.params;
+        if (node.kind === 'download' && typeof params?.url === 'string') {
+            params = { ...params, url: await this.structurePath(params.url) };
+        } else if (typeof params?.uri === 'string' && params.uri.startsWith('data:')) {
+            params = { ...params, uri: this.annotationPath(params.uri, params.format) };
+        }
+        let children: TreeNode[] | undefined = undefined;
+        if (node.children) {
+            children = [];
+            for (const child of node.children) children.push(await this.rewriteTree(child)); // sequentially, to get reproducible file names
+        }
+        return { ...node, ...(params && { params }), ...(children && { children }) };
+    }
+
+    /** Fetch structure file from `url` and return its path in the archive */
+    private async structurePath(url: string): Promise<string> {
+        const existing = this.paths.get(url);
+        if (existing !== undefined) return existing;
+        const fileName = url.split(/[?#]/)[0].split('/').pop() || 'structure';
+        const name = this.uniqueName(`structures/${fileName}`);
+        throwIfAborted(this.signal);
+        const content = await this.fetcher(url, this.signal);
+        this.paths.set(url, name);
+        this.assets.push({ name, content });
+        return name;
+    }
+
+    /** Extract annotation content from `dataUri` and return its path in the archive */
+    private annotationPath(dataUri: string, format: unknown): string {
+        const existing = this.paths.get(dataUri);
+        if (existing !== undefined) return existing;
+        const extension = format === 'json' ? 'json' : format === 'bcif' ? 'bcif' : 'cif';
+        const name = this.uniqueName(`annotations/annotation-${++this.annotationCounter}.${extension}`);
+        this.paths.set(dataUri, name);
+        this.assets.push({ name, content: decodeDataUri(dataUri) });
+        return name;
+    }
+
+    private uniqueName(name: string): string {
+        const taken = new Set(this.paths.values());
+        if (!taken.has(name)) return name;
+        const dot = name.lastIndexOf('.');
+        const [stem, extension] = dot > name.lastIndexOf('/') ? [name.slice(0, dot), name.slice(dot)] : [name, ''];
+        for (let i = 2; ; i++) {
+            const candidate = `${stem}-${i}${extension}`;
+            if (!taken.has(candidate)) return candidate;
+        }
+    }
+}
+
+
+/** Get content of a data URI (as `fetch` would, i.e. base64-decoded or percent-decoded) */
+export function decodeDataUri(dataUri: string): Uint8Array {
+    const comma = dataUri.indexOf(',');
+    if (!dataUri.startsWith('data:') || comma < 0) throw new Error(`Invalid data URI: ${dataUri.slice(0, 50)}...`);
+    const header = dataUri.slice(5, comma);
+    const body = dataUri.slice(comma + 1);
+    if (/;base64$/i.test(header)) {
+        const binary = atob(body.replace(/\s/g, ''));
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        return bytes;
+    }
+    // Percent-decode, leaving invalid sequences (e.g. '%' not followed by two hex digits) as they are
+    const utf8 = new TextEncoder().encode(body);
+    const out: number[] = [];
+    for (let i = 0; i < utf8.length; i++) {
+        if (utf8[i] === 0x25 /* % */ && i + 2 < utf8.length && isHexDigit(utf8[i + 1]) && isHexDigit(utf8[i + 2])) {
+            out.push(parseInt(String.fromCharCode(utf8[i + 1], utf8[i + 2]), 16));
+            i += 2;
+        } else {
+            out.push(utf8[i]);
+        }
+    }
+    return new Uint8Array(out);
+}
+
+function isHexDigit(charCode: number): boolean {
+    return (charCode >= 0x30 && charCode <= 0x39) || (charCode >= 0x41 && charCode <= 0x46) || (charCode >= 0x61 && charCode <= 0x66);
+}
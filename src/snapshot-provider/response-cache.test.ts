@@ -0,0 +1,176 @@
+/**
+ * @jest-environment node
+ */
+
+import { IndexedDbResponseCache, MemoryResponseCache, type StoredResponse, TieredResponseCache } from './response-cache';
+
+
+/** Minimal in-memory IndexedDB with one object store per database (only the parts used by `IndexedDbResponseCache`).
+ * Requests succeed asynchronously, a transaction completes when all its requests (incl. cursor steps) have succeeded. */
+function fakeIndexedDB() {
+    const databases = new Map<string, Map<string, StoredResponse>>();
+    return {
+        open(name: string) {
+            const request: any = {};
+            setTimeout(() => {
+                const isNew = !databases.has(name);
+                if (isNew) databases.set(name, new Map());
+                request.result = fakeDatabase(databases.get(name)!);
+                if (isNew) request.onupgradeneeded?.();
+                request.onsuccess?.();
+            });
+            return request;
+        },
+    };
+}
+
+function fakeDatabase(records: Map<string, StoredResponse>) {
+    return {
+        createObjectStore: () => ({ createIndex: () => { } }),
+        transaction: () => {
+            const tx: any = {};
+            let pending = 0;
+            const request = (getResult: () => unknown) => {
+                const req: any = {};
+                pending++;
+                setTimeout(() => {
+                    req.result = getResult();
+                    req.onsuccess?.();
+                    if (--pending === 0) tx.oncomplete?.();
+                });
+                return req;
+            };
+            const store = {
+                get: (key: string) => request(() => records.get(key)),
+                put: (value: StoredResponse) => request(() => { records.set(value.key, value); return value.key; }),
+                delete: (key: string) => request(() => { records.delete(key); }),
+                count: () => request(() => records.size),
+                clear: () => request(() => records.clear()),
+                index: () => ({
+                    openCursor: () => {
+                        // Index on storedAt, ties ordered by primary key
+                        const keys = Array.from(records.values()).sort((a, b) => a.storedAt - b.storedAt || (a.key < b.key ? -1 : 1)).map(r => r.key);
+                        let i = 0;
+                        const cursorRequest: any = {};
+                        const cursor = {
+                            delete: () => { records.delete(keys[i]); },
+                            continue: () => { i++; step(); },
+                        };
+                        const step = () => request(() => {
+                            cursorRequest.result = i < keys.length ? cursor : null;
+                            cursorRequest.onsuccess?.();
+                        });
+                        step();
+                        return cursorRequest;
+                    },
+                }),
+            };
+            tx.objectStore = () => store;
+            return tx;
+        },
+    };
+}
+
+
+afterEach(() => {
+    jest.restoreAllMocks();
+    delete (globalThis as any).indexedDB;
+});
+
+
+test('memory cache evicts least recently used responses', async () => {
+    const cache = new MemoryResponseCache({ maxEntries: 2 });
+    await cache.set('a', { status: 200, body: 'A' });
+    await cache.set('b', { status: 200, body: 'B' });
+    expect(await cache.get('a')).toEqual({ status: 200, body: 'A' }); // 'a' is now most recently used
+    await cache.set('c', { status: 404 }); // evicts 'b'
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('a')).toEqual({ status: 200, body: 'A' });
+    expect(await cache.get('c')).toEqual({ status: 404 });
+    expect(cache.stats()).toEqual({ hits: 3, misses: 1, evictions: 1, size: 2 });
+});
+
+test('memory cache expires old responses', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new MemoryResponseCache({ ttlMs: 100 });
+    await cache.set('a', { status: 200, body: 'A' });
+    now.mockReturnValue(1100);
+    expect(await cache.get('a')).toEqual({ status: 200, body: 'A' });
+    now.mockReturnValue(1101);
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, evictions: 1, size: 0 });
+});
+
+test('tiered cache promotes responses to faster tiers', async () => {
+    const fast = new MemoryResponseCache();
+    const slow = new MemoryResponseCache();
+    const cache = new TieredResponseCache([fast, slow]);
+    await slow.set('a', { status: 200, body: 'A' });
+
+    expect(await fast.get('a')).toBeUndefined();
+    expect(await cache.get('a')).toEqual({ status: 200, body: 'A' });
+    expect(await fast.get('a')).toEqual({ status: 200, body: 'A' });
+    expect(await cache.get('missing')).toBeUndefined();
+
+    await cache.set('b', { status: 404 });
+    expect(await fast.get('b')).toEqual({ status: 404 });
+    expect(await slow.get('b')).toEqual({ status: 404 });
+
+    await cache.clear();
+    expect(fast.stats().size).toBe(0);
+    expect(slow.stats().size).toBe(0);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, evictions: 0 });
+});
+
+test('IndexedDB cache persists responses', async () => {
+    expect(IndexedDbResponseCache.isAvailable()).toBe(false);
+    (globalThis as any).indexedDB = fakeIndexedDB();
+    expect(IndexedDbResponseCache.isAvailable()).toBe(true);
+
+    const cache = new IndexedDbResponseCache('test-cache');
+    await cache.set('a', { status: 200, body: 'A' });
+    await cache.set('b', { status: 404 });
+    expect(await cache.get('a')).toEqual({ status: 200, body: 'A' });
+    expect(await cache.get('missing')).toBeUndefined();
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, evictions: 0 });
+
+    // E.g. after page reload
+    const reopened = new IndexedDbResponseCache('test-cache');
+    expect(await reopened.get('b')).toEqual({ status: 404 });
+    expect(await new IndexedDbResponseCache('other-cache').get('b')).toBeUndefined();
+
+    await reopened.clear();
+    expect(await cache.get('a')).toBeUndefined();
+});
+
+test('IndexedDB cache evicts oldest responses', async () => {
+    (globalThis as any).indexedDB = fakeIndexedDB();
+    const now = jest.spyOn(Date, 'now');
+    const cache = new IndexedDbResponseCache('test-cache', { maxEntries: 2 });
+    now.mockReturnValue(1000);
+    await cache.set('a', { status: 200, body: 'A' });
+    now.mockReturnValue(1001);
+    await cache.set('b', { status: 200, body: 'B' });
+    now.mockReturnValue(1002);
+    await cache.set('c', { status: 200, body: 'C' }); // evicts 'a'
+    now.mockReturnValue(1003);
+    await cache.set('a', { status: 200, body: 'A2' }); // evicts 'b'
+    expect(await cache.get('a')).toEqual({ status: 200, body: 'A2' });
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toEqual({ status: 200, body: 'C' });
+    expect(cache.stats()).toEqual({ hits: 2, misses: 1, evictions: 2 });
+});
+
+test('IndexedDB cache expires old responses', async () => {
+    (globalThis as any).indexedDB = fakeIndexedDB();
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const cache = new IndexedDbResponseCache('test-cache', { ttlMs: 100 });
+    await cache.set('a', { status: 200, body: 'A' });
+    now.mockReturnValue(1100);
+    expect(await cache.get('a')).toEqual({ status: 200, body: 'A' });
+    now.mockReturnValue(1101);
+    expect(await cache.get('a')).toBeUndefined();
+    now.mockReturnValue(1000);
+    expect(await cache.get('a')).toBeUndefined(); // expired response was deleted
+    expect(cache.stats()).toEqual({ hits: 1, misses: 2, evictions: 1 });
+});
@@ -0,0 +1,232 @@
+import type { PdbeApiResponse } from './data-provider';
+
+
+/** Storage for PDBe API responses, keyed by relative URL (e.g. 'pdb/entry/summary/1tqn').
+ * One cache instance should only be used with one API base URL. */
+export interface IResponseCache {
+    /** Resolve to cached response, or `undefined` if not cached (or expired) */
+    get(key: string): Promise<PdbeApiResponse | undefined>,
+    set(key: string, response: PdbeApiResponse): Promise<void>,
+    /** Remove all cached responses */
+    clear(): Promise<void>,
+    /** Statistics since the cache instance was created */
+    stats(): ResponseCacheStats,
+}
+
+export interface ResponseCacheStats {
+    /** Number of `get` calls that found a valid response */
+    hits: number,
+    /** Number of `get` calls that found nothing (or an expired response) */
+    misses: number,
+    /** Number of responses removed because of limited capacity or expiration */
+    evictions: number,
+    /** Number of currently cached responses, if known cheaply */
+    size?: number,
+}
+
+export interface ResponseCacheOptions {
+    /** Maximum number of cached responses, least recently used responses are evicted first (Infinity = no limit) */
+    maxEntries: number,
+    /** Time to live in milliseconds, older responses are treated as missing (Infinity = never expire) */
+    ttlMs: number,
+}
+
+export const DefaultResponseCacheOptions: ResponseCacheOptions = {
+    maxEntries: 1000,
+    ttlMs: 24 * 60 * 60 * 1000, // 1 day
+};
+
+
+/** Response stored together with the time of storing (used by persistent caches) */
+export interface StoredResponse {
+    key: string,
+    /** Time of storing, in milliseconds since epoch */
+    storedAt: number,
+    response: PdbeApiResponse,
+}
+
+/** Decide if `stored` is older than `ttlMs` */
+export function isExpired(stored: StoredResponse, ttlMs: number, now: number = Date.now()): boolean {
+    return now - stored.storedAt > ttlMs;
+}
+
+/** Create stats object with all counters at zero */
+export function emptyCacheStats(): ResponseCacheStats {
+    return { hits: 0, misses: 0, evictions: 0 };
+}
+
+
+/** In-memory cache with LRU eviction and TTL expiration. Responses are not copied, so they must not be modified by the caller. */
+export class MemoryResponseCache implements IResponseCache {
+    private readonly options: ResponseCacheOptions;
+    /** Map iteration order is insertion order, so the least recently used entry is always first */
+    private readonly entries = new Map<string, StoredResponse>();
+    private readonly _stats = emptyCacheStats();
+
+    constructor(options?: Partial<ResponseCacheOptions>) {
+        this.options = { ...DefaultResponseCacheOptions, ...options };
+    }
+
+    async get(key: string): Promise<PdbeApiResponse | undefined> {
+        const stored = this.entries.get(key);
+        if (stored === undefined) {
+            this._stats.misses++;
+            return undefined;
+        }
+        this.entries.delete(key);
+        if (isExpired(stored, this.options.ttlMs)) {
+            this._stats.evictions++;
+            this._stats.misses++;
+            return undefined;
+        }
+        this.entries.set(key, stored); // move to the end (most recently used)
+        this._stats.hits++;
+        return stored.response;
+    }
+
+    async set(key: string, response: PdbeApiResponse): Promise<void> {
+        this.entries.delete(key);
+        this.entries.set(key, { key, storedAt: Date.now(), response });
+        while (this.entries.size > this.options.maxEntries) {
+            const oldestKey = this.entries.keys().next().value as string;
+            this.entries.delete(oldestKey);
+            this._stats.evictions++;
+        }
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+    }
+
+    stats(): ResponseCacheStats {
+        return { ...this._stats, size: this.entries.size };
+    }
+}
+
+
+/** Persistent cache in browser's IndexedDB, with TTL expiration.
+ * When the number of entries exceeds `maxEntries`, the oldest stored entries are evicted (storing order is used instead of LRU to avoid writes on every read). */
+export class IndexedDbResponseCache implements IResponseCache {
+    private static readonly STORE = 'responses';
+    private static readonly STORED_AT_INDEX = 'storedAt';
+
+    private readonly options: ResponseCacheOptions;
+    private readonly _stats = emptyCacheStats();
+    private _db?: Promise<IDBDatabase>;
+
+    constructor(private readonly dbName: string = 'pdbe-api-cache', options?: Partial<ResponseCacheOptions>) {
+        this.options = { ...DefaultResponseCacheOptions, ...options };
+    }
+
+    /** Decide if IndexedDB is available in the current environment */
+    static isAvailable(): boolean {
+        return typeof indexedDB !== 'undefined';
+    }
+
+    private db(): Promise<IDBDatabase> {
+        return this._db ??= new Promise<IDBDatabase>((resolve, reject) => {
+            const request = indexedDB.open(this.dbName, 1);
+            request.onupgradeneeded = () => {
+                const store = request.result.createObjectStore(IndexedDbResponseCache.STORE, { keyPath: 'key' });
+                store.createIndex(IndexedDbResponseCache.STORED_AT_INDEX, 'storedAt');
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+
+    private async transaction<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+        const db = await this.db();
+        return new Promise<T | undefined>((resolve, reject) => {
+            const tx = db.transaction(IndexedDbResponseCache.STORE, mode);
+            const request = action(tx.objectStore(IndexedDbResponseCache.STORE));
+            tx.oncomplete = () => resolve(request?.result);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    }
+
+    async get(key: string): Promise<PdbeApiResponse | undefined> {
+        const stored = await this.transaction<StoredResponse>('readonly', store => store.get(key));
+        if (stored === undefined) {
+            this._stats.misses++;
+            return undefined;
+        }
+        if (isExpired(stored, this.options.ttlMs)) {
+            await this.transaction('readwrite', store => { store.delete(key); });
+            this._stats.evictions++;
+            this._stats.misses++;
+            return undefined;
+        }
+        this._stats.hits++;
+        return stored.response;
+    }
+
+    async set(key: string, response: PdbeApiResponse): Promise<void> {
+        const stored: StoredResponse = { key, storedAt: Date.now(), response };
+        await this.transaction('readwrite', store => { store.put(stored); });
+        await this.evictOldest();
+    }
+
+    /** Remove the oldest entries over `maxEntries` */
+    private async evictOldest(): Promise<void> {
+        if (!isFinite(this.options.maxEntries)) return;
+        const count = await this.transaction('readonly', store => store.count()) ?? 0;
+        let excess = count - this.options.maxEntries;
+        if (excess <= 0) return;
+        await this.transaction('readwrite', store => {
+            const cursorRequest = store.index(IndexedDbResponseCache.STORED_AT_INDEX).openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor || excess <= 0) return;
+                cursor.delete();
+                excess--;
+                this._stats.evictions++;
+                cursor.continue();
+            };
+        });
+    }
+
+    async clear(): Promise<void> {
+        await this.transaction('readwrite', store => { store.clear(); });
+    }
+
+    stats(): ResponseCacheStats {
+        return { ...this._stats };
+    }
+}
+
+
+/** Combines multiple caches, from the fastest to the slowest (e.g. memory in front of IndexedDB).
+ * A response found in a slower cache is copied to all faster caches, new responses are stored to all caches. */
+export class TieredResponseCache implements IResponseCache {
+    private readonly _stats = emptyCacheStats();
+
+    constructor(private readonly tiers: IResponseCache[]) { }
+
+    async get(key: string): Promise<PdbeApiResponse | undefined> {
+        for (let i = 0; i < this.tiers.length; i++) {
+            const response = await this.tiers[i].get(key);
+            if (response !== undefined) {
+                await Promise.all(this.tiers.slice(0, i).map(tier => tier.set(key, response)));
+                this._stats.hits++;
+                return response;
+            }
+        }
+        this._stats.misses++;
+        return undefined;
+    }
+
+    async set(key: string, response: PdbeApiResponse): Promise<void> {
+        await Promise.all(this.tiers.map(tier => tier.set(key, response)));
+    }
+
+    async clear(): Promise<void> {
+        await Promise.all(this.tiers.map(tier => tier.clear()));
+    }
+
+    /** Overall hits and misses; evictions summed over all tiers */
+    stats(): ResponseCacheStats {
+        return { ...this._stats, evictions: this.tiers.reduce((sum, tier) => sum + tier.stats().evictions, 0) };
+    }
+}
@@ -0,0 +1,96 @@
+/** Structured, machine-readable information about a snapshot, complementing its Markdown description. */
+
+import type { Snapshot } from 'molstar/lib/extensions/mvs/mvs-data';
+import type { ColorT, ComponentExpressionT } from 'molstar/lib/extensions/mvs/tree/mvs/param-types';
+import type { EntityRecord, IDataProvider } from './data-provider';
+import { MODEL } from './mvs-snapshot-types';
+
+
+/** Key of the snapshot info in the custom state of the MVS root node */
+export const SNAPSHOT_INFO_CUSTOM_KEY = 'pdbconnect_snapshot_info';
+
+export interface SnapshotInfo {
+    /** Shown assembly ID, or 'model' for the deposited model */
+    displayedAssembly: string,
+    /** Set if the snapshot shows something else than requested (e.g. the deposited model instead of an assembly not containing the chain) */
+    fallback?: SnapshotFallback,
+    /** Other problems worth showing to the user (e.g. missing data) */
+    warnings: string[],
+    /** Highlighted parts of the structure (typically also focused) */
+    highlights: SnapshotHighlight[],
+    /** Colour legend (only colours with a meaning specific for this snapshot) */
+    legend: LegendEntry[],
+    /** Data used to create the snapshot (`structure` = structure file, other items = `IDataProvider` methods) */
+    dataSources: DataSource[],
+}
+
+export type FallbackReason = 'chain_not_in_assembly';
+
+export interface SnapshotFallback {
+    reason: FallbackReason,
+    /** Assembly ID requested in the spec */
+    requestedAssembly?: string,
+    /** Human-readable explanation */
+    message: string,
+}
+
+export interface SnapshotHighlight {
+    label: string,
+    selector: ComponentExpressionT | ComponentExpressionT[],
+    color?: ColorT,
+}
+
+export interface LegendEntry {
+    label: string,
+    color: ColorT,
+}
+
+export type DataSource = 'structure' | keyof IDataProvider;
+
+
+/** Create empty snapshot info (showing the deposited model) */
+export function createSnapshotInfo(): SnapshotInfo {
+    return { displayedAssembly: MODEL, warnings: [], highlights: [], legend: [], dataSources: ['structure'] };
+}
+
+/** Add a legend entry, unless the same entry is already present */
+export function addLegendEntry(info: SnapshotInfo, label: string, color: ColorT): void {
+    if (!info.legend.some(entry => entry.label === label && entry.color === color)) {
+        info.legend.push({ label, color });
+    }
+}
+
+/** Add legend entries for entities coloured by `entityColors` (default: all entities except water) */
+export function addEntityLegend(info: SnapshotInfo, entities: { [entityId: string]: EntityRecord }, entityColors: { [entityId: string]: ColorT }, entityIds?: string[]): void {
+    for (const entityId of entityIds ?? Object.keys(entities).filter(id => entities[id].type !== 'water')) {
+        const color = entityColors[entityId];
+        if (color !== undefined) addLegendEntry(info, entities[entityId]?.name || `Entity ${entityId}`, color);
+    }
+}
+
+/** Get snapshot info from a snapshot created by `MVSSnapshotProvider` (undefined for other snapshots) */
+export function getSnapshotInfo(snapshot: Snapshot): SnapshotInfo | undefined {
+    return snapshot.root.custom?.[SNAPSHOT_INFO_CUSTOM_KEY];
+}
+
+
+/** Data provider recording which data were requested (`dataSources` of `SnapshotInfo`) */
+export class RecordingDataProvider implements IDataProvider {
+    readonly used = new Set<keyof IDataProvider>();
+
+    constructor(private readonly provider: IDataProvider) { }
+
+    assemblies(entryId: string, signal?: AbortSignal) { this.used.add('assemblies'); return this.provider.assemblies(entryId, signal); }
+    entities(pdbId: string, signal?: AbortSignal) { this.used.add('entities'); return this.provider.entities(pdbId, signal); }
+    ligands(pdbId: string, signal?: AbortSignal) { this.used.add('ligands'); return this.provider.ligands(pdbId, signal); }
+    modifiedResidues(pdbId: string, signal?: AbortSignal) { this.used.add('modifiedResidues'); return this.provider.modifiedResidues(pdbId, signal); }
+    entitiesInAssemblies(pdbId: string, signal?: AbortSignal) { this.used.add('entitiesInAssemblies'); return this.provider.entitiesInAssemblies(pdbId, signal); }
+    chainsInAssemblies(pdbId: string, signal?: AbortSignal) { this.used.add('chainsInAssemblies'); return this.provider.chainsInAssemblies(pdbId, signal); }
+    siftsMappings(pdbId: string, signal?: AbortSignal) { this.used.add('siftsMappings'); return this.provider.siftsMappings(pdbId, signal); }
+    siftsMappingsByEntity(pdbId: string, signal?: AbortSignal) { this.used.add('siftsMappingsByEntity'); return this.provider.siftsMappingsByEntity(pdbId, signal); }
+    authChainCoverages(pdbId: string, signal?: AbortSignal) { this.used.add('authChainCoverages'); return this.provider.authChainCoverages(pdbId, signal); }
+    experimentalMethods(pdbId: string, signal?: AbortSignal) { this.used.add('experimentalMethods'); return this.provider.experimentalMethods(pdbId, signal); }
+    pdbeStructureQualityReport(pdbId: string, signal?: AbortSignal) { this.used.add('pdbeStructureQualityReport'); return this.provider.pdbeStructureQualityReport(pdbId, signal); }
+    atomInteractions(pdbId: string, authAsymId: string, authSeqId: number, signal?: AbortSignal) { this.used.add('atomInteractions'); return this.provider.atomInteractions(pdbId, authAsymId, authSeqId, signal); }
+    llmAnnotations(pdbId: string, signal?: AbortSignal) { this.used.add('llmAnnotations'); return this.provider.llmAnnotations(pdbId, signal); }
+}
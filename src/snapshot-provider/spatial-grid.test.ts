@@ -0,0 +1,33 @@
+import { SpatialGrid } from './spatial-grid';
+
+
+/** Deterministic pseudo-random numbers in [0, 1) */
+function makeRandom(seed: number): () => number {
+    return () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648;
+        return seed / 2147483648;
+    };
+}
+
+test('radius queries agree with brute force', () => {
+    const random = makeRandom(42);
+    const n = 2000;
+    const x = Array.from({ length: n }, () => 100 * random());
+    const y = Array.from({ length: n }, () => 20 * random());
+    const z = Array.from({ length: n }, () => 50 * random() - 25);
+    const indices = Array.from({ length: n }, (_, i) => i).filter(i => i % 3 !== 0);
+    const grid = new SpatialGrid(x, y, z, { indices });
+    for (let q = 0; q < 200; q++) {
+        const [qx, qy, qz] = [120 * random() - 10, 40 * random() - 10, 70 * random() - 35];
+        const radius = 8 * random();
+        const expected = indices.filter(i => (x[i] - qx) ** 2 + (y[i] - qy) ** 2 + (z[i] - qz) ** 2 <= radius ** 2);
+        expect(grid.findWithin(qx, qy, qz, radius).sort((a, b) => a - b)).toEqual(expected);
+        expect(grid.anyWithin(qx, qy, qz, radius)).toBe(expected.length > 0);
+    }
+});
+
+test('empty grid', () => {
+    const grid = new SpatialGrid([], [], []);
+    expect(grid.findWithin(0, 0, 0, 10)).toEqual([]);
+    expect(grid.anyWithin(0, 0, 0, 10)).toBe(false);
+});
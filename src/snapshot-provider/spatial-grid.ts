@@ -0,0 +1,121 @@
+/** Spatial index for fast neighbour search in 3D. */
+
+/** Default edge length of grid cells, in angstroms (about the typical query radius) */
+const DEFAULT_CELL_SIZE = 4;
+/** Maximum number of grid cells per indexed point (cells are enlarged for sparse point sets, to limit memory) */
+const MAX_CELLS_PER_POINT = 8;
+
+
+/** Uniform grid over a set of points (given by coordinate arrays), serving radius queries.
+ * Points are stored sorted by cell, so a query only visits points in the cells overlapping the query sphere. */
+export class SpatialGrid {
+    private readonly min: [number, number, number] = [0, 0, 0];
+    private readonly dims: [number, number, number] = [0, 0, 0];
+    private readonly cellSize: number;
+    /** Indexed point indices, sorted by cell */
+    private readonly cellPoints: Int32Array;
+    /** Start of each cell in `cellPoints` (length = number of cells + 1) */
+    private readonly cellOffsets: Int32Array;
+
+    /** Index points `indices` (default: all points) with coordinates `x`, `y`, `z` */
+    constructor(
+        readonly x: ArrayLike<number>,
+        readonly y: ArrayLike<number>,
+        readonly z: ArrayLike<number>,
+        options?: { indices?: ArrayLike<number>, cellSize?: number },
+    ) {
+        const indices = options?.indices ?? range(x.length);
+        const n = indices.length;
+        const max = [-Infinity, -Infinity, -Infinity];
+        this.min.fill(Infinity);
+        for (let k = 0; k < n; k++) {
+            const i = indices[k];
+            this.min[0] = Math.min(this.min[0], x[i]); max[0] = Math.max(max[0], x[i]);
+            this.min[1] = Math.min(this.min[1], y[i]); max[1] = Math.max(max[1], y[i]);
+            this.min[2] = Math.min(this.min[2], z[i]); max[2] = Math.max(max[2], z[i]);
+        }
+        let cellSize = options?.cellSize ?? DEFAULT_CELL_SIZE;
+        if (n > 0) {
+            const extent = [0, 1, 2].map(d => max[d] - this.min[d]);
+            const maxCells = MAX_CELLS_PER_POINT * n;
+            while ((Math.floor(extent[0] / cellSize) + 1) * (Math.floor(extent[1] / cellSize) + 1) * (Math.floor(extent[2] / cellSize) + 1) > maxCells) {
+                cellSize *= 2;
+            }
+            for (let d = 0; d < 3; d++) this.dims[d] = Math.floor(extent[d] / cellSize) + 1;
+        }
+        this.cellSize = cellSize;
+
+        // Counting sort of points by cell
+        const nCells = this.dims[0] * this.dims[1] * this.dims[2];
+        const pointCells = new Int32Array(n);
+        this.cellOffsets = new Int32Array(nCells + 1);
+        for (let k = 0; k < n; k++) {
+            const i = indices[k];
+            const cell = this.cellIndex(this.cellCoord(x[i], 0), this.cellCoord(y[i], 1), this.cellCoord(z[i], 2));
+            pointCells[k] = cell;
+            this.cellOffsets[cell + 1]++;
+        }
+        for (let c = 0; c < nCells; c++) this.cellOffsets[c + 1] += this.cellOffsets[c];
+        const fill = this.cellOffsets.slice(0, nCells);
+        this.cellPoints = new Int32Array(n);
+        for (let k = 0; k < n; k++) {
+            this.cellPoints[fill[pointCells[k]]++] = indices[k];
+        }
+    }
+
+    /** Call `callback` for each indexed point within `radius` from the query point (in no particular order).
+     * Stop iteration and return true as soon as `callback` returns true, otherwise return false. */
+    forEachWithin(qx: number, qy: number, qz: number, radius: number, callback: (index: number, sqDistance: number) => boolean | void): boolean {
+        if (this.cellPoints.length === 0) return false;
+        const q = [qx, qy, qz];
+        for (let d = 0; d < 3; d++) {
+            // Query sphere completely outside the grid
+            if (q[d] + radius < this.min[d] || q[d] - radius > this.min[d] + this.dims[d] * this.cellSize) return false;
+        }
+        const sqRadius = radius ** 2;
+        const from = [this.cellCoord(qx - radius, 0), this.cellCoord(qy - radius, 1), this.cellCoord(qz - radius, 2)];
+        const to = [this.cellCoord(qx + radius, 0), this.cellCoord(qy + radius, 1), this.cellCoord(qz + radius, 2)];
+        for (let ix = from[0]; ix <= to[0]; ix++) {
+            for (let iy = from[1]; iy <= to[1]; iy++) {
+                for (let iz = from[2]; iz <= to[2]; iz++) {
+                    const cell = this.cellIndex(ix, iy, iz);
+                    for (let k = this.cellOffsets[cell], end = this.cellOffsets[cell + 1]; k < end; k++) {
+                        const i = this.cellPoints[k];
+                        const sqDistance = (this.x[i] - qx) ** 2 + (this.y[i] - qy) ** 2 + (this.z[i] - qz) ** 2;
+                        if (sqDistance <= sqRadius && callback(i, sqDistance)) return true;
+                    }
+                }
+            }
+        }
+        return false;
+    }
+
+    /** Decide if there is any indexed point within `radius` from the query point (optionally only points passing `filter`) */
+    anyWithin(qx: number, qy: number, qz: number, radius: number, filter?: (index: number) => boolean): boolean {
+        return this.forEachWithin(qx, qy, qz, radius, i => filter === undefined || filter(i));
+    }
+
+    /** Return indices of indexed points within `radius` from the query point */
+    findWithin(qx: number, qy: number, qz: number, radius: number): number[] {
+        const out: number[] = [];
+        this.forEachWithin(qx, qy, qz, radius, i => { out.push(i); });
+        return out;
+    }
+
+    /** Grid coordinate along dimension `d`, clamped to the grid */
+    private cellCoord(value: number, d: 0 | 1 | 2): number {
+        const c = Math.floor((value - this.min[d]) / this.cellSize);
+        return Math.max(0, Math.min(this.dims[d] - 1, c));
+    }
+
+    private cellIndex(ix: number, iy: number, iz: number): number {
+        return (ix * this.dims[1] + iy) * this.dims[2] + iz;
+    }
+}
+
+
+function range(n: number): Int32Array {
+    const out = new Int32Array(n);
+    for (let i = 0; i < n; i++) out[i] = i;
+    return out;
+}
@@ -0,0 +1,298 @@
+/**
+ * @jest-environment node
+ */
+
+import { Mat4, Vec3 } from 'molstar/lib/mol-math/linear-algebra';
+import { parseModel } from './model-provider';
+import { chainSurroundingsInAssembly, type ChainInstancesInfo, getAssemblySymmetry, getChainInterface, getGlycosylationSites, listInterfacingChainInstances, residueSurroundingsInAssembly } from './structure-info';
+
+
+/** Synthetic entry: protein chain A with Asn 2 carrying a NAG-NAG glycan (chain B) and Ser 3 with a nearby but unbonded NAG (chain C) */
+const GLYCOPROTEIN_CIF = `data_0gly
+loop_
+_entity.id
+_entity.type
+1 polymer
+2 branched
+3 non-polymer
+loop_
+_entity_poly.entity_id
+_entity_poly.type
+1 'polypeptide(L)'
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_entity_id
+_atom_site.label_seq_id
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.auth_seq_id
+_atom_site.auth_asym_id
+_atom_site.pdbx_PDB_model_num
+ATOM   1 N N   GLY A 1 1 0.000 0.000 0.000 1 A 1
+ATOM   2 C CA  GLY A 1 1 1.450 0.000 0.000 1 A 1
+ATOM   3 N N   ASN A 1 2 2.900 0.000 0.000 2 A 1
+ATOM   4 C CA  ASN A 1 2 4.350 0.000 0.000 2 A 1
+ATOM   5 N ND2 ASN A 1 2 4.350 3.000 0.000 2 A 1
+ATOM   6 N N   SER A 1 3 5.800 0.000 0.000 3 A 1
+ATOM   7 C CA  SER A 1 3 7.250 0.000 0.000 3 A 1
+ATOM   8 O OG  SER A 1 3 7.250 -3.000 0.000 3 A 1
+HETATM 9 C C1  NAG B 2 . 4.350 4.450 0.000 1 B 1
+HETATM 10 C C4 NAG B 2 . 4.350 7.000 0.000 1 B 1
+HETATM 11 C C1 NAG B 2 . 4.350 8.450 1.000 2 B 1
+HETATM 12 C C1 NAG C 3 . 7.250 -6.000 0.000 1 C 1
+`;
+
+test('glycosylation sites', async () => {
+    const model = await parseModel(GLYCOPROTEIN_CIF, '0gly');
+    expect(getGlycosylationSites(model)).toEqual([{
+        residue: { label_asym_id: 'A', label_seq_id: 2, auth_seq_id: 2, pdbx_PDB_ins_code: '', label_comp_id: 'ASN' },
+        linkage: 'N',
+        glycanLabelAsymId: 'B',
+        glycanCompIds: ['NAG'],
+    }]);
+});
+
+
+/** Synthetic entry: protein chain A (Gly 1 at origin, Gly 2 3.5 A away along y) and zinc ion chain B 2 A away along x;
+ * assembly 1 consists of the deposited copy (ASM-1) and a copy translated by 4 A along x (ASM-2) */
+const TRANSLATED_DIMER_CIF = `data_0dim
+loop_
+_entity.id
+_entity.type
+1 polymer
+2 non-polymer
+loop_
+_entity_poly.entity_id
+_entity_poly.type
+1 'polypeptide(L)'
+loop_
+_pdbx_struct_assembly.id
+_pdbx_struct_assembly.oligomeric_details
+1 dimeric
+loop_
+_pdbx_struct_assembly_gen.assembly_id
+_pdbx_struct_assembly_gen.oper_expression
+_pdbx_struct_assembly_gen.asym_id_list
+1 1,2 A,B
+loop_
+_pdbx_struct_oper_list.id
+_pdbx_struct_oper_list.type
+_pdbx_struct_oper_list.matrix[1][1]
+_pdbx_struct_oper_list.matrix[1][2]
+_pdbx_struct_oper_list.matrix[1][3]
+_pdbx_struct_oper_list.vector[1]
+_pdbx_struct_oper_list.matrix[2][1]
+_pdbx_struct_oper_list.matrix[2][2]
+_pdbx_struct_oper_list.matrix[2][3]
+_pdbx_struct_oper_list.vector[2]
+_pdbx_struct_oper_list.matrix[3][1]
+_pdbx_struct_oper_list.matrix[3][2]
+_pdbx_struct_oper_list.matrix[3][3]
+_pdbx_struct_oper_list.vector[3]
+1 'identity operation' 1 0 0 0 0 1 0 0 0 0 1 0
+2 'translation' 1 0 0 4 0 1 0 0 0 0 1 0
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_entity_id
+_atom_site.label_seq_id
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.auth_seq_id
+_atom_site.auth_asym_id
+_atom_site.pdbx_PDB_model_num
+ATOM   1 C CA GLY A 1 1 0.000 0.000 0.000 1 A 1
+ATOM   2 C CA GLY A 1 2 0.000 3.500 0.000 2 A 1
+HETATM 3 ZN ZN ZN B 2 . 2.000 0.000 0.000 101 A 1
+`;
+
+test('surroundings including symmetry mates', async () => {
+    const model = await parseModel(TRANSLATED_DIMER_CIF, '0dim');
+    const residue = (labelAsymId: string, labelSeqId: number, authSeqId: number, instanceId: string | undefined) =>
+        ({ label_asym_id: labelAsymId, label_seq_id: labelSeqId, auth_seq_id: authSeqId, pdbx_PDB_ins_code: '', instance_id: instanceId });
+
+    expect(chainSurroundingsInAssembly(model, '1', { labelAsymId: 'B', instanceId: 'ASM-1' }, 5)).toEqual([
+        residue('A', 1, 1, 'ASM-1'),
+        residue('A', 2, 2, 'ASM-1'),
+        residue('A', 1, 1, 'ASM-2'),
+        residue('A', 2, 2, 'ASM-2'),
+        residue('B', 0, 101, 'ASM-2'),
+    ]);
+    expect(chainSurroundingsInAssembly(model, undefined, { labelAsymId: 'B', instanceId: undefined }, 5)).toEqual([
+        residue('A', 1, 1, undefined),
+        residue('A', 2, 2, undefined),
+    ]);
+
+    // Residue target excludes only the residue itself, not the rest of its chain
+    expect(residueSurroundingsInAssembly(model, '1', { labelAsymId: 'A', instanceId: 'ASM-1' }, 1, '', 5)).toEqual([
+        residue('A', 2, 2, 'ASM-1'),
+        residue('B', 0, 101, 'ASM-1'),
+        residue('A', 1, 1, 'ASM-2'),
+    ]);
+    expect(residueSurroundingsInAssembly(model, '1', { labelAsymId: 'A', instanceId: 'ASM-2' }, 1, '', 5)).toEqual([
+        residue('A', 1, 1, 'ASM-1'),
+        residue('B', 0, 101, 'ASM-1'),
+        residue('A', 2, 2, 'ASM-2'),
+        residue('B', 0, 101, 'ASM-2'),
+    ]);
+    expect(() => residueSurroundingsInAssembly(model, '1', { labelAsymId: 'A', instanceId: 'ASM-1' }, 3, '', 5)).toThrow('Residue 3 (auth) not found in chain A');
+});
+
+
+/** Synthetic entry with two one-atom chains: A off the z axis, B on the z axis */
+const TWO_ATOMS_CIF = `data_0two
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_entity_id
+_atom_site.label_seq_id
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.auth_seq_id
+_atom_site.auth_asym_id
+_atom_site.pdbx_PDB_model_num
+HETATM 1 ZN ZN ZN A 1 . 10.000 0.000 3.000 1 A 1
+HETATM 2 ZN ZN ZN B 1 . 0.000 0.000 5.000 2 B 1
+`;
+
+/** Rotations by multiples of 360/n degrees around `axis` */
+function cyclicOperators(n: number, axis: Vec3): Mat4[] {
+    return Array.from({ length: n }, (_, k) => Mat4.fromRotation(Mat4(), 2 * Math.PI * k / n, axis));
+}
+
+/** All products `a * b` of operators from `as` and `bs` (like operator expression '(1-n)(n+1-m)') */
+function productOperators(as: Mat4[], bs: Mat4[]): Mat4[] {
+    return as.flatMap(a => bs.map(b => Mat4.mul(Mat4(), a, b)));
+}
+
+/** Assembly info with operator groups applied to the given chains (instance IDs are assigned sequentially) */
+function syntheticAssembly(groups: { chains: string[], operators: Mat4[] }[]): ChainInstancesInfo[string] {
+    const info: ChainInstancesInfo[string] = { allOperators: [], operatorsPerChain: {}, chainsPerOperator: {}, operatorMatrices: {} };
+    for (const group of groups) {
+        for (const operator of group.operators) {
+            const instanceId = `ASM-${info.allOperators.length + 1}`;
+            info.allOperators.push(instanceId);
+            info.operatorMatrices[instanceId] = operator;
+            info.chainsPerOperator[instanceId] = group.chains;
+            for (const chain of group.chains) (info.operatorsPerChain[chain] ??= []).push(instanceId);
+        }
+    }
+    return info;
+}
+
+function expectDirection(actual: Vec3, expected: Vec3) {
+    expect(Math.abs(Vec3.dot(actual, expected))).toBeCloseTo(1, 5);
+}
+
+test('assembly symmetry', async () => {
+    const model = await parseModel(TWO_ATOMS_CIF, '0two');
+    const z = Vec3.create(0, 0, 1);
+    const x = Vec3.create(1, 0, 0);
+
+    const c4 = getAssemblySymmetry(model, syntheticAssembly([{ chains: ['A', 'B'], operators: cyclicOperators(4, z) }]));
+    expect(c4).toMatchObject({ pointGroup: 'C4', order: 4 });
+    expect(c4.axes.map(axis => axis.order)).toEqual([4]);
+    expectDirection(c4.axes[0].direction, z);
+    expect(c4.center[0]).toBeCloseTo(0);
+    expect(c4.center[1]).toBeCloseTo(0);
+
+    const d3 = getAssemblySymmetry(model, syntheticAssembly([{ chains: ['A'], operators: productOperators(cyclicOperators(2, x), cyclicOperators(3, z)) }]));
+    expect(d3).toMatchObject({ pointGroup: 'D3', order: 6 });
+    expect(d3.axes.map(axis => axis.order)).toEqual([3, 2, 2, 2]);
+    expectDirection(d3.axes[0].direction, z);
+    for (const axis of d3.axes.slice(1)) expect(axis.direction[2]).toBeCloseTo(0); // two-fold axes perpendicular to the three-fold axis
+
+    // Two stacked C4 rings: the translation between the rings is not a symmetry operation
+    const stacked = getAssemblySymmetry(model, syntheticAssembly([{ chains: ['A'], operators: productOperators(cyclicOperators(4, z), [Mat4.identity(), Mat4.fromTranslation(Mat4(), Vec3.create(0, 0, 30))]) }]));
+    expect(stacked).toMatchObject({ pointGroup: 'C4', order: 4 });
+    expect(stacked.axes.map(axis => axis.order)).toEqual([4]);
+
+    // Different operators for different chains
+    const twoGroups = getAssemblySymmetry(model, syntheticAssembly([
+        { chains: ['A'], operators: cyclicOperators(2, z) },
+        { chains: ['B'], operators: [Mat4.identity()] },
+    ]));
+    expect(twoGroups).toMatchObject({ pointGroup: 'C2', order: 2 }); // B lies on the axis
+    const brokenSymmetry = getAssemblySymmetry(model, syntheticAssembly([
+        { chains: ['A'], operators: cyclicOperators(2, z) },
+        { chains: ['B'], operators: [Mat4.fromTranslation(Mat4(), Vec3.create(5, 0, 0))] },
+    ]));
+    expect(brokenSymmetry).toMatchObject({ pointGroup: 'C1', order: 1, axes: [] });
+});
+
+
+/** Synthetic entry: two protein chains with one-atom residues, in contact only by residue 1 of each chain (4 A apart);
+ * residue 2 of chain B has a hydrogen close to residue 2 of chain A, which must be ignored */
+const TWO_CHAINS_CIF = `data_0int
+loop_
+_entity.id
+_entity.type
+1 polymer
+loop_
+_entity_poly.entity_id
+_entity_poly.type
+1 'polypeptide(L)'
+loop_
+_atom_site.group_PDB
+_atom_site.id
+_atom_site.type_symbol
+_atom_site.label_atom_id
+_atom_site.label_comp_id
+_atom_site.label_asym_id
+_atom_site.label_entity_id
+_atom_site.label_seq_id
+_atom_site.Cartn_x
+_atom_site.Cartn_y
+_atom_site.Cartn_z
+_atom_site.auth_seq_id
+_atom_site.auth_asym_id
+_atom_site.pdbx_PDB_model_num
+ATOM 1 C CA GLY A 1 1 0.000 0.000 0.000 1 A 1
+ATOM 2 C CA GLY A 1 2 0.000 10.000 0.000 2 A 1
+ATOM 3 C CA GLY B 1 1 4.000 0.000 0.000 11 B 1
+ATOM 4 C CA GLY B 1 2 4.000 -10.000 0.000 12 B 1
+ATOM 5 H HA2 GLY B 1 2 0.000 12.500 0.000 12 B 1
+`;
+
+test('chain interface', async () => {
+    const model = await parseModel(TWO_CHAINS_CIF, '0int');
+    const chainA = { labelAsymId: 'A', instanceId: undefined };
+    const chainB = { labelAsymId: 'B', instanceId: undefined };
+    expect(listInterfacingChainInstances(model, undefined)).toEqual([[chainA, chainB]]);
+
+    const iface = getChainInterface(model, undefined, chainA, chainB);
+    expect(iface.partners).toEqual([chainA, chainB]);
+    expect(iface.residues).toEqual([
+        [{ label_asym_id: 'A', label_seq_id: 1, auth_seq_id: 1, pdbx_PDB_ins_code: '' }],
+        [{ label_asym_id: 'B', label_seq_id: 1, auth_seq_id: 11, pdbx_PDB_ins_code: '' }],
+    ]);
+    // Each carbon buries a spherical cap of its solvent-accessible sphere (radius 1.7 + 1.4 A, cap height 3.1 - 4 / 2 A)
+    const capArea = 2 * Math.PI * 3.1 * 1.1;
+    expect(Math.abs(iface.buriedArea - 2 * capArea)).toBeLessThan(0.1 * 2 * capArea); // Shrake-Rupley with 100 points per atom is approximate
+
+    const reversed = getChainInterface(model, undefined, chainB, chainA);
+    expect(reversed.residues).toEqual([iface.residues[1], iface.residues[0]]);
+    expect(reversed.buriedArea).toBeCloseTo(iface.buriedArea);
+
+    // Translated copies of chain A in 0dim (4 A apart) are in contact by both residues
+    const dimer = await parseModel(TRANSLATED_DIMER_CIF, '0dim');
+    const copies = getChainInterface(dimer, '1', { labelAsymId: 'A', instanceId: 'ASM-1' }, { labelAsymId: 'A', instanceId: 'ASM-2' });
+    expect(copies.residues.map(residues => residues.map(r => r.label_seq_id))).toEqual([[1, 2], [1, 2]]);
+    expect(copies.buriedArea).toBeGreaterThan(2 * capArea);
+});
@@ -1,8 +1,12 @@
 /** Function for extracting useful info from structure/model data. */
 
+import 'molstar/lib/mol-model-formats/structure/mmcif'; // must be evaluated before property/symmetry because of a circular import in molstar (matters when loaded as native ES modules)
 import { ModelSymmetry } from 'molstar/lib/mol-model-formats/structure/property/symmetry';
+import { Mat4, Vec3 } from 'molstar/lib/mol-math/linear-algebra';
 import type { Model, ResidueIndex } from 'molstar/lib/mol-model/structure';
+import { SaccharideCompIdMap } from 'molstar/lib/mol-model/structure/structure/carbohydrates/constants';
 import { unique } from './helpers';
+import { SpatialGrid } from './spatial-grid';
 
 
 export type ChainInfo = { [labelChainId: string]: { authChainId: string, entityId: string } };
@@ -70,6 +74,10 @@ export interface ChainInstancesInfo {
         chainsPerOperator: {
             [instanceId: string]: string[],
         },
+        /** Transformation matrix of each symmetry operator (identified by instance_id) */
+        operatorMatrices: {
+            [instanceId: string]: Mat4,
+        },
     },
 }
 
@@ -82,10 +90,12 @@ export function getChainInstancesInAssemblies(model: Model): ChainInstancesInfo
         const allOperators: string[] = [];
         const operatorsPerChain: { [labelChainId: string]: string[] } = {};
         const chainsPerOperator: { [instanceId: string]: string[] } = {};
+        const operatorMatrices: { [instanceId: string]: Mat4 } = {};
         for (const group of assembly.operatorGroups) {
             for (const op of group.operators) {
                 const instanceId = op.instanceId;
                 allOperators.push(instanceId);
+                operatorMatrices[instanceId] = op.matrix;
                 if (group.asymIds) {
                     for (const labelAsymId of group.asymIds) {
                         (operatorsPerChain[labelAsymId] ??= []).push(instanceId);
@@ -94,11 +104,156 @@ export function getChainInstancesInAssemblies(model: Model): ChainInstancesInfo
                 }
             }
         }
-        out[assembly.id] = { allOperators: unique(allOperators), operatorsPerChain, chainsPerOperator };
+        out[assembly.id] = { allOperators: unique(allOperators), operatorsPerChain, chainsPerOperator, operatorMatrices };
     }
     return out;
 }
 
+/** Rotational symmetry axis of an assembly */
+export interface SymmetryAxis {
+    /** Rotation order (2 for two-fold axis etc.) */
+    order: number,
+    /** Unit vector along the axis */
+    direction: Vec3,
+}
+
+/** Point group symmetry of an assembly */
+export interface AssemblySymmetry {
+    /** Schoenflies symbol of the point group ('C1' if the assembly has no rotational symmetry) */
+    pointGroup: string,
+    /** Number of symmetry operations (including identity) */
+    order: number,
+    axes: SymmetryAxis[],
+    /** Center of the assembly, lying on all symmetry axes */
+    center: Vec3,
+    /** Radius of the sphere around `center` enclosing the whole assembly */
+    radius: number,
+}
+
+/** Maximum distance between a transformed chain center and the center of another copy of the chain to consider them overlapping, in angstroms */
+const SYMMETRY_TOLERANCE = 1;
+
+/** Detect point group symmetry of an assembly, based on its symmetry operators (`assemblyInfo` from `getChainInstancesInAssemblies`).
+ * Candidate symmetry operations are the transformations between the copies created by the operators;
+ * a candidate is a symmetry operation if it maps the center of each copy onto the center of another copy of the same chains.
+ * (This also works for assemblies built by products of operators, e.g. '(1-60)(61-88)', where only some transformations are symmetry operations,
+ * and for assemblies where different operators are applied to different chains.) */
+export function getAssemblySymmetry(model: Model, assemblyInfo: ChainInstancesInfo[string]): AssemblySymmetry {
+    // Group operators applied to the same set of chains
+    const groups: { [chainsKey: string]: { chains: string[], operators: Mat4[] } } = {};
+    for (const instanceId of assemblyInfo.allOperators) {
+        const chains = assemblyInfo.chainsPerOperator[instanceId];
+        if (chains === undefined || chains.length === 0) continue;
+        const key = [...chains].sort().join(',');
+        (groups[key] ??= { chains, operators: [] }).operators.push(assemblyInfo.operatorMatrices[instanceId]);
+    }
+    const copies = Object.values(groups).map(group => {
+        const { center, radius } = chainsBoundingSphere(model, group.chains);
+        return { radius, centers: group.operators.map(op => Vec3.transformMat4(Vec3(), center, op)) };
+    });
+    const allCenters = copies.flatMap(copy => copy.centers);
+    if (allCenters.length === 0) return { pointGroup: 'C1', order: 1, axes: [], center: Vec3(), radius: 0 };
+    const center = Vec3.scale(Vec3(), allCenters.reduce((sum, c) => Vec3.add(sum, sum, c), Vec3()), 1 / allCenters.length);
+    const radius = Math.max(...copies.flatMap(copy => copy.centers.map(c => Vec3.distance(c, center) + copy.radius)));
+
+    // Candidate operations from the largest group
+    const sourceGroup = Object.values(groups).reduce((best, group) => group.operators.length > best.operators.length ? group : best);
+    const refInverse = Mat4.invert(Mat4(), sourceGroup.operators[0]);
+    const lookups = copies.map(copy => makePointLookup(copy.centers, SYMMETRY_TOLERANCE));
+    const symmetryOperations: Mat4[] = [];
+    const p = Vec3();
+    for (const op of sourceGroup.operators) {
+        const candidate = Mat4.mul(Mat4(), op, refInverse);
+        if (Mat4.determinant(candidate) < 0) continue; // improper rotations cannot be biological symmetry
+        const isSymmetry = copies.every((copy, i) => copy.centers.every(c => lookups[i](Vec3.transformMat4(p, c, candidate))));
+        if (isSymmetry) symmetryOperations.push(candidate);
+    }
+
+    // Collect axes of all rotations
+    const axes: SymmetryAxis[] = [];
+    for (const operation of symmetryOperations) {
+        const axis = rotationAxis(operation, symmetryOperations.length);
+        if (axis === undefined) continue;
+        const existing = axes.find(a => Math.abs(Vec3.dot(a.direction, axis.direction)) > 0.999);
+        if (existing === undefined) axes.push(axis);
+        else existing.order = Math.max(existing.order, axis.order);
+    }
+    axes.sort((a, b) => b.order - a.order);
+    const order = Math.max(symmetryOperations.length, 1);
+    return { pointGroup: classifyPointGroup(order, axes), order, axes, center, radius };
+}
+
+/** Center of atoms of given chains and radius of their enclosing sphere */
+function chainsBoundingSphere(model: Model, labelAsymIds: string[]): { center: Vec3, radius: number } {
+    const h = model.atomicHierarchy;
+    const { x, y, z } = model.atomicConformation;
+    const ranges = labelAsymIds.map(id => findChainIndexByLabelAsymId(model, id)).filter(iChain => iChain >= 0)
+        .map(iChain => [h.chainAtomSegments.offsets[iChain], h.chainAtomSegments.offsets[iChain + 1]] as const);
+    const center = Vec3();
+    let n = 0;
+    for (const [from, to] of ranges) {
+        for (let i = from; i < to; i++) {
+            center[0] += x[i]; center[1] += y[i]; center[2] += z[i];
+            n++;
+        }
+    }
+    if (n > 0) Vec3.scale(center, center, 1 / n);
+    let radius = 0;
+    for (const [from, to] of ranges) {
+        for (let i = from; i < to; i++) {
+            radius = Math.max(radius, Math.hypot(x[i] - center[0], y[i] - center[1], z[i] - center[2]));
+        }
+    }
+    return { center, radius };
+}
+
+/** Return function deciding if there is a point from `points` within `tolerance` from a query point */
+function makePointLookup(points: Vec3[], tolerance: number): (query: Vec3) => boolean {
+    const grid = new SpatialGrid(points.map(p => p[0]), points.map(p => p[1]), points.map(p => p[2]), { cellSize: tolerance });
+    return query => grid.anyWithin(query[0], query[1], query[2], tolerance);
+}
+
+/** Axis and order of a rotation given by transformation matrix, undefined for identity or a rotation that is not a proper fraction of full turn (up to `maxOrder`) */
+function rotationAxis(m: Mat4, maxOrder: number): SymmetryAxis | undefined {
+    // Rotation part of column-major matrix: R[i][j] = m[4 * j + i]
+    const trace = m[0] + m[5] + m[10];
+    const angle = Math.acos(Math.min(1, Math.max(-1, (trace - 1) / 2)));
+    if (angle < 0.01) return undefined;
+    let order: number | undefined = undefined;
+    for (let k = 2; k <= maxOrder; k++) {
+        const turns = k * angle / (2 * Math.PI);
+        if (Math.abs(turns - Math.round(turns)) < 0.01) {
+            order = k;
+            break;
+        }
+    }
+    if (order === undefined) return undefined;
+    let direction: Vec3;
+    if (Math.PI - angle > 0.01) {
+        direction = Vec3.create(m[6] - m[9], m[8] - m[2], m[1] - m[4]);
+    } else {
+        // 180-degree rotation: axis is any non-zero column of R + I
+        const columns = [0, 1, 2].map(j => Vec3.create(m[4 * j] + (j === 0 ? 1 : 0), m[4 * j + 1] + (j === 1 ? 1 : 0), m[4 * j + 2] + (j === 2 ? 1 : 0)));
+        direction = columns.reduce((best, col) => Vec3.magnitude(col) > Vec3.magnitude(best) ? col : best);
+    }
+    Vec3.normalize(direction, direction);
+    // Canonical orientation, so that opposite directions can be recognized as the same axis
+    const firstNonZero = direction.find(d => Math.abs(d) > 1e-3) ?? 1;
+    if (firstNonZero < 0) Vec3.negate(direction, direction);
+    return { order, direction };
+}
+
+/** Decide Schoenflies symbol of a point group with rotations only */
+function classifyPointGroup(order: number, axes: SymmetryAxis[]): string {
+    if (order === 1 || axes.length === 0) return 'C1';
+    if (axes.length === 1) return `C${order}`;
+    const maxOrder = Math.max(...axes.map(axis => axis.order));
+    if (maxOrder === 5 && order === 60) return 'I';
+    if (maxOrder === 4 && order === 24) return 'O';
+    if (maxOrder === 3 && order === 12 && axes.filter(axis => axis.order === 3).length > 1) return 'T';
+    return `D${order / 2}`;
+}
+
 function getChainPolymerResidueCounts(model: Model) {
     const { atomicHierarchy: h, entities } = model;
     const chainSizes: { [labelChainId: string]: number } = {};
@@ -119,82 +274,442 @@ function getChainPolymerResidueCounts(model: Model) {
     return chainSizes;
 }
 
+/** Spatial grids over all atoms, per model */
+const modelAtomGrids = new WeakMap<Model, SpatialGrid>();
+
+/** Return spatial grid over all atoms of the model (cached, so that repeated queries on the same model do not rebuild it) */
+export function getModelAtomGrid(model: Model): SpatialGrid {
+    let grid = modelAtomGrids.get(model);
+    if (grid === undefined) {
+        const { x, y, z } = model.atomicConformation;
+        grid = new SpatialGrid(x, y, z);
+        modelAtomGrids.set(model, grid);
+    }
+    return grid;
+}
+
 /** Select surroundings of a chain in the model, as whole residues. */
-export function chainSurroundings(model: Model, labelChainId: string, radius: number) {
+export function chainSurroundings(model: Model, labelChainId: string, radius: number): ResidueId[] {
     const h = model.atomicHierarchy;
-    const coords = model.atomicConformation;
-
     const iChain = findChainIndexByLabelAsymId(model, labelChainId);
     if (iChain < 0) throw new Error(`Chain ${labelChainId} not found`);
     const fromAtom = h.chainAtomSegments.offsets[iChain];
     const toAtom = h.chainAtomSegments.offsets[iChain + 1];
-    // Compute target bounding box
-    const bbox = {
-        xmin: coords.x[fromAtom],
-        xmax: coords.x[fromAtom],
-        ymin: coords.y[fromAtom],
-        ymax: coords.y[fromAtom],
-        zmin: coords.z[fromAtom],
-        zmax: coords.z[fromAtom],
-    };
-    for (let iTgtAtom = fromAtom + 1; iTgtAtom < toAtom; iTgtAtom++) {
-        bbox.xmin = Math.min(bbox.xmin, coords.x[iTgtAtom]);
-        bbox.xmax = Math.max(bbox.xmax, coords.x[iTgtAtom]);
-        bbox.ymin = Math.min(bbox.ymin, coords.y[iTgtAtom]);
-        bbox.ymax = Math.max(bbox.ymax, coords.y[iTgtAtom]);
-        bbox.zmin = Math.min(bbox.zmin, coords.z[iTgtAtom]);
-        bbox.zmax = Math.max(bbox.zmax, coords.z[iTgtAtom]);
-    };
-    // Extend bounding box by radius
-    bbox.xmin -= radius;
-    bbox.xmax += radius;
-    bbox.ymin -= radius;
-    bbox.ymax += radius;
-    bbox.zmin -= radius;
-    bbox.zmax += radius;
-
-    // Filter model atoms
-    const outResidues: ResidueIndex[] = [];
-    const sqRadius = radius ** 2;
+    return atomSetSurroundings(model, Array.from({ length: toAtom - fromAtom }, (_, i) => fromAtom + i), radius);
+}
+
+/** Select surroundings of any set of atoms in the model (e.g. chain, residue, ligand, domain; given by atom indices), as whole residues.
+ * Residues are returned in the model order. Target atoms are not included in the surroundings (but other atoms of the same residues can be). */
+export function atomSetSurroundings(model: Model, targetAtoms: ArrayLike<number>, radius: number): ResidueId[] {
+    const h = model.atomicHierarchy;
+    const { x, y, z } = model.atomicConformation;
+    const grid = getModelAtomGrid(model);
     const nAtoms = h.atoms._rowCount;
+    const isTarget = new Uint8Array(nAtoms);
+    for (let k = 0; k < targetAtoms.length; k++) isTarget[targetAtoms[k]] = 1;
+    const isSurrounding = new Uint8Array(nAtoms);
+    for (let k = 0; k < targetAtoms.length; k++) {
+        const iTgtAtom = targetAtoms[k];
+        grid.forEachWithin(x[iTgtAtom], y[iTgtAtom], z[iTgtAtom], radius, iAtom => {
+            if (!isTarget[iAtom]) isSurrounding[iAtom] = 1;
+        });
+    }
+    const outResidues: ResidueIndex[] = [];
     for (let iAtom = 0; iAtom < nAtoms; iAtom++) {
-        // Don't include target in surroundings
-        if (iAtom >= fromAtom && iAtom < toAtom) continue;
-        // Pre-filter by bounding box
-        const x = coords.x[iAtom];
-        const y = coords.y[iAtom];
-        const z = coords.z[iAtom];
-        if (x < bbox.xmin) continue;
-        if (x > bbox.xmax) continue;
-        if (y < bbox.ymin) continue;
-        if (y > bbox.ymax) continue;
-        if (z < bbox.zmin) continue;
-        if (z > bbox.zmax) continue;
-        // Filter by distance to any target atom
-        for (let iTgtAtom = fromAtom; iTgtAtom < toAtom; iTgtAtom++) {
-            const sqDist = (x - coords.x[iTgtAtom]) ** 2 + (y - coords.y[iTgtAtom]) ** 2 + (z - coords.z[iTgtAtom]) ** 2;
-            if (sqDist <= sqRadius) {
+        if (!isSurrounding[iAtom]) continue;
+        const iRes = h.residueAtomSegments.index[iAtom];
+        if (outResidues[outResidues.length - 1] !== iRes) {
+            outResidues.push(iRes);
+        }
+    }
+    return outResidues.map(iRes => residueId(model, iRes));
+}
+
+/** Residue in a specific symmetry instance (`instance_id` is undefined for the deposited model) */
+export type InstanceResidueId = ResidueId & { instance_id: string | undefined };
+
+/** Select surroundings of a chain instance in an assembly (or in the deposited model if `assemblyId` is undefined), as whole residues,
+ * including residues from other symmetry instances. Residues are returned ordered by instance (as in the assembly definition), then in the model order. */
+export function chainSurroundingsInAssembly(model: Model, assemblyId: string | undefined, target: ChainInstance, radius: number): InstanceResidueId[] {
+    const h = model.atomicHierarchy;
+    const iTgtChain = findChainIndexByLabelAsymId(model, target.labelAsymId);
+    if (iTgtChain < 0) throw new Error(`Chain ${target.labelAsymId} not found`);
+    const fromAtom = h.chainAtomSegments.offsets[iTgtChain];
+    const toAtom = h.chainAtomSegments.offsets[iTgtChain + 1];
+    return atomSetSurroundingsInAssembly(model, assemblyId, target, Array.from({ length: toAtom - fromAtom }, (_, i) => fromAtom + i), radius);
+}
+
+/** Select surroundings of one residue (given by auth_seq_id and insertion code) of a chain instance in an assembly
+ * (or in the deposited model if `assemblyId` is undefined), as whole residues, including residues from other symmetry instances.
+ * Residues are ordered as in `chainSurroundingsInAssembly`. */
+export function residueSurroundingsInAssembly(model: Model, assemblyId: string | undefined, target: ChainInstance, authSeqId: number, authInsCode: string, radius: number): InstanceResidueId[] {
+    const h = model.atomicHierarchy;
+    const iTgtChain = findChainIndexByLabelAsymId(model, target.labelAsymId);
+    if (iTgtChain < 0) throw new Error(`Chain ${target.labelAsymId} not found`);
+    const targetAtoms: number[] = [];
+    for (let iAtom = h.chainAtomSegments.offsets[iTgtChain]; iAtom < h.chainAtomSegments.offsets[iTgtChain + 1]; iAtom++) {
+        const iRes = h.residueAtomSegments.index[iAtom];
+        if (h.residues.auth_seq_id.value(iRes) === authSeqId && h.residues.pdbx_PDB_ins_code.value(iRes).trim() === authInsCode.trim()) targetAtoms.push(iAtom);
+    }
+    if (targetAtoms.length === 0) throw new Error(`Residue ${authSeqId}${authInsCode} (auth) not found in chain ${target.labelAsymId}`);
+    return atomSetSurroundingsInAssembly(model, assemblyId, target, targetAtoms, radius);
+}
+
+/** Select surroundings of a set of atoms of a chain instance in an assembly (or in the deposited model if `assemblyId` is undefined),
+ * as whole residues, including residues from other symmetry instances. Target atoms (in the target instance) are not included in the surroundings. */
+function atomSetSurroundingsInAssembly(model: Model, assemblyId: string | undefined, target: ChainInstance, targetAtoms: number[], radius: number): InstanceResidueId[] {
+    if (assemblyId === undefined) {
+        return atomSetSurroundings(model, targetAtoms, radius).map(r => ({ ...r, instance_id: undefined }));
+    }
+    const h = model.atomicHierarchy;
+    const { x, y, z } = model.atomicConformation;
+    const assembly = findAssembly(model, assemblyId);
+    const targetOperator = assembly.operatorGroups
+        .filter(group => group.asymIds?.includes(target.labelAsymId))
+        .flatMap(group => group.operators)
+        .find(op => op.instanceId === target.instanceId);
+    if (targetOperator === undefined) throw new Error(`Instance ${target.instanceId} of chain ${target.labelAsymId} not found in assembly ${assemblyId}`);
+    const isTarget = new Uint8Array(h.atoms._rowCount);
+    for (const iAtom of targetAtoms) isTarget[iAtom] = 1;
+    const grid = getModelAtomGrid(model);
+
+    const out: InstanceResidueId[] = [];
+    const seen = new Set<string>();
+    const v = Vec3();
+    const toInstanceFrame = Mat4();
+    for (const group of assembly.operatorGroups) {
+        const groupChains = new Set(group.asymIds ?? []);
+        for (const op of group.operators) {
+            // Target coordinates transformed to the frame of the deposited model, in which the instance `op` is the identity
+            Mat4.mul(toInstanceFrame, Mat4.invert(toInstanceFrame, op.matrix), targetOperator.matrix);
+            const isTargetInstance = op.instanceId === target.instanceId;
+            const hits: number[] = [];
+            for (const iTgtAtom of targetAtoms) {
+                Vec3.set(v, x[iTgtAtom], y[iTgtAtom], z[iTgtAtom]);
+                Vec3.transformMat4(v, v, toInstanceFrame);
+                grid.forEachWithin(v[0], v[1], v[2], radius, iAtom => {
+                    if (isTargetInstance && isTarget[iAtom]) return; // don't include target in surroundings
+                    if (groupChains.has(h.chains.label_asym_id.value(h.chainAtomSegments.index[iAtom]))) hits.push(iAtom);
+                });
+            }
+            hits.sort((a, b) => a - b);
+            for (const iAtom of hits) {
                 const iRes = h.residueAtomSegments.index[iAtom];
-                if (outResidues[outResidues.length - 1] !== iRes) {
-                    outResidues.push(iRes);
-                }
-                break;
+                const key = `${iRes}:${op.instanceId}`;
+                if (seen.has(key)) continue;
+                seen.add(key);
+                out.push({ ...residueId(model, iRes), instance_id: op.instanceId });
+            }
+        }
+    }
+    return out;
+}
+
+function residueId(model: Model, iRes: ResidueIndex): ResidueId {
+    const h = model.atomicHierarchy;
+    const iAtom = h.residueAtomSegments.offsets[iRes];
+    const iChain = h.chainAtomSegments.index[iAtom];
+    return {
+        label_asym_id: h.chains.label_asym_id.value(iChain),
+        label_seq_id: h.residues.label_seq_id.value(iRes),
+        auth_seq_id: h.residues.auth_seq_id.value(iRes),
+        pdbx_PDB_ins_code: h.residues.pdbx_PDB_ins_code.value(iRes),
+    };
+}
+
+/** Chain with a symmetry operator applied (`instanceId` is undefined in the deposited model) */
+export interface ChainInstance {
+    labelAsymId: string,
+    instanceId: string | undefined,
+}
+
+/** Residue identification, usable as MVS component selector */
+export interface ResidueId {
+    label_asym_id: string,
+    label_seq_id: number,
+    auth_seq_id: number,
+    pdbx_PDB_ins_code: string,
+}
+
+/** Interface between two protein chain instances */
+export interface ChainInterface {
+    partners: [ChainInstance, ChainInstance],
+    /** Interface residues of each partner (residues with a heavy atom within `INTERFACE_CONTACT_DISTANCE` from the other partner) */
+    residues: [ResidueId[], ResidueId[]],
+    /** Solvent-accessible surface area buried in the interface (sum for both partners), in square angstroms */
+    buriedArea: number,
+}
+
+/** Maximum distance between heavy atoms of two partners to consider them in contact, in angstroms */
+export const INTERFACE_CONTACT_DISTANCE = 5;
+
+/** List pairs of protein chain instances in contact in an assembly (or deposited model if `assemblyId` is undefined).
+ * Each pair is listed once, in the order of operators and chains in the assembly. */
+export function listInterfacingChainInstances(model: Model, assemblyId: string | undefined): [ChainInstance, ChainInstance][] {
+    const instances = getProteinChainInstances(model, assemblyId).map(instance => getChainInstanceAtoms(model, assemblyId, instance));
+    const out: [ChainInstance, ChainInstance][] = [];
+    for (let i = 0; i < instances.length; i++) {
+        for (let j = i + 1; j < instances.length; j++) {
+            if (instancesInContact(instances[i], instances[j], INTERFACE_CONTACT_DISTANCE)) {
+                out.push([instances[i].instance, instances[j].instance]);
             }
         }
     }
-    const out = [];
-    for (const iRes of outResidues) {
-        const iAtom = h.residueAtomSegments.offsets[iRes];
-        const iChain = h.chainAtomSegments.index[iAtom];
-        const label_asym_id = h.chains.label_asym_id.value(iChain);
-        const label_seq_id = h.residues.label_seq_id.value(iRes);
-        const auth_seq_id = h.residues.auth_seq_id.value(iRes);
-        const pdbx_PDB_ins_code = h.residues.pdbx_PDB_ins_code.value(iRes);
-        out.push({ label_asym_id, label_seq_id, auth_seq_id, pdbx_PDB_ins_code });
+    return out;
+}
+
+/** Compute interface residues and buried surface area between two chain instances in an assembly (or deposited model if `assemblyId` is undefined) */
+export function getChainInterface(model: Model, assemblyId: string | undefined, partner1: ChainInstance, partner2: ChainInstance): ChainInterface {
+    const atoms1 = getChainInstanceAtoms(model, assemblyId, partner1);
+    const atoms2 = getChainInstanceAtoms(model, assemblyId, partner2);
+    return {
+        partners: [partner1, partner2],
+        residues: [interfaceResidues(model, atoms1, atoms2), interfaceResidues(model, atoms2, atoms1)],
+        buriedArea: buriedSurfaceArea(atoms1, atoms2),
+    };
+}
+
+/** Glycan covalently attached to a protein residue */
+export interface GlycosylationSite {
+    /** Glycosylated residue (Asn, Ser or Thr) */
+    residue: ResidueId & { label_comp_id: string },
+    /** 'N' for N-glycosylation (Asn), 'O' for O-glycosylation (Ser, Thr) */
+    linkage: 'N' | 'O',
+    /** Chain identifier (label_asym_id) of the glycan */
+    glycanLabelAsymId: string,
+    /** Compounds in the glycan (unique, in model order) */
+    glycanCompIds: string[],
+}
+
+/** Atoms of amino acids to which glycans attach */
+const GLYCOSYLATION_ATOMS: { [compId: string]: { atom: string, linkage: GlycosylationSite['linkage'] } } = {
+    ASN: { atom: 'ND2', linkage: 'N' },
+    SER: { atom: 'OG', linkage: 'O' },
+    THR: { atom: 'OG1', linkage: 'O' },
+};
+/** Maximum distance between a saccharide carbon and the attachment atom to consider them bonded, in angstroms */
+const GLYCOSIDIC_BOND_DISTANCE = 1.9;
+
+/** Glycosylation sites, per model */
+const modelGlycosylationSites = new WeakMap<Model, GlycosylationSite[]>();
+
+/** List glycans (non-polymer chains of saccharides) covalently attached to Asn, Ser or Thr of a polymer chain, in the order of glycan chains in the model.
+ * Attachment is decided by distance, so it does not rely on `struct_conn` being present (cached per model). */
+export function getGlycosylationSites(model: Model): GlycosylationSite[] {
+    const cached = modelGlycosylationSites.get(model);
+    if (cached !== undefined) return cached;
+    const { atomicHierarchy: h, entities } = model;
+    const { x, y, z } = model.atomicConformation;
+    const grid = getModelAtomGrid(model);
+    const chainEntityType = (iChain: number) => entities.data.type.value(entities.getEntityIndex(h.chains.label_entity_id.value(iChain)));
+    const out: GlycosylationSite[] = [];
+    for (let iChain = 0; iChain < h.chains._rowCount; iChain++) {
+        if (chainEntityType(iChain) === 'polymer' || chainEntityType(iChain) === 'water') continue;
+        const fromAtom = h.chainAtomSegments.offsets[iChain], toAtom = h.chainAtomSegments.offsets[iChain + 1];
+        const compIds = unique(Array.from({ length: toAtom - fromAtom }, (_, i) => h.atoms.label_comp_id.value(fromAtom + i)));
+        if (!compIds.every(compId => SaccharideCompIdMap.has(compId))) continue;
+        const attachedResidues: ResidueIndex[] = [];
+        for (let iAtom = fromAtom; iAtom < toAtom; iAtom++) {
+            if (h.atoms.type_symbol.value(iAtom) !== 'C') continue;
+            grid.forEachWithin(x[iAtom], y[iAtom], z[iAtom], GLYCOSIDIC_BOND_DISTANCE, iPartner => {
+                const attachment = GLYCOSYLATION_ATOMS[h.atoms.label_comp_id.value(iPartner)];
+                if (attachment === undefined || h.atoms.label_atom_id.value(iPartner) !== attachment.atom) return;
+                if (chainEntityType(h.chainAtomSegments.index[iPartner]) !== 'polymer') return;
+                const iRes = h.residueAtomSegments.index[iPartner];
+                if (!attachedResidues.includes(iRes)) attachedResidues.push(iRes);
+            });
+        }
+        for (const iRes of attachedResidues) {
+            const compId = h.atoms.label_comp_id.value(h.residueAtomSegments.offsets[iRes]);
+            out.push({
+                residue: { ...residueId(model, iRes), label_comp_id: compId },
+                linkage: GLYCOSYLATION_ATOMS[compId].linkage,
+                glycanLabelAsymId: h.chains.label_asym_id.value(iChain),
+                glycanCompIds: compIds,
+            });
+        }
+    }
+    modelGlycosylationSites.set(model, out);
+    return out;
+}
+
+/** Heavy atoms of a chain instance, with the symmetry operator applied */
+interface ChainInstanceAtoms {
+    instance: ChainInstance,
+    /** Residue index of each atom */
+    residues: ResidueIndex[],
+    x: Float64Array,
+    y: Float64Array,
+    z: Float64Array,
+    /** Van der Waals radius of each atom */
+    radii: Float64Array,
+    box: { min: Vec3, max: Vec3 },
+    /** Spatial index of the atoms */
+    grid: SpatialGrid,
+}
+
+/** Van der Waals radii for SASA computation (Bondi), in angstroms */
+const VDW_RADII: { [element: string]: number } = { C: 1.7, N: 1.55, O: 1.52, S: 1.8, SE: 1.9, P: 1.8 };
+const DEFAULT_VDW_RADIUS = 1.8;
+const MAX_VDW_RADIUS = 1.9;
+const PROBE_RADIUS = 1.4;
+/** Number of test points per atom in Shrake-Rupley algorithm */
+const SASA_SPHERE_POINTS = 100;
+
+function getProteinChainInstances(model: Model, assemblyId: string | undefined): ChainInstance[] {
+    const { atomicHierarchy: h, entities } = model;
+    const isProtein = (labelAsymId: string) => {
+        const iChain = findChainIndexByLabelAsymId(model, labelAsymId);
+        if (iChain < 0) return false;
+        const iEntity = entities.getEntityIndex(h.chains.label_entity_id.value(iChain));
+        return entities.data.type.value(iEntity) === 'polymer' && entities.subtype.value(iEntity).startsWith('polypeptide');
+    };
+    if (assemblyId === undefined) {
+        const labelAsymIds = unique(Array.from({ length: h.chains._rowCount }, (_, i) => h.chains.label_asym_id.value(i)));
+        return labelAsymIds.filter(isProtein).map(labelAsymId => ({ labelAsymId, instanceId: undefined }));
+    }
+    const out: ChainInstance[] = [];
+    const seen = new Set<string>();
+    for (const group of findAssembly(model, assemblyId).operatorGroups) {
+        for (const op of group.operators) {
+            for (const labelAsymId of group.asymIds ?? []) {
+                const key = `${labelAsymId}:${op.instanceId}`;
+                if (seen.has(key) || !isProtein(labelAsymId)) continue;
+                seen.add(key);
+                out.push({ labelAsymId, instanceId: op.instanceId });
+            }
+        }
     }
     return out;
 }
 
+function findAssembly(model: Model, assemblyId: string) {
+    const assembly = ModelSymmetry.Provider.get(model)?.assemblies.find(ass => ass.id.toLowerCase() === assemblyId.toLowerCase());
+    if (assembly === undefined) throw new Error(`Assembly ${assemblyId} not found`);
+    return assembly;
+}
+
+/** Get coordinates of heavy atoms of a chain instance, transformed by its symmetry operator */
+function getChainInstanceAtoms(model: Model, assemblyId: string | undefined, instance: ChainInstance): ChainInstanceAtoms {
+    const h = model.atomicHierarchy;
+    const coords = model.atomicConformation;
+    const iChain = findChainIndexByLabelAsymId(model, instance.labelAsymId);
+    if (iChain < 0) throw new Error(`Chain ${instance.labelAsymId} not found`);
+    let matrix: Mat4 | undefined = undefined;
+    if (assemblyId !== undefined) {
+        const operator = findAssembly(model, assemblyId).operatorGroups
+            .filter(group => group.asymIds?.includes(instance.labelAsymId))
+            .flatMap(group => group.operators)
+            .find(op => op.instanceId === instance.instanceId);
+        if (operator === undefined) throw new Error(`Instance ${instance.instanceId} of chain ${instance.labelAsymId} not found in assembly ${assemblyId}`);
+        matrix = operator.matrix;
+    }
+    const fromAtom = h.chainAtomSegments.offsets[iChain];
+    const toAtom = h.chainAtomSegments.offsets[iChain + 1];
+    const residues: ResidueIndex[] = [];
+    const x: number[] = [], y: number[] = [], z: number[] = [], radii: number[] = [];
+    const min = Vec3.create(Infinity, Infinity, Infinity);
+    const max = Vec3.create(-Infinity, -Infinity, -Infinity);
+    const v = Vec3();
+    for (let iAtom = fromAtom; iAtom < toAtom; iAtom++) {
+        const element = (h.atoms.type_symbol.value(iAtom) as string).toUpperCase();
+        if (element === 'H' || element === 'D') continue;
+        Vec3.set(v, coords.x[iAtom], coords.y[iAtom], coords.z[iAtom]);
+        if (matrix) Vec3.transformMat4(v, v, matrix);
+        residues.push(h.residueAtomSegments.index[iAtom]);
+        x.push(v[0]);
+        y.push(v[1]);
+        z.push(v[2]);
+        radii.push(VDW_RADII[element] ?? DEFAULT_VDW_RADIUS);
+        Vec3.min(min, min, v);
+        Vec3.max(max, max, v);
+    }
+    const xs = Float64Array.from(x), ys = Float64Array.from(y), zs = Float64Array.from(z);
+    return { instance, residues, x: xs, y: ys, z: zs, radii: Float64Array.from(radii), box: { min, max }, grid: new SpatialGrid(xs, ys, zs) };
+}
+
+/** Decide if bounding boxes of `a` and `b` are closer than `margin` */
+function boxesOverlap(a: ChainInstanceAtoms, b: ChainInstanceAtoms, margin: number): boolean {
+    for (let d = 0; d < 3; d++) {
+        if (a.box.min[d] > b.box.max[d] + margin || b.box.min[d] > a.box.max[d] + margin) return false;
+    }
+    return true;
+}
+
+function sqDistance(a: ChainInstanceAtoms, i: number, b: ChainInstanceAtoms, j: number): number {
+    return (a.x[i] - b.x[j]) ** 2 + (a.y[i] - b.y[j]) ** 2 + (a.z[i] - b.z[j]) ** 2;
+}
+
+function instancesInContact(a: ChainInstanceAtoms, b: ChainInstanceAtoms, distance: number): boolean {
+    if (!boxesOverlap(a, b, distance)) return false;
+    for (let i = 0; i < a.residues.length; i++) {
+        if (b.grid.anyWithin(a.x[i], a.y[i], a.z[i], distance)) return true;
+    }
+    return false;
+}
+
+/** Residues of `a` with any heavy atom within `INTERFACE_CONTACT_DISTANCE` from `b` */
+function interfaceResidues(model: Model, a: ChainInstanceAtoms, b: ChainInstanceAtoms): ResidueId[] {
+    const h = model.atomicHierarchy;
+    const outResidues: ResidueIndex[] = [];
+    for (let i = 0; i < a.residues.length; i++) {
+        if (outResidues[outResidues.length - 1] === a.residues[i]) continue;
+        if (b.grid.anyWithin(a.x[i], a.y[i], a.z[i], INTERFACE_CONTACT_DISTANCE)) outResidues.push(a.residues[i]);
+    }
+    return outResidues.map(iRes => ({
+        label_asym_id: a.instance.labelAsymId,
+        label_seq_id: h.residues.label_seq_id.value(iRes),
+        auth_seq_id: h.residues.auth_seq_id.value(iRes),
+        pdbx_PDB_ins_code: h.residues.pdbx_PDB_ins_code.value(iRes),
+    }));
+}
+
+/** Solvent-accessible surface area buried in the interface of `a` and `b` (SASA of separate partners minus SASA of the complex),
+ * computed by Shrake-Rupley algorithm for atoms that can be buried by the other partner */
+function buriedSurfaceArea(a: ChainInstanceAtoms, b: ChainInstanceAtoms): number {
+    return buriedSurfaceAreaOneSide(a, b) + buriedSurfaceAreaOneSide(b, a);
+}
+
+function buriedSurfaceAreaOneSide(a: ChainInstanceAtoms, b: ChainInstanceAtoms): number {
+    const points = getSpherePoints();
+    if (!boxesOverlap(a, b, 2 * (MAX_VDW_RADIUS + PROBE_RADIUS))) return 0;
+    let total = 0;
+    for (let i = 0; i < a.residues.length; i++) {
+        const ri = a.radii[i] + PROBE_RADIUS;
+        const isNeighbor = (other: ChainInstanceAtoms, j: number) => sqDistance(a, i, other, j) < (ri + other.radii[j] + PROBE_RADIUS) ** 2;
+        const maxReach = ri + MAX_VDW_RADIUS + PROBE_RADIUS;
+        const neighborsB = b.grid.findWithin(a.x[i], a.y[i], a.z[i], maxReach).filter(j => isNeighbor(b, j));
+        if (neighborsB.length === 0) continue;
+        const neighborsA = a.grid.findWithin(a.x[i], a.y[i], a.z[i], maxReach).filter(j => j !== i && isNeighbor(a, j));
+        let nBuried = 0;
+        for (let p = 0; p < points.length; p += 3) {
+            const px = a.x[i] + ri * points[p], py = a.y[i] + ri * points[p + 1], pz = a.z[i] + ri * points[p + 2];
+            const isOccluded = (other: ChainInstanceAtoms, j: number) => (px - other.x[j]) ** 2 + (py - other.y[j]) ** 2 + (pz - other.z[j]) ** 2 < (other.radii[j] + PROBE_RADIUS) ** 2;
+            if (neighborsA.some(j => isOccluded(a, j))) continue; // not accessible even without partner
+            if (neighborsB.some(j => isOccluded(b, j))) nBuried++;
+        }
+        total += 4 * Math.PI * ri ** 2 * nBuried / SASA_SPHERE_POINTS;
+    }
+    return total;
+}
+
+let _spherePoints: Float64Array | undefined = undefined;
+
+/** Evenly distributed points on unit sphere (golden spiral), as flat array of coordinates */
+function getSpherePoints(): Float64Array {
+    if (_spherePoints) return _spherePoints;
+    const points = new Float64Array(3 * SASA_SPHERE_POINTS);
+    const goldenAngle = Math.PI * (3 - Math.sqrt(5));
+    for (let k = 0; k < SASA_SPHERE_POINTS; k++) {
+        const z = 1 - (2 * k + 1) / SASA_SPHERE_POINTS;
+        const r = Math.sqrt(1 - z * z);
+        points[3 * k] = r * Math.cos(goldenAngle * k);
+        points[3 * k + 1] = r * Math.sin(goldenAngle * k);
+        points[3 * k + 2] = z;
+    }
+    return _spherePoints = points;
+}
+
 /** Return chain index or -1 if chain not found. */
 function findChainIndexByLabelAsymId(model: Model, labelChainId: string): number {
     const h = model.atomicHierarchy;